@@ -12,8 +12,12 @@ import userRoutes from './routes/user.routes';
 import courseRoutes from './routes/course.routes';
 import paymentRoutes from './routes/payment.routes';
 import aiRoutes from './routes/ai.routes';
+import instructorApplicationRoutes from './routes/instructor-application.routes';
+import courseReviewRoutes from './routes/course-review.routes';
+import adminRoutes from './routes/admin.routes';
 
 // Import middleware
+import { assignRequestId } from './middleware/request-id.middleware';
 import { sendError } from './utils/response.utils';
 
 // Validate environment configuration
@@ -37,10 +41,14 @@ app.use(helmet({
 app.use(cors({
   origin: config.server.nodeEnv === 'production' ? config.cors.origin : true,
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-Id'],
+  exposedHeaders: ['X-Request-Id'],
 }));
 
+// Request ids let audit events be traced back to the request that caused them
+app.use(assignRequestId);
+
 // Rate limiting
 const limiter = rateLimit({
   windowMs: config.rateLimit.windowMs,
@@ -83,6 +91,9 @@ app.use('/api/users', userRoutes);
 app.use('/api/courses', courseRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/ai', aiRoutes);
+app.use('/api/instructor-applications', instructorApplicationRoutes);
+app.use('/api/course-reviews', courseReviewRoutes);
+app.use('/api/admin', adminRoutes);
 
 // API documentation endpoint
 app.get('/api', (req, res) => {
@@ -96,6 +107,8 @@ app.get('/api', (req, res) => {
       courses: '/api/courses - Course management endpoints',
       payments: '/api/payments - Payment processing endpoints',
       ai: '/api/ai - AI-powered features endpoints',
+      instructorApplications: '/api/instructor-applications - Instructor application workflow',
+      admin: '/api/admin - Administration (audit log)',
     },
     endpoints: {
       health: '/health - Health check',
@@ -4,39 +4,114 @@ dotenv.config();
 
 export const config = {
   server: {
-    port: parseInt(process.env.PORT || '3000', 10),
-    nodeEnv: process.env.NODE_ENV || 'development',
+    port: parseInt(process.env['PORT'] || '3000', 10),
+    nodeEnv: process.env['NODE_ENV'] || 'development',
   },
   jwt: {
-    secret: process.env.JWT_SECRET || 'fallback-secret-key',
-    expiresIn: process.env.JWT_EXPIRES_IN || '7d',
-    refreshSecret: process.env.JWT_REFRESH_SECRET || 'fallback-refresh-secret',
-    refreshExpiresIn: process.env.JWT_REFRESH_EXPIRES_IN || '30d',
+    secret: process.env['JWT_SECRET'] || 'fallback-secret-key',
+    expiresIn: process.env['JWT_EXPIRES_IN'] || '7d',
+    refreshSecret: process.env['JWT_REFRESH_SECRET'] || 'fallback-refresh-secret',
+    refreshExpiresIn: process.env['JWT_REFRESH_EXPIRES_IN'] || '30d',
   },
   database: {
-    url: process.env.DATABASE_URL || '',
+    url: process.env['DATABASE_URL'] || '',
+    seedDemoData: process.env['SEED_DEMO_DATA'] === 'true',
   },
   openai: {
-    apiKey: process.env.OPENAI_API_KEY || '',
-    model: process.env.OPENAI_MODEL || 'gpt-4',
+    apiKey: process.env['OPENAI_API_KEY'] || '',
+    model: process.env['OPENAI_MODEL'] || 'gpt-4',
   },
   stripe: {
-    secretKey: process.env.STRIPE_SECRET_KEY || '',
-    publishableKey: process.env.STRIPE_PUBLISHABLE_KEY || '',
-    webhookSecret: process.env.STRIPE_WEBHOOK_SECRET || '',
+    secretKey: process.env['STRIPE_SECRET_KEY'] || '',
+    publishableKey: process.env['STRIPE_PUBLISHABLE_KEY'] || '',
+    webhookSecret: process.env['STRIPE_WEBHOOK_SECRET'] || '',
   },
   aws: {
-    accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
-    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
-    region: process.env.AWS_REGION || 'us-east-1',
-    s3Bucket: process.env.AWS_S3_BUCKET || 'skill-forge-uploads',
+    accessKeyId: process.env['AWS_ACCESS_KEY_ID'] || '',
+    secretAccessKey: process.env['AWS_SECRET_ACCESS_KEY'] || '',
+    region: process.env['AWS_REGION'] || 'us-east-1',
+    s3Bucket: process.env['AWS_S3_BUCKET'] || 'skill-forge-uploads',
   },
   rateLimit: {
-    windowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
-    maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+    windowMs: parseInt(process.env['RATE_LIMIT_WINDOW_MS'] || '900000', 10),
+    maxRequests: parseInt(process.env['RATE_LIMIT_MAX_REQUESTS'] || '100', 10),
   },
   cors: {
-    origin: process.env.CORS_ORIGIN?.split(',') || ['http://localhost:3000'],
+    origin: process.env['CORS_ORIGIN']?.split(',') || ['http://localhost:3000'],
+  },
+  client: {
+    url: process.env['CLIENT_URL'] || 'http://localhost:3001',
+  },
+  mail: {
+    // Production must name a delivering transport; console is only a development default
+    transport: process.env['MAIL_TRANSPORT'] || (process.env['NODE_ENV'] === 'production' ? '' : 'console'),
+    from: process.env['MAIL_FROM'] || 'Skill Forge <no-reply@skillforge.com>',
+    fileDir: process.env['MAIL_FILE_DIR'] || './tmp/mail',
+    httpUrl: process.env['MAIL_HTTP_URL'] || '',
+    httpToken: process.env['MAIL_HTTP_TOKEN'] || '',
+  },
+  twoFactor: {
+    issuer: process.env['TWO_FACTOR_ISSUER'] || 'Skill Forge',
+    requiredRoles: (process.env['TWO_FACTOR_REQUIRED_ROLES'] || 'admin').split(',').map(role => role.trim()).filter(Boolean),
+    challengeExpiresIn: process.env['TWO_FACTOR_CHALLENGE_EXPIRES_IN'] || '10m',
+  },
+  impersonation: {
+    expiresIn: process.env['IMPERSONATION_EXPIRES_IN'] || '30m',
+  },
+  accountDeletion: {
+    graceDays: parseInt(process.env['ACCOUNT_DELETION_GRACE_DAYS'] || '30', 10),
+    // Courses of purged instructors move to this user; without one they are unpublished
+    courseSuccessorId: process.env['ACCOUNT_DELETION_COURSE_SUCCESSOR_ID'] || '',
+  },
+  jobs: {
+    enabled: process.env['JOBS_ENABLED'] !== 'false',
+    accountPurgeIntervalMinutes: parseInt(process.env['ACCOUNT_PURGE_INTERVAL_MINUTES'] || '60', 10),
+    dataExportCleanupIntervalMinutes: parseInt(process.env['DATA_EXPORT_CLEANUP_INTERVAL_MINUTES'] || '60', 10),
+  },
+  coursePublishing: {
+    // Paid courses must be priced within this range; free courses are always allowed
+    minPrice: parseFloat(process.env['COURSE_MIN_PRICE'] || '0.99'),
+    maxPrice: parseFloat(process.env['COURSE_MAX_PRICE'] || '999.99'),
+    defaultThumbnail: process.env['COURSE_DEFAULT_THUMBNAIL'] || 'https://images.pexels.com/photos/270348/pexels-photo-270348.jpeg',
+  },
+  dataExport: {
+    dir: process.env['DATA_EXPORT_DIR'] || './data/exports',
+    linkTtlHours: parseInt(process.env['DATA_EXPORT_LINK_TTL_HOURS'] || '24', 10),
+  },
+  emailVerification: {
+    tokenTtlHours: parseInt(process.env['EMAIL_VERIFICATION_TTL_HOURS'] || '48', 10),
+  },
+  passwordReset: {
+    tokenTtlMinutes: parseInt(process.env['PASSWORD_RESET_TTL_MINUTES'] || '60', 10),
+    maxRequestsPerHour: parseInt(process.env['PASSWORD_RESET_MAX_PER_HOUR'] || '3', 10),
+  },
+  loginProtection: {
+    windowMinutes: parseInt(process.env['LOGIN_FAILURE_WINDOW_MINUTES'] || '15', 10),
+    baseDelaySeconds: parseInt(process.env['LOGIN_BACKOFF_BASE_SECONDS'] || '1', 10),
+    maxDelaySeconds: parseInt(process.env['LOGIN_BACKOFF_MAX_SECONDS'] || '300', 10),
+    account: {
+      backoffAfter: parseInt(process.env['LOGIN_ACCOUNT_BACKOFF_AFTER'] || '3', 10),
+      lockAfter: parseInt(process.env['LOGIN_ACCOUNT_LOCK_AFTER'] || '10', 10),
+      lockMinutes: parseInt(process.env['LOGIN_ACCOUNT_LOCK_MINUTES'] || '30', 10),
+    },
+    ip: {
+      backoffAfter: parseInt(process.env['LOGIN_IP_BACKOFF_AFTER'] || '20', 10),
+      lockAfter: parseInt(process.env['LOGIN_IP_BLOCK_AFTER'] || '100', 10),
+      lockMinutes: parseInt(process.env['LOGIN_IP_BLOCK_MINUTES'] || '60', 10),
+    },
+    unlockTokenTtlMinutes: parseInt(process.env['ACCOUNT_UNLOCK_TTL_MINUTES'] || '60', 10),
+  },
+  oidc: {
+    issuer: process.env['OIDC_ISSUER'] || '',
+    clientId: process.env['OIDC_CLIENT_ID'] || '',
+    clientSecret: process.env['OIDC_CLIENT_SECRET'] || '',
+    redirectUri: process.env['OIDC_REDIRECT_URI'] || 'http://localhost:3001/auth/oidc/callback',
+    scopes: process.env['OIDC_SCOPES'] || 'openid email profile',
+    autoCreateUsers: process.env['OIDC_AUTO_CREATE_USERS'] !== 'false',
+    stateTtlMinutes: parseInt(process.env['OIDC_STATE_TTL_MINUTES'] || '10', 10),
+  },
+  apiKeys: {
+    maxPerUser: parseInt(process.env['API_KEYS_MAX_PER_USER'] || '10', 10),
   },
 };
 
@@ -58,6 +133,17 @@ export const validateConfig = (): void => {
     console.error(`Error: Missing required environment variables: ${missingVars.join(', ')}`);
     process.exit(1);
   }
+
+  // Console and file transports never reach a user's inbox
+  if (config.server.nodeEnv === 'production' && config.mail.transport !== 'http') {
+    console.error('Error: MAIL_TRANSPORT must be "http" in production so password resets and verifications are delivered');
+    process.exit(1);
+  }
+
+  if (config.mail.transport === 'http' && !config.mail.httpUrl) {
+    console.error('Error: MAIL_HTTP_URL is required when MAIL_TRANSPORT is "http"');
+    process.exit(1);
+  }
   
   const missingOptionalVars = optionalEnvVars.filter(
     (varName) => !process.env[varName]
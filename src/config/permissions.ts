@@ -0,0 +1,86 @@
+import { UserRole } from '../types/auth.types';
+import { Permission } from '../types/permission.types';
+
+const studentPermissions: Permission[] = [
+  Permission.COURSE_ENROLL,
+  Permission.PROFILE_READ,
+  Permission.PROGRESS_READ,
+  Permission.PROGRESS_UPDATE,
+  Permission.DATA_EXPORT_READ,
+  Permission.REVIEW_CREATE,
+  Permission.REVIEW_UPDATE_OWN,
+  Permission.REVIEW_DELETE_OWN,
+  Permission.REVIEW_VOTE,
+  Permission.PAYMENT_CREATE,
+  Permission.PAYMENT_READ_OWN,
+  Permission.PAYMENT_REFUND_OWN,
+  Permission.AI_USE,
+  Permission.INSTRUCTOR_APPLICATION_CREATE,
+  Permission.INSTRUCTOR_APPLICATION_READ_OWN,
+];
+
+const instructorPermissions: Permission[] = [
+  Permission.COURSE_ENROLL,
+  Permission.PROFILE_READ,
+  Permission.PROGRESS_READ,
+  Permission.PROGRESS_UPDATE,
+  Permission.DATA_EXPORT_READ,
+  Permission.COURSE_CREATE,
+  Permission.COURSE_VIEW_DRAFT_OWN,
+  Permission.COURSE_UPDATE_OWN,
+  Permission.COURSE_DELETE_OWN,
+  Permission.COURSE_PUBLISH_OWN,
+  Permission.COURSE_LIST_OWN,
+  Permission.REVIEW_CREATE,
+  Permission.REVIEW_UPDATE_OWN,
+  Permission.REVIEW_DELETE_OWN,
+  Permission.REVIEW_VOTE,
+  Permission.PAYMENT_CREATE,
+  Permission.PAYMENT_READ_OWN,
+  Permission.PAYMENT_REFUND_OWN,
+  Permission.PAYMENT_STATS_OWN,
+  Permission.AI_USE,
+  Permission.INSTRUCTOR_APPLICATION_READ_OWN,
+];
+
+const adminPermissions: Permission[] = [
+  Permission.COURSE_ENROLL,
+  Permission.PROFILE_READ,
+  Permission.PROGRESS_READ,
+  Permission.PROGRESS_UPDATE,
+  Permission.DATA_EXPORT_READ,
+  Permission.COURSE_CREATE,
+  Permission.COURSE_VIEW_DRAFT_ANY,
+  Permission.COURSE_UPDATE_ANY,
+  Permission.COURSE_DELETE_ANY,
+  Permission.COURSE_PUBLISH_ANY,
+  Permission.COURSE_REVIEW,
+  Permission.COURSE_LIST_OWN,
+  Permission.REVIEW_CREATE,
+  Permission.REVIEW_UPDATE_OWN,
+  Permission.REVIEW_DELETE_ANY,
+  Permission.REVIEW_VOTE,
+  Permission.REVIEW_MODERATE,
+  Permission.PAYMENT_CREATE,
+  Permission.PAYMENT_READ_ANY,
+  Permission.PAYMENT_REFUND_ANY,
+  Permission.PAYMENT_STATS_ANY,
+  Permission.AI_USE,
+  Permission.AI_USAGE_READ,
+  Permission.INSTRUCTOR_APPLICATION_READ_OWN,
+  Permission.INSTRUCTOR_APPLICATION_REVIEW,
+  Permission.USER_READ_ANY,
+  Permission.USER_UPDATE_ROLE_ANY,
+  Permission.USER_SUSPEND_ANY,
+  Permission.USER_RESET_PASSWORD_ANY,
+  Permission.USER_UNLOCK_ANY,
+  Permission.USER_IMPERSONATE_ANY,
+  Permission.AUDIT_READ,
+];
+
+// The single source of truth for what each role may do
+export const rolePermissions: Record<UserRole, ReadonlySet<Permission>> = {
+  [UserRole.STUDENT]: new Set(studentPermissions),
+  [UserRole.INSTRUCTOR]: new Set(instructorPermissions),
+  [UserRole.ADMIN]: new Set(adminPermissions),
+};
\ No newline at end of file
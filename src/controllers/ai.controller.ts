@@ -1,6 +1,8 @@
 import { Response } from 'express';
 import { openaiService } from '../services/openai.service';
+import { AIChatMessageModel } from '../models/AIChatMessage';
 import { sendSuccess, sendError } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
 import {
   TutorRequest,
   ResumeAnalysisRequest,
@@ -8,6 +10,7 @@ import {
   QuizGenerationRequest,
 } from '../types/ai.types';
 import { RequestWithUser } from '../types/api.types';
+import { Permission } from '../types/permission.types';
 
 export class AIController {
   static async askTutor(req: RequestWithUser, res: Response) {
@@ -20,6 +23,15 @@ export class AIController {
 
       const response = await openaiService.askTutor(tutorRequest);
 
+      await AIChatMessageModel.create({
+        userId: req.user.userId,
+        courseId: tutorRequest.courseId,
+        ...(tutorRequest.moduleId ? { moduleId: tutorRequest.moduleId } : {}),
+        ...(tutorRequest.lessonId ? { lessonId: tutorRequest.lessonId } : {}),
+        question: tutorRequest.question,
+        answer: response.answer,
+      });
+
       return sendSuccess(res, response, 'Tutor response generated successfully');
     } catch (error) {
       console.error('Ask tutor error:', error);
@@ -84,9 +96,8 @@ export class AIController {
         return sendError(res, 401, 'Authentication required');
       }
 
-      // Only admins can view AI usage stats
-      if (req.user.role !== 'admin') {
-        return sendError(res, 403, 'Admin access required');
+      if (!can(req.user, Permission.AI_USAGE_READ)) {
+        return sendError(res, 403, 'Insufficient permissions');
       }
 
       const stats = await openaiService.getUsageStats();
@@ -104,24 +115,8 @@ export class AIController {
         return sendError(res, 401, 'Authentication required');
       }
 
-      // In a real implementation, you would store and retrieve chat history
-      // For now, returning mock data
-      const chatHistory = [
-        {
-          id: 'chat_1',
-          courseId: 'course_1',
-          question: 'What is React?',
-          answer: 'React is a JavaScript library for building user interfaces...',
-          timestamp: new Date(),
-        },
-        {
-          id: 'chat_2',
-          courseId: 'course_1',
-          question: 'How do I use useState?',
-          answer: 'useState is a React Hook that lets you add state to functional components...',
-          timestamp: new Date(),
-        },
-      ];
+      const courseId = typeof req.query['courseId'] === 'string' ? req.query['courseId'] : undefined;
+      const chatHistory = await AIChatMessageModel.findByUser(req.user.userId, courseId);
 
       return sendSuccess(res, chatHistory, 'Chat history retrieved successfully');
     } catch (error) {
@@ -136,10 +131,9 @@ export class AIController {
         return sendError(res, 401, 'Authentication required');
       }
 
-      // In a real implementation, you would clear the user's chat history
-      // For now, just return success
+      const deleted = await AIChatMessageModel.deleteByUser(req.user.userId);
 
-      return sendSuccess(res, null, 'Chat history cleared successfully');
+      return sendSuccess(res, { deleted }, 'Chat history cleared successfully');
     } catch (error) {
       console.error('Clear chat history error:', error);
       return sendError(res, 500, 'Internal server error');
@@ -0,0 +1,68 @@
+import { Response } from 'express';
+import { UserModel } from '../models/User';
+import { apiKeyService } from '../services/api-key.service';
+import { sendSuccess, sendError, sendNotFound, sendBadRequest, sendUnauthorized } from '../utils/response.utils';
+import { CreateApiKeyRequest } from '../types/api-key.types';
+import { RequestWithUser } from '../types/api.types';
+
+export class ApiKeyController {
+  static async createKey(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const request: CreateApiKeyRequest = req.body;
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      const result = await apiKeyService.create(user, request);
+      if ('error' in result) {
+        return sendBadRequest(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'API key created. Copy it now - it will not be shown again');
+    } catch (error) {
+      console.error('Create API key error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async listKeys(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const apiKeys = await apiKeyService.listForUser(req.user.userId);
+
+      return sendSuccess(res, apiKeys, 'API keys retrieved successfully');
+    } catch (error) {
+      console.error('List API keys error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async revokeKey(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const { id } = req.params;
+
+      const revoked = await apiKeyService.revoke(req.user.userId, id);
+      if (!revoked) {
+        return sendNotFound(res, 'API key');
+      }
+
+      return sendSuccess(res, null, 'API key revoked successfully');
+    } catch (error) {
+      console.error('Revoke API key error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
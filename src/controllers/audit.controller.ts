@@ -0,0 +1,71 @@
+import { Response } from 'express';
+import { auditService } from '../services/audit.service';
+import { sendSuccess, sendError, createPagination } from '../utils/response.utils';
+import { toCsv } from '../utils/csv.utils';
+import { AuditEventQuery } from '../types/audit.types';
+import { RequestWithUser } from '../types/api.types';
+
+const CSV_COLUMNS = [
+  'sequence',
+  'createdAt',
+  'action',
+  'actorId',
+  'targetType',
+  'targetId',
+  'ipAddress',
+  'requestId',
+  'changes',
+  'metadata',
+  'previousHash',
+  'hash',
+];
+
+export class AuditController {
+  static async getEvents(req: RequestWithUser, res: Response) {
+    try {
+      const { page = 1, limit = 50, ...filters }: AuditEventQuery = req.query;
+
+      const events = await auditService.find(filters);
+
+      // Apply pagination
+      const startIndex = (page - 1) * limit;
+      const endIndex = startIndex + limit;
+      const paginatedEvents = events.slice(startIndex, endIndex);
+
+      const pagination = createPagination(page, limit, events.length);
+
+      return sendSuccess(res, paginatedEvents, 'Audit events retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get audit events error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Every matching event (no pagination), including hashes so the export can be checked offline
+  static async exportEvents(req: RequestWithUser, res: Response) {
+    try {
+      const { page, limit, ...filters }: AuditEventQuery = req.query;
+
+      const events = await auditService.find(filters);
+      const csv = toCsv(CSV_COLUMNS, events.map(event => ({ ...event })));
+
+      res.set('Content-Type', 'text/csv; charset=utf-8');
+      res.set('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+      return res.send(csv);
+    } catch (error) {
+      console.error('Export audit events error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async verifyChain(_req: RequestWithUser, res: Response) {
+    try {
+      const result = await auditService.verifyChain();
+
+      return sendSuccess(res, result, result.valid ? 'Audit log is intact' : 'Audit log has been tampered with');
+    } catch (error) {
+      console.error('Verify audit chain error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
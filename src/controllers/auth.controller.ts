@@ -1,52 +1,180 @@
 import { Request, Response } from 'express';
 import bcrypt from 'bcryptjs';
 import { UserModel } from '../models/User';
-import { generateTokenPair, verifyRefreshToken } from '../utils/jwt.utils';
-import { sendSuccess, sendError, sendUnauthorized } from '../utils/response.utils';
-import { LoginRequest, SignupRequest, RefreshTokenRequest, UserRole } from '../types/auth.types';
+import { UserTokenModel } from '../models/UserToken';
+import { config } from '../config/env';
+import { withTransaction } from '../database';
+import { mailService } from '../services/mail.service';
+import { sessionService } from '../services/session.service';
+import { twoFactorService } from '../services/two-factor.service';
+import { loginProtectionService } from '../services/login-protection.service';
+import { auditService } from '../services/audit.service';
+import { generateChallengeToken } from '../utils/jwt.utils';
+import { getClientInfo } from '../utils/request.utils';
+import { getPermissions } from '../utils/permission.utils';
+import { generateSecureToken, hashToken } from '../utils/token.utils';
+import { sendSuccess, sendError, sendUnauthorized, sendNotFound, sendBadRequest, sendForbidden } from '../utils/response.utils';
+import {
+  LoginRequest,
+  SignupRequest,
+  RefreshTokenRequest,
+  ForgotPasswordRequest,
+  ResetPasswordRequest,
+  VerifyEmailRequest,
+  UnlockAccountRequest,
+  LoginCheckResult,
+  ChallengePurpose,
+  UserRole,
+  UserTokenType,
+} from '../types/auth.types';
+import { User } from '../types/user.types';
+import { SessionRevokedReason } from '../types/session.types';
+import { AuditAction } from '../types/audit.types';
+import { SessionModel } from '../models/Session';
 import { RequestWithUser } from '../types/api.types';
 
+// Issues a fresh verification link, spending any earlier ones
+const sendVerificationEmail = async (user: User) => {
+  const token = generateSecureToken();
+
+  await withTransaction(async () => {
+    await UserTokenModel.invalidateForUser(user.id, UserTokenType.EMAIL_VERIFICATION);
+    await UserTokenModel.create({
+      userId: user.id,
+      type: UserTokenType.EMAIL_VERIFICATION,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + config.emailVerification.tokenTtlHours * 60 * 60 * 1000),
+    });
+  });
+
+  await mailService.sendEmailVerification(user.email, user.firstName, token);
+};
+
+// Issues a fresh password reset link, spending any earlier ones
+export const sendPasswordResetEmail = async (user: User) => {
+  const token = generateSecureToken();
+
+  await withTransaction(async () => {
+    await UserTokenModel.invalidateForUser(user.id, UserTokenType.PASSWORD_RESET);
+    await UserTokenModel.create({
+      userId: user.id,
+      type: UserTokenType.PASSWORD_RESET,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(Date.now() + config.passwordReset.tokenTtlMinutes * 60 * 1000),
+    });
+  });
+
+  await mailService.sendPasswordReset(user.email, user.firstName, token);
+};
+
+const throttledLoginMessages = {
+  account_locked: 'Account temporarily locked after too many failed login attempts. Check your email to unlock it, or try again later',
+  ip_blocked: 'Too many failed login attempts from your network, please try again later',
+  backoff: 'Too many failed login attempts, please wait before trying again',
+};
+
+export const rejectThrottledLogin = (res: Response, result: Extract<LoginCheckResult, { allowed: false }>) => {
+  res.set('Retry-After', String(result.retryAfterSeconds));
+  return sendError(res, result.reason === 'account_locked' ? 423 : 429, throttledLoginMessages[result.reason]);
+};
+
+/**
+ * Final step of every sign-in path: open a session and return the profile
+ * with its tokens. Failed attempts are only forgiven here, once every factor
+ * has passed; a correct password alone must not reset the count that wrong
+ * 2FA codes add to.
+ */
+export const completeLogin = async (
+  req: Request,
+  res: Response,
+  user: User,
+  message: string,
+  extra: Record<string, unknown> = {}
+) => {
+  await loginProtectionService.recordSuccess(user.email);
+
+  const tokens = await sessionService.startSession(user, getClientInfo(req));
+
+  const userProfile = {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+    emailVerified: user.emailVerified,
+    avatar: user.avatar,
+    // Signing in during the grace period is allowed so the account can be restored
+    ...(user.deletion ? { deletionScheduledFor: user.deletion.purgeAfter } : {}),
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+
+  return sendSuccess(res, {
+    user: userProfile,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    ...extra,
+  }, message);
+};
+
+/**
+ * Runs after the first factor (password or identity provider) succeeds.
+ * Suspended accounts and accounts with an admin-forced reset stop here;
+ * enrolled users, and users whose role requires 2FA, get a challenge
+ * instead of tokens.
+ */
+export const continueLogin = async (req: Request, res: Response, user: User) => {
+  if (user.suspension) {
+    return sendForbidden(res, 'This account has been suspended');
+  }
+
+  if (user.passwordResetRequired) {
+    return sendForbidden(res, 'A password reset is required. Use the link sent to your email to set a new password');
+  }
+
+  if (user.twoFactor?.enabled) {
+    return sendSuccess(res, {
+      requiresTwoFactor: true,
+      challengeToken: generateChallengeToken({ userId: user.id, purpose: ChallengePurpose.VERIFY }),
+    }, 'Two-factor authentication required');
+  }
+
+  if (twoFactorService.isRequiredFor(user.role)) {
+    return sendSuccess(res, {
+      twoFactorSetupRequired: true,
+      challengeToken: generateChallengeToken({ userId: user.id, purpose: ChallengePurpose.SETUP }),
+    }, 'Two-factor authentication must be set up before signing in');
+  }
+
+  return completeLogin(req, res, user, 'Login successful');
+};
+
 export class AuthController {
   static async login(req: Request, res: Response) {
     try {
       const { email, password }: LoginRequest = req.body;
+      const { ipAddress } = getClientInfo(req);
+
+      const throttle = await loginProtectionService.check(email, ipAddress);
+      if (!throttle.allowed) {
+        return rejectThrottledLogin(res, throttle);
+      }
 
       // Find user by email
       const user = await UserModel.findByEmail(email);
       if (!user) {
+        await loginProtectionService.recordFailure(email, ipAddress);
         return sendUnauthorized(res, 'Invalid email or password');
       }
 
       // Verify password
       const isPasswordValid = await bcrypt.compare(password, user.password);
       if (!isPasswordValid) {
+        await loginProtectionService.recordFailure(email, ipAddress);
         return sendUnauthorized(res, 'Invalid email or password');
       }
 
-      // Generate tokens
-      const tokens = generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      });
-
-      // Return user profile and tokens
-      const userProfile = {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        avatar: user.avatar,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-      };
-
-      return sendSuccess(res, {
-        user: userProfile,
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      }, 'Login successful');
+      return continueLogin(req, res, user);
     } catch (error) {
       console.error('Login error:', error);
       return sendError(res, 500, 'Internal server error');
@@ -55,7 +183,7 @@ export class AuthController {
 
   static async signup(req: Request, res: Response) {
     try {
-      const { email, password, firstName, lastName, role = UserRole.STUDENT }: SignupRequest = req.body;
+      const { email, password, firstName, lastName }: SignupRequest = req.body;
 
       // Check if user already exists
       const existingUser = await UserModel.findByEmail(email);
@@ -72,37 +200,23 @@ export class AuthController {
         password: hashedPassword,
         firstName,
         lastName,
-        role,
+        // Every account starts as a student; instructor access is granted through an application
+        role: UserRole.STUDENT,
+        emailVerified: false,
         bio: '',
         skills: [],
         preferences: UserModel.getDefaultPreferences(),
         progress: [],
       });
 
-      // Generate tokens
-      const tokens = generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      });
-
-      // Return user profile and tokens
-      const userProfile = {
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-        avatar: user.avatar,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-      };
+      // The account is usable right away; a failed email can be resent later
+      try {
+        await sendVerificationEmail(user);
+      } catch (error) {
+        console.error('Signup verification email error:', error);
+      }
 
-      return sendSuccess(res, {
-        user: userProfile,
-        accessToken: tokens.accessToken,
-        refreshToken: tokens.refreshToken,
-      }, 'Account created successfully');
+      return completeLogin(req, res, user, 'Account created successfully');
     } catch (error) {
       console.error('Signup error:', error);
       return sendError(res, 500, 'Internal server error');
@@ -113,21 +227,8 @@ export class AuthController {
     try {
       const { refreshToken }: RefreshTokenRequest = req.body;
 
-      // Verify refresh token
-      const payload = verifyRefreshToken(refreshToken);
-
-      // Find user to ensure they still exist
-      const user = await UserModel.findById(payload.userId);
-      if (!user) {
-        return sendUnauthorized(res, 'User not found');
-      }
-
-      // Generate new tokens
-      const tokens = generateTokenPair({
-        userId: user.id,
-        email: user.email,
-        role: user.role,
-      });
+      // Rotate: the presented token is spent and a new pair replaces it
+      const tokens = await sessionService.rotate(refreshToken, getClientInfo(req));
 
       return sendSuccess(res, {
         accessToken: tokens.accessToken,
@@ -156,10 +257,14 @@ export class AuthController {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: user.emailVerified,
         avatar: user.avatar,
         bio: user.bio,
         skills: user.skills,
         preferences: user.preferences,
+        twoFactorEnabled: !!user.twoFactor?.enabled,
+        permissions: getPermissions(user.role),
+        ...(req.user.impersonatorId ? { impersonatedBy: req.user.impersonatorId } : {}),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       };
@@ -173,8 +278,25 @@ export class AuthController {
 
   static async logout(req: RequestWithUser, res: Response) {
     try {
-      // In a real implementation, you might want to blacklist the token
-      // For now, we'll just return a success response
+      if (!req.user?.sessionId) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      // Logging out of an impersonation ends it
+      if (req.user.impersonatorId) {
+        await sessionService.revoke(req.user.sessionId, SessionRevokedReason.IMPERSONATION_ENDED);
+        await auditService.recordRequest(req, {
+          action: AuditAction.IMPERSONATION_ENDED,
+          targetType: 'user',
+          targetId: req.user.userId,
+          metadata: { sessionId: req.user.sessionId },
+        });
+        return sendSuccess(res, null, 'Impersonation ended');
+      }
+
+      // Revoking the session invalidates its refresh token and every access token issued for it
+      await sessionService.revoke(req.user.sessionId, SessionRevokedReason.LOGOUT);
+
       return sendSuccess(res, null, 'Logged out successfully');
     } catch (error) {
       console.error('Logout error:', error);
@@ -213,4 +335,198 @@ export class AuthController {
       return sendError(res, 500, 'Internal server error');
     }
   }
+
+  static async getSessions(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user?.sessionId) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const sessions = await sessionService.listForUser(req.user.userId, req.user.sessionId);
+
+      return sendSuccess(res, sessions, 'Sessions retrieved successfully');
+    } catch (error) {
+      console.error('Get sessions error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async revokeSession(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const { id } = req.params;
+
+      // Other users' sessions are reported as missing rather than forbidden
+      const session = await SessionModel.findById(id);
+      if (!session || session.userId !== req.user.userId || !SessionModel.isActive(session)) {
+        return sendNotFound(res, 'Session');
+      }
+
+      await sessionService.revoke(session.id, SessionRevokedReason.REVOKED_BY_USER);
+
+      return sendSuccess(res, null, 'Session revoked successfully');
+    } catch (error) {
+      console.error('Revoke session error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async revokeOtherSessions(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user?.sessionId) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const revokedCount = await sessionService.revokeAllForUser(
+        req.user.userId,
+        SessionRevokedReason.REVOKED_BY_USER,
+        req.user.sessionId
+      );
+
+      return sendSuccess(res, { revokedCount }, 'Logged out of all other sessions');
+    } catch (error) {
+      console.error('Revoke other sessions error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async forgotPassword(req: Request, res: Response) {
+    // Same answer whether or not the account exists, so this cannot be used to probe emails
+    const message = 'If an account exists for this email, a password reset link has been sent';
+
+    try {
+      const { email }: ForgotPasswordRequest = req.body;
+
+      const user = await UserModel.findByEmail(email);
+      if (!user) {
+        return sendSuccess(res, null, message);
+      }
+
+      // Only the newest link works
+      await sendPasswordResetEmail(user);
+
+      return sendSuccess(res, null, message);
+    } catch (error) {
+      console.error('Forgot password error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async resetPassword(req: Request, res: Response) {
+    try {
+      const { token, newPassword }: ResetPasswordRequest = req.body;
+
+      const resetToken = await UserTokenModel.findValid(UserTokenType.PASSWORD_RESET, hashToken(token));
+      if (!resetToken) {
+        return sendBadRequest(res, 'Invalid or expired reset token');
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 12);
+
+      // Spending the token and changing the password happen together; markUsed
+      // fails for a concurrent request that already spent the same token
+      const passwordReset = await withTransaction(async () => {
+        const spent = await UserTokenModel.markUsed(resetToken.id);
+        if (!spent) return false;
+
+        const user = await UserModel.update(resetToken.userId, { password: hashedPassword, passwordResetRequired: false });
+        return !!user;
+      });
+
+      if (!passwordReset) {
+        return sendBadRequest(res, 'Invalid or expired reset token');
+      }
+
+      // Whoever knew the old password loses access everywhere
+      await sessionService.revokeAllForUser(resetToken.userId, SessionRevokedReason.PASSWORD_RESET);
+      // Proving control of the mailbox is also enough to lift a lockout
+      await loginProtectionService.unlock(resetToken.userId, { method: 'password_reset' });
+
+      return sendSuccess(res, null, 'Password has been reset successfully');
+    } catch (error) {
+      console.error('Reset password error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async verifyEmail(req: Request, res: Response) {
+    try {
+      const { token }: VerifyEmailRequest = req.body;
+
+      const verificationToken = await UserTokenModel.findValid(UserTokenType.EMAIL_VERIFICATION, hashToken(token));
+      if (!verificationToken) {
+        return sendBadRequest(res, 'Invalid or expired verification token');
+      }
+
+      const verified = await withTransaction(async () => {
+        const spent = await UserTokenModel.markUsed(verificationToken.id);
+        if (!spent) return false;
+
+        const user = await UserModel.update(verificationToken.userId, {
+          emailVerified: true,
+          emailVerifiedAt: new Date(),
+        });
+        return !!user;
+      });
+
+      if (!verified) {
+        return sendBadRequest(res, 'Invalid or expired verification token');
+      }
+
+      return sendSuccess(res, null, 'Email verified successfully');
+    } catch (error) {
+      console.error('Verify email error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async resendVerification(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      if (user.emailVerified) {
+        return sendBadRequest(res, 'Email is already verified');
+      }
+
+      await sendVerificationEmail(user);
+
+      return sendSuccess(res, null, 'Verification email sent');
+    } catch (error) {
+      console.error('Resend verification error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async unlockAccount(req: Request, res: Response) {
+    try {
+      const { token }: UnlockAccountRequest = req.body;
+
+      const unlockToken = await UserTokenModel.findValid(UserTokenType.ACCOUNT_UNLOCK, hashToken(token));
+      if (!unlockToken) {
+        return sendBadRequest(res, 'Invalid or expired unlock token');
+      }
+
+      const spent = await UserTokenModel.markUsed(unlockToken.id);
+      if (!spent) {
+        return sendBadRequest(res, 'Invalid or expired unlock token');
+      }
+
+      await loginProtectionService.unlock(unlockToken.userId, { method: 'email' });
+
+      return sendSuccess(res, null, 'Account unlocked successfully');
+    } catch (error) {
+      console.error('Unlock account error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,244 @@
+import { Response } from 'express';
+import { CourseModel } from '../models/Course';
+import { UserModel } from '../models/User';
+import { courseReviewService } from '../services/course-review.service';
+import { mailService } from '../services/mail.service';
+import { auditService } from '../services/audit.service';
+import { sendSuccess, sendError, sendNotFound, sendForbidden, sendConflict, createPagination } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import { Course } from '../types/course.types';
+import {
+  AddReviewCommentRequest,
+  CourseReviewQuery,
+  CourseSubmission,
+  CourseSubmissionStatus,
+  ReviewCourseRequest,
+  SubmitCourseRequest,
+} from '../types/course-review.types';
+import { RequestWithUser } from '../types/api.types';
+import { AuditAction } from '../types/audit.types';
+import { Permission } from '../types/permission.types';
+
+// Loads a course the caller may submit, or sends the error response and returns null
+const findOwnCourse = async (req: RequestWithUser<{ id: string }>, res: Response): Promise<Course | null> => {
+  const course = await CourseModel.findById(req.params.id);
+  if (!course) {
+    sendNotFound(res, 'Course');
+    return null;
+  }
+
+  if (!can(req.user, Permission.COURSE_PUBLISH_OWN, course.instructorId)) {
+    sendForbidden(res, 'You can only submit your own courses');
+    return null;
+  }
+
+  return course;
+};
+
+// Reviewers see every submission, instructors those of their own courses
+const canAccessSubmission = async (req: RequestWithUser, submission: CourseSubmission): Promise<boolean> => {
+  if (can(req.user, Permission.COURSE_REVIEW)) return true;
+
+  const course = await CourseModel.findById(submission.courseId);
+  return !!course && can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId);
+};
+
+const notifyInstructor = async (submission: CourseSubmission) => {
+  try {
+    const course = await CourseModel.findById(submission.courseId);
+    const instructor = course ? await UserModel.findById(course.instructorId) : null;
+    if (instructor) {
+      await mailService.sendCourseReviewDecision(
+        instructor.email,
+        instructor.firstName,
+        submission.content.title,
+        submission.status === CourseSubmissionStatus.APPROVED,
+        submission.reviewNote
+      );
+    }
+  } catch (error) {
+    // The decision stands even if the email fails
+    console.error('Course review notification error:', error);
+  }
+};
+
+export class CourseReviewController {
+  static async submitCourse(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const course = await findOwnCourse(req, res);
+      if (!course) return;
+
+      const { message }: SubmitCourseRequest = req.body;
+
+      const result = await courseReviewService.submit(course, req.user.userId, message);
+      if ('error' in result) {
+        switch (result.error) {
+          case 'already_submitted':
+            return sendConflict(res, 'This course already has a submission awaiting review or publishing');
+          case 'no_changes':
+            return sendConflict(res, 'There are no unpublished changes to review');
+          case 'not_ready':
+            return sendError(res, 422, 'The course is not ready to publish', result.issues);
+          default:
+            return sendError(res, 500, 'Failed to submit course');
+        }
+      }
+
+      return sendSuccess(res, result, 'Course submitted for review');
+    } catch (error) {
+      console.error('Submit course for review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async withdrawSubmission(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findOwnCourse(req, res);
+      if (!course) return;
+
+      const result = await courseReviewService.withdraw(course.id);
+      if ('error' in result) {
+        return sendNotFound(res, 'Submission');
+      }
+
+      return sendSuccess(res, result, 'Submission withdrawn');
+    } catch (error) {
+      console.error('Withdraw course submission error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getCourseSubmissions(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await CourseModel.findById(req.params.id);
+      if (!course) {
+        return sendNotFound(res, 'Course');
+      }
+
+      if (!can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId) && !can(req.user, Permission.COURSE_REVIEW)) {
+        return sendForbidden(res, 'You can only view submissions of your own courses');
+      }
+
+      const submissions = await courseReviewService.listForCourse(course.id);
+
+      return sendSuccess(res, submissions, 'Submissions retrieved successfully');
+    } catch (error) {
+      console.error('Get course submissions error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getQueue(req: RequestWithUser, res: Response) {
+    try {
+      const { page = 1, limit = 10, status }: CourseReviewQuery = req.query;
+
+      const submissions = await courseReviewService.listQueue(status);
+
+      // Apply pagination
+      const startIndex = (page - 1) * limit;
+      const endIndex = startIndex + limit;
+      const paginatedSubmissions = submissions.slice(startIndex, endIndex);
+
+      const pagination = createPagination(page, limit, submissions.length);
+
+      return sendSuccess(res, paginatedSubmissions, 'Review queue retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get course review queue error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getSubmission(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const submission = await courseReviewService.getDetails(req.params.id);
+      if (!submission || !(await canAccessSubmission(req, submission))) {
+        return sendNotFound(res, 'Submission');
+      }
+
+      return sendSuccess(res, submission, 'Submission retrieved successfully');
+    } catch (error) {
+      console.error('Get course submission error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Reviewers and the instructor discuss the submission here
+  static async addComment(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const submission = await courseReviewService.getDetails(req.params.id);
+      if (!submission || !(await canAccessSubmission(req, submission))) {
+        return sendNotFound(res, 'Submission');
+      }
+
+      const { body, moduleId, lessonId }: AddReviewCommentRequest = req.body;
+
+      const result = await courseReviewService.addComment(submission.id, {
+        authorId: req.user.userId,
+        body,
+        ...(moduleId ? { moduleId } : {}),
+        ...(lessonId ? { lessonId } : {}),
+      });
+      if ('error' in result) {
+        return sendNotFound(res, 'Submission');
+      }
+
+      return sendSuccess(res, result, 'Comment added successfully');
+    } catch (error) {
+      console.error('Add course review comment error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async approveSubmission(req: RequestWithUser<{ id: string }>, res: Response) {
+    return CourseReviewController.decide(req, res, CourseSubmissionStatus.APPROVED);
+  }
+
+  static async rejectSubmission(req: RequestWithUser<{ id: string }>, res: Response) {
+    return CourseReviewController.decide(req, res, CourseSubmissionStatus.REJECTED);
+  }
+
+  private static async decide(
+    req: RequestWithUser<{ id: string }>,
+    res: Response,
+    status: CourseSubmissionStatus.APPROVED | CourseSubmissionStatus.REJECTED
+  ) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { note }: ReviewCourseRequest = req.body;
+
+      const result = await courseReviewService.decide(req.params.id, req.user.userId, status, note);
+      if ('error' in result) {
+        return result.error === 'submission_not_found'
+          ? sendNotFound(res, 'Submission')
+          : sendConflict(res, 'Submission has already been reviewed');
+      }
+
+      const approved = status === CourseSubmissionStatus.APPROVED;
+
+      await auditService.recordRequest(req, {
+        action: approved ? AuditAction.COURSE_REVIEW_APPROVED : AuditAction.COURSE_REVIEW_REJECTED,
+        targetType: 'course',
+        targetId: result.courseId,
+        metadata: { submissionId: result.id },
+      });
+
+      await notifyInstructor(result);
+
+      return sendSuccess(res, result, approved ? 'Submission approved' : 'Submission rejected');
+    } catch (error) {
+      console.error('Review course submission error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
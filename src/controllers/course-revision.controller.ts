@@ -0,0 +1,160 @@
+import { Response } from 'express';
+import { CourseModel } from '../models/Course';
+import { courseRevisionService, hasContentChanges, toCourseContent } from '../services/course-revision.service';
+import { courseReviewService } from '../services/course-review.service';
+import { auditService } from '../services/audit.service';
+import { sendSuccess, sendError, sendNotFound, sendForbidden, sendConflict } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import { diffFields } from '../utils/audit.utils';
+import { Course } from '../types/course.types';
+import { RevisionDiffQuery, RollbackCourseRequest } from '../types/course-revision.types';
+import { RequestWithUser } from '../types/api.types';
+import { AuditAction } from '../types/audit.types';
+import { Permission } from '../types/permission.types';
+
+type RevisionParams = { id: string; revision: string };
+
+// Drafts and history are for the people who work on the course; sends the error response and returns null otherwise
+const findCourse = async (req: RequestWithUser<{ id: string }>, res: Response, permission: Permission): Promise<Course | null> => {
+  const course = await CourseModel.findById(req.params.id);
+  if (!course) {
+    sendNotFound(res, 'Course');
+    return null;
+  }
+
+  if (!can(req.user, permission, course.instructorId)) {
+    sendForbidden(res, 'You can only manage your own courses');
+    return null;
+  }
+
+  return course;
+};
+
+export class CourseRevisionController {
+  static async getDraft(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findCourse(req, res, Permission.COURSE_UPDATE_OWN);
+      if (!course) return;
+
+      const draft = await courseRevisionService.getWorkingCopy(course);
+      const changes = await courseRevisionService.diffDraft(course);
+
+      return sendSuccess(res, {
+        ...draft,
+        hasUnpublishedChanges: hasContentChanges(changes),
+        publishIssues: courseReviewService.check(toCourseContent(draft)),
+        submission: await courseReviewService.findActiveForCourse(course.id),
+      }, 'Course draft retrieved successfully');
+    } catch (error) {
+      console.error('Get course draft error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // What publishing the draft would change, compared with the live course
+  static async getDraftChanges(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findCourse(req, res, Permission.COURSE_UPDATE_OWN);
+      if (!course) return;
+
+      const diff = await courseRevisionService.diffDraft(course);
+
+      return sendSuccess(res, {
+        publishedRevision: course.publishedRevision ?? null,
+        hasUnpublishedChanges: hasContentChanges(diff),
+        diff,
+      }, 'Draft changes retrieved successfully');
+    } catch (error) {
+      console.error('Get draft changes error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getRevisions(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findCourse(req, res, Permission.COURSE_UPDATE_OWN);
+      if (!course) return;
+
+      const revisions = await courseRevisionService.listRevisions(course.id);
+
+      return sendSuccess(res, revisions, 'Course revisions retrieved successfully');
+    } catch (error) {
+      console.error('Get course revisions error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getRevision(req: RequestWithUser<RevisionParams>, res: Response) {
+    try {
+      const course = await findCourse(req, res, Permission.COURSE_UPDATE_OWN);
+      if (!course) return;
+
+      const revision = await courseRevisionService.getRevision(course.id, Number(req.params.revision));
+      if (!revision) {
+        return sendNotFound(res, 'Revision');
+      }
+
+      return sendSuccess(res, revision, 'Course revision retrieved successfully');
+    } catch (error) {
+      console.error('Get course revision error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getRevisionDiff(req: RequestWithUser<RevisionParams>, res: Response) {
+    try {
+      const course = await findCourse(req, res, Permission.COURSE_UPDATE_OWN);
+      if (!course) return;
+
+      const { against }: RevisionDiffQuery = req.query;
+
+      const result = await courseRevisionService.diffRevision(course.id, Number(req.params.revision), against);
+      if ('error' in result) {
+        return sendNotFound(res, 'Revision');
+      }
+
+      return sendSuccess(res, result, 'Revision changes retrieved successfully');
+    } catch (error) {
+      console.error('Get revision diff error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async rollback(req: RequestWithUser<RevisionParams>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const course = await findCourse(req, res, Permission.COURSE_PUBLISH_OWN);
+      if (!course) return;
+
+      const { note }: RollbackCourseRequest = req.body;
+
+      const result = await courseRevisionService.rollback(course.id, Number(req.params.revision), req.user.userId, note);
+      if ('error' in result) {
+        switch (result.error) {
+          case 'no_changes':
+            return sendConflict(res, 'That content is already live');
+          case 'revision_not_found':
+            return sendNotFound(res, 'Revision');
+          case 'course_not_found':
+            return sendNotFound(res, 'Course');
+        }
+      }
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.COURSE_ROLLED_BACK,
+        targetType: 'course',
+        targetId: course.id,
+        changes: diffFields(course, result.course, ['isPublished', 'publishedRevision']),
+        metadata: { restoredFrom: result.revision.restoredFrom },
+      });
+
+      return sendSuccess(res, result.course, `Course rolled back to revision ${result.revision.restoredFrom}`);
+    } catch (error) {
+      console.error('Roll back course error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { startTestApp, TestApp, INSTRUCTOR_EMAIL, STUDENT_EMAIL } from '../test/app';
+import { db } from '../database';
+import { PaymentModel } from '../models/Payment';
+import { UserModel } from '../models/User';
+import { CourseModel } from '../models/Course';
+import { CourseDraftModel } from '../models/CourseDraft';
+import { ReviewModel } from '../models/Review';
+import { courseRevisionService } from '../services/course-revision.service';
+import { reviewService } from '../services/review.service';
+import { Course } from '../types/course.types';
+import { User } from '../types/user.types';
+import { PaymentStatus } from '../types/payment.types';
+import { AuditAction, AuditEvent } from '../types/audit.types';
+
+describe('POST /api/courses/:id/enroll', () => {
+  let app: TestApp;
+  let token: string;
+  let student: User;
+  let course: Course;
+  let paymentIntentId: string;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    token = await app.login(STUDENT_EMAIL);
+    student = (await UserModel.findByEmail(STUDENT_EMAIL))!;
+    [course] = await CourseModel.findAll();
+
+    paymentIntentId = 'pi_enroll_test';
+    await PaymentModel.create({
+      amount: course.price,
+      currency: 'usd',
+      status: PaymentStatus.SUCCEEDED,
+      courseId: course.id,
+      userId: student.id,
+      stripePaymentIntentId: paymentIntentId,
+    });
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const enroll = () => app.request('POST', `/api/courses/${course.id}/enroll`, { token, body: { paymentIntentId } });
+
+  const isEnrolled = async () =>
+    (await UserModel.findById(student.id))!.progress.some(progress => progress.courseId === course.id);
+
+  const enrollmentCount = async () => (await CourseModel.findById(course.id))!.enrollmentCount;
+
+  it('rolls back the progress entry when the enrollment count fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(CourseModel, 'incrementEnrollment').mockRejectedValue(new Error('injected failure'));
+    const countBefore = await enrollmentCount();
+
+    const response = await enroll();
+
+    expect(response.status).toBe(500);
+    expect(await isEnrolled()).toBe(false);
+    expect(await enrollmentCount()).toBe(countBefore);
+  });
+
+  it('writes the progress entry and the count together', async () => {
+    const countBefore = await enrollmentCount();
+
+    const response = await enroll();
+
+    expect(response.status).toBe(200);
+    expect(await isEnrolled()).toBe(true);
+    expect(await enrollmentCount()).toBe(countBefore + 1);
+  });
+
+  describe('with a fresh account', () => {
+    let freshToken: string;
+    let fresh: User;
+    let freshCount = 0;
+
+    // A student who is not enrolled yet and has paid for the course
+    beforeEach(async () => {
+      const email = `enroll-${++freshCount}@example.com`;
+      const { id, createdAt, updatedAt, ...data } = student;
+      fresh = await UserModel.create({ ...data, email, progress: [] });
+      freshToken = await app.login(email);
+      await PaymentModel.create({
+        amount: course.price,
+        currency: 'usd',
+        status: PaymentStatus.SUCCEEDED,
+        courseId: course.id,
+        userId: fresh.id,
+        stripePaymentIntentId: `pi_enroll_fresh_${freshCount}`,
+      });
+    });
+
+    const enrollFresh = (body: Record<string, unknown> = { paymentIntentId: `pi_enroll_fresh_${freshCount}` }) =>
+      app.request('POST', `/api/courses/${course.id}/enroll`, { token: freshToken, body });
+
+    it('counts two simultaneous enrollments once', async () => {
+      const countBefore = await enrollmentCount();
+      // Holds both requests at their first lookup, so each passes the early enrollment check before either enrolls
+      const findCourse = CourseModel.findById.bind(CourseModel);
+      const held: (() => void)[] = [];
+      jest.spyOn(CourseModel, 'findById').mockImplementation(async id => {
+        if (held.length < 2) {
+          await new Promise<void>(resolve => {
+            held.push(resolve);
+            if (held.length === 2) held.forEach(release => release());
+          });
+        }
+        return findCourse(id);
+      });
+
+      const responses = await Promise.all([enrollFresh(), enrollFresh()]);
+
+      expect(responses.map(response => response.status).sort()).toEqual([200, 409]);
+      expect(await enrollmentCount()).toBe(countBefore + 1);
+    });
+
+    it('refuses a payment made by another user', async () => {
+      const response = await enrollFresh({ paymentIntentId });
+
+      expect(response.status).toBe(400);
+      expect((await UserModel.findById(fresh.id))!.progress).toEqual([]);
+    });
+
+    it('refuses a payment made for another course', async () => {
+      const [, other] = await CourseModel.findAll();
+      await PaymentModel.create({
+        amount: other!.price,
+        currency: 'usd',
+        status: PaymentStatus.SUCCEEDED,
+        courseId: other!.id,
+        userId: fresh.id,
+        stripePaymentIntentId: `pi_enroll_other_${freshCount}`,
+      });
+
+      const response = await enrollFresh({ paymentIntentId: `pi_enroll_other_${freshCount}` });
+
+      expect(response.status).toBe(400);
+      expect((await UserModel.findById(fresh.id))!.progress).toEqual([]);
+    });
+  });
+});
+describe('DELETE /api/courses/:id', () => {
+  let app: TestApp;
+  let token: string;
+  let course: Course;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    token = await app.login(INSTRUCTOR_EMAIL);
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // A copy of a seeded course with a draft and a review of its own
+  beforeEach(async () => {
+    const [seeded] = await CourseModel.findAll();
+    const { id, createdAt, updatedAt, ...data } = seeded!;
+    course = await CourseModel.create({ ...data, title: 'Course to delete' });
+    await courseRevisionService.saveDraft(course, { title: 'Draft of the course to delete' });
+    await ReviewModel.create({ courseId: course.id, userId: 'user_reviewer', authorName: 'Rae R.', rating: 4, body: 'Solid' });
+  });
+
+  const deletedEvents = () =>
+    db.collection<AuditEvent>('audit_events')
+      .count(event => event.action === AuditAction.COURSE_DELETED && event.targetId === course.id);
+
+  it('deletes the course with its draft and reviews and audits it', async () => {
+    const response = await app.request('DELETE', `/api/courses/${course.id}`, { token });
+
+    expect(response.status).toBe(200);
+    expect(await CourseModel.findById(course.id)).toBeNull();
+    expect(await CourseDraftModel.findByCourse(course.id)).toBeNull();
+    expect(await ReviewModel.findByCourse(course.id)).toEqual([]);
+    expect(await deletedEvents()).toBe(1);
+  });
+
+  it('keeps everything and audits nothing when the cleanup fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(reviewService, 'deleteForCourse').mockRejectedValue(new Error('injected failure'));
+
+    const response = await app.request('DELETE', `/api/courses/${course.id}`, { token });
+
+    expect(response.status).toBe(500);
+    expect(await CourseModel.findById(course.id)).not.toBeNull();
+    expect(await CourseDraftModel.findByCourse(course.id)).not.toBeNull();
+    expect(await ReviewModel.findByCourse(course.id)).toHaveLength(1);
+    expect(await deletedEvents()).toBe(0);
+  });
+});
\ No newline at end of file
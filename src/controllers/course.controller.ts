@@ -1,40 +1,89 @@
 import { Response } from 'express';
+import { config } from '../config/env';
 import { CourseModel } from '../models/Course';
 import { UserModel } from '../models/User';
 import { PaymentModel } from '../models/Payment';
-import { sendSuccess, sendError, sendNotFound, sendForbidden, createPagination } from '../utils/response.utils';
-import { CreateCourseRequest, UpdateCourseRequest, CourseFilters, CourseSortOptions } from '../types/course.types';
+import { sendSuccess, sendError, sendNotFound, sendForbidden, sendConflict, createPagination } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import { diffFields } from '../utils/audit.utils';
+import { CatalogFilters, countFacets, filterCourses } from '../utils/catalog.utils';
+import { CreateCourseRequest, UpdateCourseRequest, CourseListQuery, CourseSearchQuery, CourseSortOptions } from '../types/course.types';
+import { PublishCourseRequest } from '../types/course-revision.types';
 import { RequestWithUser, PaginationQuery } from '../types/api.types';
-import { UserRole } from '../types/auth.types';
+import { AuditAction } from '../types/audit.types';
+import { Permission } from '../types/permission.types';
 import { PaymentStatus } from '../types/payment.types';
 import { awsService } from '../services/aws.service';
+import { auditService } from '../services/audit.service';
+import { courseRevisionService } from '../services/course-revision.service';
+import { courseReviewService } from '../services/course-review.service';
+import { reviewService } from '../services/review.service';
+import { withTransaction } from '../database';
+
+// The user's progress entry and the course's enrollment count are written as one
+// unit of work, so a failure part-way through leaves neither behind. The enrollment
+// check is repeated inside it so two requests at once cannot both count; false means
+// the user was already enrolled
+const enrollUser = (userId: string, courseId: string): Promise<boolean> => withTransaction(async () => {
+  const user = await UserModel.findById(userId);
+  if (!user) {
+    throw new Error(`User ${userId} not found`);
+  }
+  if (user.progress.some(progress => progress.courseId === courseId)) {
+    return false;
+  }
+
+  const enrolled = await UserModel.updateProgress(userId, courseId, {
+    courseId,
+    enrolledAt: new Date(),
+    completedModules: [],
+    progressPercentage: 0,
+    lastAccessedAt: new Date(),
+  });
+  if (!enrolled) {
+    throw new Error(`User ${userId} not found`);
+  }
+
+  const counted = await CourseModel.incrementEnrollment(courseId);
+  if (!counted) {
+    throw new Error(`Course ${courseId} not found`);
+  }
+  return true;
+});
 
 export class CourseController {
   static async getAllCourses(req: RequestWithUser, res: Response) {
     try {
-      const { page = 1, limit = 12 }: PaginationQuery = req.query;
-      const filters: CourseFilters = req.query;
+      const { page = 1, limit = 12, sortBy, sortOrder, ...filters }: CourseListQuery = req.query;
       const sortOptions: CourseSortOptions = {
-        sortBy: (req.query.sortBy as any) || 'createdAt',
-        sortOrder: (req.query.sortOrder as any) || 'desc',
+        sortBy: sortBy || (filters.search ? 'relevance' : 'createdAt'),
+        sortOrder: sortOrder || 'desc',
       };
 
-      let courses = await CourseModel.findAll({
-        ...filters,
-        includeUnpublished: req.user?.role === UserRole.ADMIN,
-      });
+      const includeUnpublished = can(req.user, Permission.COURSE_VIEW_DRAFT_ANY);
+      const catalogFilters: CatalogFilters = { ...filters, includeUnpublished };
 
-      // Apply sorting
-      courses.sort((a, b) => {
-        const aValue = a[sortOptions.sortBy as keyof typeof a];
-        const bValue = b[sortOptions.sortBy as keyof typeof b];
-        
-        if (sortOptions.sortOrder === 'asc') {
-          return aValue > bValue ? 1 : -1;
-        } else {
-          return aValue < bValue ? 1 : -1;
-        }
+      // Facets are counted over every visible course matching the search; each facet then applies the other filters
+      const candidates = await CourseModel.findAll({
+        ...(filters.search ? { search: filters.search } : {}),
+        includeUnpublished,
       });
+      const courses = filterCourses(candidates, catalogFilters);
+      const facets = countFacets(candidates, catalogFilters);
+
+      // Apply sorting; search results already come most relevant first
+      if (sortOptions.sortBy !== 'relevance') {
+        courses.sort((a, b) => {
+          const aValue = a[sortOptions.sortBy as keyof typeof a];
+          const bValue = b[sortOptions.sortBy as keyof typeof b];
+
+          if (sortOptions.sortOrder === 'asc') {
+            return aValue > bValue ? 1 : -1;
+          } else {
+            return aValue < bValue ? 1 : -1;
+          }
+        });
+      }
 
       // Apply pagination
       const startIndex = (page - 1) * limit;
@@ -43,14 +92,14 @@ export class CourseController {
 
       const pagination = createPagination(page, limit, courses.length);
 
-      return sendSuccess(res, paginatedCourses, 'Courses retrieved successfully', pagination);
+      return sendSuccess(res, paginatedCourses, 'Courses retrieved successfully', pagination, { facets });
     } catch (error) {
       console.error('Get all courses error:', error);
       return sendError(res, 500, 'Internal server error');
     }
   }
 
-  static async getCourseById(req: RequestWithUser, res: Response) {
+  static async getCourseById(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       const { id } = req.params;
 
@@ -60,7 +109,7 @@ export class CourseController {
       }
 
       // Check if user has access to unpublished course
-      if (!course.isPublished && req.user?.role !== UserRole.ADMIN && req.user?.userId !== course.instructorId) {
+      if (!course.isPublished && !can(req.user, Permission.COURSE_VIEW_DRAFT_OWN, course.instructorId)) {
         return sendForbidden(res, 'Course not available');
       }
 
@@ -109,11 +158,12 @@ export class CourseController {
         instructorId: req.user.userId,
         instructorName: `${instructor.firstName} ${instructor.lastName}`,
         currency: 'USD',
-        thumbnail: 'https://images.pexels.com/photos/270348/pexels-photo-270348.jpeg', // Default thumbnail
+        thumbnail: config.coursePublishing.defaultThumbnail,
         duration: 0,
         modules: [],
         rating: 0,
         reviewCount: 0,
+        ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
         enrollmentCount: 0,
         isPublished: false,
       });
@@ -125,7 +175,7 @@ export class CourseController {
     }
   }
 
-  static async updateCourse(req: RequestWithUser, res: Response) {
+  static async updateCourse(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
@@ -139,15 +189,12 @@ export class CourseController {
         return sendNotFound(res, 'Course');
       }
 
-      // Check if user owns the course or is admin
-      if (course.instructorId !== req.user.userId && req.user.role !== UserRole.ADMIN) {
+      if (!can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId)) {
         return sendForbidden(res, 'You can only update your own courses');
       }
 
-      const updatedCourse = await CourseModel.update(id, updates);
-      if (!updatedCourse) {
-        return sendNotFound(res, 'Course');
-      }
+      // Edits go to the draft; students keep seeing the published content until it is republished
+      const updatedCourse = await courseRevisionService.saveDraft(course, updates);
 
       return sendSuccess(res, updatedCourse, 'Course updated successfully');
     } catch (error) {
@@ -156,7 +203,7 @@ export class CourseController {
     }
   }
 
-  static async deleteCourse(req: RequestWithUser, res: Response) {
+  static async deleteCourse(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
@@ -169,16 +216,30 @@ export class CourseController {
         return sendNotFound(res, 'Course');
       }
 
-      // Check if user owns the course or is admin
-      if (course.instructorId !== req.user.userId && req.user.role !== UserRole.ADMIN) {
+      if (!can(req.user, Permission.COURSE_DELETE_OWN, course.instructorId)) {
         return sendForbidden(res, 'You can only delete your own courses');
       }
 
-      const success = await CourseModel.delete(id);
+      // The course goes with its drafts, revisions, submissions and reviews or not at all
+      const success = await withTransaction(async () => {
+        if (!(await CourseModel.delete(id))) return false;
+
+        await courseRevisionService.deleteForCourse(id);
+        await courseReviewService.deleteForCourse(id);
+        await reviewService.deleteForCourse(id);
+        return true;
+      });
       if (!success) {
         return sendError(res, 500, 'Failed to delete course');
       }
 
+      await auditService.recordRequest(req, {
+        action: AuditAction.COURSE_DELETED,
+        targetType: 'course',
+        targetId: course.id,
+        changes: diffFields(course, null, ['title', 'instructorId', 'isPublished', 'price']),
+      });
+
       return sendSuccess(res, null, 'Course deleted successfully');
     } catch (error) {
       console.error('Delete course error:', error);
@@ -186,37 +247,60 @@ export class CourseController {
     }
   }
 
-  static async publishCourse(req: RequestWithUser, res: Response) {
+  static async publishCourse(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
       }
 
       const { id } = req.params;
+      const { note }: PublishCourseRequest = req.body;
 
       const course = await CourseModel.findById(id);
       if (!course) {
         return sendNotFound(res, 'Course');
       }
 
-      // Check if user owns the course or is admin
-      if (course.instructorId !== req.user.userId && req.user.role !== UserRole.ADMIN) {
+      if (!can(req.user, Permission.COURSE_PUBLISH_OWN, course.instructorId)) {
         return sendForbidden(res, 'You can only publish your own courses');
       }
 
-      const updatedCourse = await CourseModel.update(id, { isPublished: true });
-      if (!updatedCourse) {
-        return sendError(res, 500, 'Failed to publish course');
+      // Instructors publish their approved submission; reviewers may publish the draft without one
+      const result = await courseReviewService.publish(course, req.user.userId, {
+        ...(note ? { note } : {}),
+        skipReview: can(req.user, Permission.COURSE_REVIEW),
+      });
+      if ('error' in result) {
+        switch (result.error) {
+          case 'not_approved':
+            return sendConflict(res, 'The course must be submitted for review and approved before it can be published');
+          case 'not_ready':
+            return sendError(res, 422, 'The course is not ready to publish', result.issues);
+          case 'no_changes':
+            return sendConflict(res, 'There are no unpublished changes');
+          case 'course_not_found':
+            return sendNotFound(res, 'Course');
+          default:
+            return sendError(res, 500, 'Failed to publish course');
+        }
       }
 
-      return sendSuccess(res, updatedCourse, 'Course published successfully');
+      await auditService.recordRequest(req, {
+        action: AuditAction.COURSE_PUBLISHED,
+        targetType: 'course',
+        targetId: course.id,
+        changes: diffFields(course, result.course, ['isPublished', 'publishedRevision']),
+        ...(result.submission ? { metadata: { submissionId: result.submission.id } } : {}),
+      });
+
+      return sendSuccess(res, result.course, 'Course published successfully');
     } catch (error) {
       console.error('Publish course error:', error);
       return sendError(res, 500, 'Internal server error');
     }
   }
 
-  static async enrollInCourse(req: RequestWithUser, res: Response) {
+  static async enrollInCourse(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
@@ -247,15 +331,9 @@ export class CourseController {
 
       // For free courses, enroll directly
       if (course.price === 0) {
-        await UserModel.updateProgress(req.user.userId, id, {
-          courseId: id,
-          enrolledAt: new Date(),
-          completedModules: [],
-          progressPercentage: 0,
-          lastAccessedAt: new Date(),
-        });
-
-        await CourseModel.incrementEnrollment(id);
+        if (!(await enrollUser(req.user.userId, id))) {
+          return sendConflict(res, 'Already enrolled in this course');
+        }
 
         return sendSuccess(res, null, 'Enrolled in course successfully');
       }
@@ -270,16 +348,15 @@ export class CourseController {
         return sendError(res, 400, 'Payment not completed');
       }
 
-      // Enroll user
-      await UserModel.updateProgress(req.user.userId, id, {
-        courseId: id,
-        enrolledAt: new Date(),
-        completedModules: [],
-        progressPercentage: 0,
-        lastAccessedAt: new Date(),
-      });
+      // A payment only unlocks the course it was made for, for the user who made it
+      if (payment.userId !== req.user.userId || payment.courseId !== id) {
+        return sendError(res, 400, 'Payment is not for this course');
+      }
 
-      await CourseModel.incrementEnrollment(id);
+      // Enroll user
+      if (!(await enrollUser(req.user.userId, id))) {
+        return sendConflict(res, 'Already enrolled in this course');
+      }
 
       return sendSuccess(res, null, 'Enrolled in course successfully');
     } catch (error) {
@@ -312,7 +389,7 @@ export class CourseController {
     }
   }
 
-  static async uploadCourseThumbnail(req: RequestWithUser, res: Response) {
+  static async uploadCourseThumbnail(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
@@ -329,8 +406,7 @@ export class CourseController {
         return sendNotFound(res, 'Course');
       }
 
-      // Check if user owns the course
-      if (course.instructorId !== req.user.userId && req.user.role !== UserRole.ADMIN) {
+      if (!can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId)) {
         return sendForbidden(res, 'You can only update your own courses');
       }
 
@@ -341,15 +417,11 @@ export class CourseController {
         id
       );
 
-      // Update course thumbnail URL
-      const updatedCourse = await CourseModel.update(id, {
+      // Update the draft's thumbnail URL; it goes live with the next publish
+      await courseRevisionService.saveDraft(course, {
         thumbnail: uploadResult.url,
       });
 
-      if (!updatedCourse) {
-        return sendError(res, 500, 'Failed to update course thumbnail');
-      }
-
       return sendSuccess(res, {
         thumbnail: uploadResult.url,
       }, 'Course thumbnail uploaded successfully');
@@ -361,15 +433,15 @@ export class CourseController {
 
   static async searchCourses(req: RequestWithUser, res: Response) {
     try {
-      const { q: search, page = 1, limit = 12 }: any = req.query;
+      const { q: search, page = 1, limit = 12 }: CourseSearchQuery = req.query;
 
       if (!search) {
         return sendError(res, 400, 'Search query is required');
       }
 
-      const courses = await CourseModel.findAll({
-        search,
-        includeUnpublished: req.user?.role === UserRole.ADMIN,
+      // Most relevant first, each with its relevance score and the fields that matched
+      const courses = await CourseModel.search(search, {
+        includeUnpublished: can(req.user, Permission.COURSE_VIEW_DRAFT_ANY),
       });
 
       // Apply pagination
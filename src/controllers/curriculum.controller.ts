@@ -0,0 +1,420 @@
+import { Response } from 'express';
+import { CourseModel } from '../models/Course';
+import { curriculumService, CurriculumError } from '../services/curriculum.service';
+import { courseRevisionService } from '../services/course-revision.service';
+import { awsService } from '../services/aws.service';
+import { sendSuccess, sendError, sendNotFound, sendForbidden, sendBadRequest } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import {
+  Course,
+  CourseModule,
+  CreateLessonRequest,
+  CreateModuleRequest,
+  ReorderLessonsRequest,
+  ReorderModulesRequest,
+  Resource,
+  StoredFile,
+  UpdateLessonRequest,
+  UpdateModuleRequest,
+} from '../types/course.types';
+import { FileUploadResponse, RequestWithUser } from '../types/api.types';
+import { Permission } from '../types/permission.types';
+
+type ModuleParams = { id: string; moduleId: string };
+type LessonParams = ModuleParams & { lessonId: string };
+
+const sendCurriculumError = (res: Response, error: CurriculumError) => {
+  switch (error) {
+    case 'course_not_found':
+      return sendNotFound(res, 'Course');
+    case 'module_not_found':
+      return sendNotFound(res, 'Module');
+    case 'lesson_not_found':
+      return sendNotFound(res, 'Lesson');
+    case 'resource_not_found':
+      return sendNotFound(res, 'Resource');
+    case 'invalid_order':
+      return sendBadRequest(res, 'The new order must list every existing item exactly once');
+  }
+};
+
+// Loads a course the caller may view, or sends the error response and returns null.
+// Those who can edit the course see its draft; everyone else sees what is live
+const findViewableCourse = async (req: RequestWithUser<{ id: string }>, res: Response): Promise<Course | null> => {
+  const course = await CourseModel.findById(req.params.id);
+  if (!course) {
+    sendNotFound(res, 'Course');
+    return null;
+  }
+
+  if (!course.isPublished && !can(req.user, Permission.COURSE_VIEW_DRAFT_OWN, course.instructorId)) {
+    sendForbidden(res, 'Course not available');
+    return null;
+  }
+
+  return can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId)
+    ? courseRevisionService.getWorkingCopy(course)
+    : course;
+};
+
+// Loads the draft of a course the caller may edit, or sends the error response and returns null
+const findEditableCourse = async (req: RequestWithUser<{ id: string }>, res: Response): Promise<Course | null> => {
+  const course = await CourseModel.findById(req.params.id);
+  if (!course) {
+    sendNotFound(res, 'Course');
+    return null;
+  }
+
+  if (!can(req.user, Permission.COURSE_UPDATE_OWN, course.instructorId)) {
+    sendForbidden(res, 'You can only update your own courses');
+    return null;
+  }
+
+  return courseRevisionService.getWorkingCopy(course);
+};
+
+const toStoredFile = (upload: FileUploadResponse): StoredFile => ({
+  key: upload.key,
+  size: upload.size,
+  mimeType: upload.mimetype,
+  originalName: upload.originalName,
+  uploadedAt: new Date(),
+});
+
+// Storage cleanup is best effort: the curriculum change has already been saved
+const deleteStoredFiles = async (files: StoredFile[]) => {
+  for (const file of files) {
+    try {
+      await awsService.deleteFile(file.key);
+    } catch (error) {
+      console.error(`Delete lesson file error (${file.key}):`, error);
+    }
+  }
+};
+
+// Deletes files the draft stopped using, unless the live course, a revision or the open submission still needs them
+const releaseStoredFiles = async (courseId: string, files: StoredFile[]) => {
+  await deleteStoredFiles(await curriculumService.unreferencedFiles(courseId, files));
+};
+
+const findLessons = (course: Course, moduleId: string, lessonId?: string) => {
+  const module: CourseModule | undefined = course.modules.find(candidate => candidate.id === moduleId);
+  return (module?.lessons || []).filter(lesson => !lessonId || lesson.id === lessonId);
+};
+
+export class CurriculumController {
+  static async getModules(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findViewableCourse(req, res);
+      if (!course) return;
+
+      return sendSuccess(res, curriculumService.getModules(course), 'Modules retrieved successfully');
+    } catch (error) {
+      console.error('Get modules error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getModule(req: RequestWithUser<ModuleParams>, res: Response) {
+    try {
+      const course = await findViewableCourse(req, res);
+      if (!course) return;
+
+      const module = curriculumService.getModules(course).find(candidate => candidate.id === req.params.moduleId);
+      if (!module) {
+        return sendNotFound(res, 'Module');
+      }
+
+      return sendSuccess(res, module, 'Module retrieved successfully');
+    } catch (error) {
+      console.error('Get module error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getLesson(req: RequestWithUser<LessonParams>, res: Response) {
+    try {
+      const course = await findViewableCourse(req, res);
+      if (!course) return;
+
+      const module = course.modules.find(candidate => candidate.id === req.params.moduleId);
+      const lesson = module?.lessons.find(candidate => candidate.id === req.params.lessonId);
+      if (!lesson) {
+        return sendNotFound(res, module ? 'Lesson' : 'Module');
+      }
+
+      return sendSuccess(res, lesson, 'Lesson retrieved successfully');
+    } catch (error) {
+      console.error('Get lesson error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async createModule(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const request: CreateModuleRequest = req.body;
+
+      const result = await curriculumService.createModule(course.id, request);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Module created successfully');
+    } catch (error) {
+      console.error('Create module error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async updateModule(req: RequestWithUser<ModuleParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const updates: UpdateModuleRequest = req.body;
+
+      const result = await curriculumService.updateModule(course.id, req.params.moduleId, updates);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Module updated successfully');
+    } catch (error) {
+      console.error('Update module error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async deleteModule(req: RequestWithUser<ModuleParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const files = curriculumService.filesOf(findLessons(course, req.params.moduleId));
+
+      const result = await curriculumService.deleteModule(course.id, req.params.moduleId);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      await releaseStoredFiles(course.id, files);
+
+      return sendSuccess(res, result, 'Module deleted successfully');
+    } catch (error) {
+      console.error('Delete module error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async reorderModules(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const { moduleIds }: ReorderModulesRequest = req.body;
+
+      const result = await curriculumService.reorderModules(course.id, moduleIds);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Modules reordered successfully');
+    } catch (error) {
+      console.error('Reorder modules error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async createLesson(req: RequestWithUser<ModuleParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const request: CreateLessonRequest = req.body;
+
+      const result = await curriculumService.createLesson(course.id, req.params.moduleId, request);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Lesson created successfully');
+    } catch (error) {
+      console.error('Create lesson error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async updateLesson(req: RequestWithUser<LessonParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const updates: UpdateLessonRequest = req.body;
+
+      const result = await curriculumService.updateLesson(course.id, req.params.moduleId, req.params.lessonId, updates);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Lesson updated successfully');
+    } catch (error) {
+      console.error('Update lesson error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async deleteLesson(req: RequestWithUser<LessonParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const files = curriculumService.filesOf(findLessons(course, req.params.moduleId, req.params.lessonId));
+
+      const result = await curriculumService.deleteLesson(course.id, req.params.moduleId, req.params.lessonId);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      await releaseStoredFiles(course.id, files);
+
+      return sendSuccess(res, result, 'Lesson deleted successfully');
+    } catch (error) {
+      console.error('Delete lesson error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async reorderLessons(req: RequestWithUser<ModuleParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const { lessonIds }: ReorderLessonsRequest = req.body;
+
+      const result = await curriculumService.reorderLessons(course.id, req.params.moduleId, lessonIds);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Lessons reordered successfully');
+    } catch (error) {
+      console.error('Reorder lessons error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Accepts a `video` and/or up to five `resources` files (see uploadLessonFiles)
+  static async uploadLessonFiles(req: RequestWithUser<LessonParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const { moduleId, lessonId } = req.params;
+      const files = req.files as { video?: Express.Multer.File[]; resources?: Express.Multer.File[] } | undefined;
+      const videoFile = files?.video?.[0];
+      const resourceFiles = files?.resources || [];
+
+      if (!videoFile && resourceFiles.length === 0) {
+        return sendBadRequest(res, 'Upload a video, one or more resources, or both');
+      }
+
+      // Check the lesson before uploading anything, so a typo does not leave objects behind
+      if (findLessons(course, moduleId, lessonId).length === 0) {
+        return sendCurriculumError(res, course.modules.some(module => module.id === moduleId) ? 'lesson_not_found' : 'module_not_found');
+      }
+
+      const uploaded: StoredFile[] = [];
+      let video: { url: string; file: StoredFile } | undefined;
+      const resources: Resource[] = [];
+      try {
+        if (videoFile) {
+          const upload = await awsService.uploadCourseVideo(videoFile.buffer, videoFile.originalname, course.id, videoFile.mimetype);
+          video = { url: upload.url, file: toStoredFile(upload) };
+          uploaded.push(video.file);
+        }
+
+        for (const resourceFile of resourceFiles) {
+          const upload = await awsService.uploadCourseResource(resourceFile.buffer, resourceFile.originalname, resourceFile.mimetype, course.id);
+          const file = toStoredFile(upload);
+          uploaded.push(file);
+          resources.push({
+            id: `resource_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            title: resourceFile.originalname,
+            type: resourceFile.mimetype === 'application/pdf' ? 'pdf' : 'download',
+            url: upload.url,
+            size: upload.size,
+            file,
+          });
+        }
+      } catch (error) {
+        await deleteStoredFiles(uploaded);
+        throw error;
+      }
+
+      const result = await curriculumService.attachFiles(course.id, moduleId, lessonId, {
+        ...(video ? { video } : {}),
+        resources,
+      });
+      if ('error' in result) {
+        await deleteStoredFiles(uploaded);
+        return sendCurriculumError(res, result.error);
+      }
+
+      if (result.replaced) {
+        await releaseStoredFiles(course.id, [result.replaced]);
+      }
+
+      return sendSuccess(res, result.lesson, 'Lesson files uploaded successfully');
+    } catch (error) {
+      console.error('Upload lesson files error:', error);
+      return sendError(res, 500, 'Failed to upload lesson files');
+    }
+  }
+
+  static async removeLessonVideo(req: RequestWithUser<LessonParams>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const result = await curriculumService.removeVideo(course.id, req.params.moduleId, req.params.lessonId);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      if (result.removed) {
+        await releaseStoredFiles(course.id, [result.removed]);
+      }
+
+      return sendSuccess(res, result.lesson, 'Lesson video removed successfully');
+    } catch (error) {
+      console.error('Remove lesson video error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async removeLessonResource(req: RequestWithUser<LessonParams & { resourceId: string }>, res: Response) {
+    try {
+      const course = await findEditableCourse(req, res);
+      if (!course) return;
+
+      const { moduleId, lessonId, resourceId } = req.params;
+
+      const result = await curriculumService.removeResource(course.id, moduleId, lessonId, resourceId);
+      if ('error' in result) {
+        return sendCurriculumError(res, result.error);
+      }
+
+      if (result.removed.file) {
+        await releaseStoredFiles(course.id, [result.removed.file]);
+      }
+
+      return sendSuccess(res, result.lesson, 'Resource removed successfully');
+    } catch (error) {
+      console.error('Remove lesson resource error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
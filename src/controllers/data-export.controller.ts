@@ -0,0 +1,99 @@
+import { Response } from 'express';
+import { UserModel } from '../models/User';
+import { dataExportService } from '../services/data-export.service';
+import { sendSuccess, sendError, sendNotFound, sendConflict } from '../utils/response.utils';
+import { RequestWithUser } from '../types/api.types';
+import { DataExportDownloadQuery } from '../types/data-export.types';
+
+export class DataExportController {
+  static async requestExport(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      const result = await dataExportService.request(user);
+      if ('error' in result) {
+        return sendConflict(res, result.error);
+      }
+
+      return sendSuccess(res, result, 'Your export is being prepared. We will email you a download link when it is ready');
+    } catch (error) {
+      console.error('Request data export error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getExports(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const exports = await dataExportService.listForUser(req.user.userId);
+
+      return sendSuccess(res, exports, 'Data exports retrieved successfully');
+    } catch (error) {
+      console.error('Get data exports error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getExport(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const dataExport = await dataExportService.getForUser(req.user.userId, req.params.id);
+      if (!dataExport) {
+        return sendNotFound(res, 'Data export');
+      }
+
+      return sendSuccess(res, dataExport, 'Data export retrieved successfully');
+    } catch (error) {
+      console.error('Get data export error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Works with the emailed link alone, or for the signed-in owner; API keys never count as the owner
+  static async downloadExport(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const { token }: DataExportDownloadQuery = req.query;
+      const userId = req.user?.sessionId ? req.user.userId : undefined;
+
+      const result = await dataExportService.openDownload(req.params.id, {
+        ...(userId ? { userId } : {}),
+        ...(token ? { token } : {}),
+      });
+
+      if ('error' in result) {
+        switch (result.error) {
+          case 'not_found':
+            return sendNotFound(res, 'Data export');
+          case 'not_ready':
+            return sendConflict(res, 'This export is not ready yet');
+          case 'expired':
+            return sendError(res, 410, 'This download link has expired. Please request a new export');
+        }
+      }
+
+      res.setHeader('Cache-Control', 'no-store');
+      return res.download(result.filePath, result.fileName, (error) => {
+        if (error && !res.headersSent) {
+          console.error('Data export download error:', error);
+          sendNotFound(res, 'Data export');
+        }
+      });
+    } catch (error) {
+      console.error('Download data export error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
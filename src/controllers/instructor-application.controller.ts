@@ -0,0 +1,248 @@
+import { Response } from 'express';
+import { InstructorApplicationModel } from '../models/InstructorApplication';
+import { UserModel } from '../models/User';
+import { withTransaction } from '../database';
+import { mailService } from '../services/mail.service';
+import { auditService } from '../services/audit.service';
+import { diffFields } from '../utils/audit.utils';
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendConflict,
+  sendBadRequest,
+  createPagination,
+} from '../utils/response.utils';
+import { UserRole } from '../types/auth.types';
+import {
+  InstructorApplication,
+  InstructorApplicationQuery,
+  InstructorApplicationStatus,
+  ReviewInstructorApplicationRequest,
+  SubmitInstructorApplicationRequest,
+} from '../types/instructor.types';
+import { RequestWithUser } from '../types/api.types';
+import { AuditAction, AuditChange } from '../types/audit.types';
+
+// Admin views include enough of the applicant to review without a second lookup
+const withApplicant = async (application: InstructorApplication) => {
+  const user = await UserModel.findById(application.userId);
+  return {
+    ...application,
+    applicant: user ? {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+    } : null,
+  };
+};
+
+/**
+ * Moves a pending application to its final state. Approval promotes the
+ * applicant in the same transaction, so a role change is never recorded
+ * without its application (or the other way round).
+ */
+const decide = async (
+  applicationId: string,
+  reviewerId: string,
+  status: InstructorApplicationStatus.APPROVED | InstructorApplicationStatus.REJECTED,
+  note?: string
+) => {
+  return withTransaction(async () => {
+    const application = await InstructorApplicationModel.findById(applicationId);
+    if (!application) {
+      return { error: 'not_found' as const };
+    }
+
+    if (application.status !== InstructorApplicationStatus.PENDING) {
+      return { error: 'already_reviewed' as const };
+    }
+
+    const updated = await InstructorApplicationModel.update(application.id, {
+      status,
+      reviewedBy: reviewerId,
+      reviewedAt: new Date(),
+      ...(note ? { reviewNote: note } : {}),
+    });
+
+    let roleChange: Record<string, AuditChange> | undefined;
+    if (status === InstructorApplicationStatus.APPROVED) {
+      const applicant = await UserModel.findById(application.userId);
+      const promoted = await UserModel.update(application.userId, { role: UserRole.INSTRUCTOR });
+      roleChange = diffFields(applicant, promoted, ['role']);
+    }
+
+    return { application: updated!, ...(roleChange ? { roleChange } : {}) };
+  });
+};
+
+const notifyApplicant = async (application: InstructorApplication) => {
+  try {
+    const user = await UserModel.findById(application.userId);
+    if (user) {
+      await mailService.sendInstructorApplicationDecision(
+        user.email,
+        user.firstName,
+        application.status === InstructorApplicationStatus.APPROVED,
+        application.reviewNote
+      );
+    }
+  } catch (error) {
+    // The decision stands even if the email fails
+    console.error('Instructor application notification error:', error);
+  }
+};
+
+export class InstructorApplicationController {
+  static async submitApplication(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { bio, expertise, experience, portfolioUrl }: SubmitInstructorApplicationRequest = req.body;
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      if (user.role !== UserRole.STUDENT) {
+        return sendBadRequest(res, 'Only students can apply to become instructors');
+      }
+
+      const pending = await InstructorApplicationModel.findPendingByUser(user.id);
+      if (pending) {
+        return sendConflict(res, 'You already have an application awaiting review');
+      }
+
+      const application = await InstructorApplicationModel.create({
+        userId: user.id,
+        bio,
+        expertise,
+        experience,
+        ...(portfolioUrl ? { portfolioUrl } : {}),
+      });
+
+      return sendSuccess(res, application, 'Application submitted successfully');
+    } catch (error) {
+      console.error('Submit instructor application error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getMyApplications(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const applications = await InstructorApplicationModel.findByUser(req.user.userId);
+
+      return sendSuccess(res, applications, 'Applications retrieved successfully');
+    } catch (error) {
+      console.error('Get my instructor applications error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getApplications(req: RequestWithUser, res: Response) {
+    try {
+      const { page = 1, limit = 10, status }: InstructorApplicationQuery = req.query;
+
+      const applications = await InstructorApplicationModel.findAll(status);
+
+      // Apply pagination
+      const startIndex = (page - 1) * limit;
+      const endIndex = startIndex + limit;
+      const paginatedApplications = await Promise.all(
+        applications.slice(startIndex, endIndex).map(withApplicant)
+      );
+
+      const pagination = createPagination(page, limit, applications.length);
+
+      return sendSuccess(res, paginatedApplications, 'Applications retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get instructor applications error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getApplicationById(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const application = await InstructorApplicationModel.findById(id);
+      if (!application) {
+        return sendNotFound(res, 'Application');
+      }
+
+      return sendSuccess(res, await withApplicant(application), 'Application retrieved successfully');
+    } catch (error) {
+      console.error('Get instructor application error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async approveApplication(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+      const { note }: ReviewInstructorApplicationRequest = req.body;
+
+      const result = await decide(id, req.user.userId, InstructorApplicationStatus.APPROVED, note);
+      if ('error' in result) {
+        return result.error === 'not_found'
+          ? sendNotFound(res, 'Application')
+          : sendConflict(res, 'Application has already been reviewed');
+      }
+
+      if (result.roleChange) {
+        await auditService.recordRequest(req, {
+          action: AuditAction.USER_ROLE_CHANGED,
+          targetType: 'user',
+          targetId: result.application.userId,
+          changes: result.roleChange,
+          metadata: { applicationId: result.application.id },
+        });
+      }
+
+      await notifyApplicant(result.application);
+
+      return sendSuccess(res, result.application, 'Application approved');
+    } catch (error) {
+      console.error('Approve instructor application error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async rejectApplication(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+      const { note }: ReviewInstructorApplicationRequest = req.body;
+
+      const result = await decide(id, req.user.userId, InstructorApplicationStatus.REJECTED, note);
+      if ('error' in result) {
+        return result.error === 'not_found'
+          ? sendNotFound(res, 'Application')
+          : sendConflict(res, 'Application has already been reviewed');
+      }
+
+      await notifyApplicant(result.application);
+
+      return sendSuccess(res, result.application, 'Application rejected');
+    } catch (error) {
+      console.error('Reject instructor application error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
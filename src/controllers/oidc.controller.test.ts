@@ -0,0 +1,226 @@
+import { startTestApp, TestApp, STUDENT_EMAIL } from '../test/app';
+import { startMockIdp, MockIdp, MockIdentity, MOCK_IDP_CLIENT_ID } from '../test/mock-idp';
+import { config } from '../config/env';
+import { db } from '../database';
+import { UserModel } from '../models/User';
+import { oidcService } from '../services/oidc.service';
+import { OidcLoginState } from '../types/oidc.types';
+import { UserRole } from '../types/auth.types';
+
+describe('OIDC login', () => {
+  let app: TestApp;
+  let idp: MockIdp;
+  let subjects = 0;
+
+  beforeAll(async () => {
+    idp = await startMockIdp();
+    config.oidc.issuer = idp.issuer;
+    config.oidc.clientId = MOCK_IDP_CLIENT_ID;
+    app = await startTestApp();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await idp.close();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const loginStates = () => db.collection<OidcLoginState>('oidc_login_states');
+
+  const newIdentity = (overrides: Partial<MockIdentity> = {}): MockIdentity => {
+    const n = ++subjects;
+    return { sub: `subject-${n}`, email: `sso-${n}@example.com`, email_verified: true, name: 'Sam Single', ...overrides };
+  };
+
+  // Starts a login at the API and signs in at the provider, stopping before the callback
+  const startLogin = async (identity: MockIdentity) => {
+    const response = await app.request('GET', '/api/auth/oidc/authorize');
+    expect(response.status).toBe(200);
+    return idp.authorize(response.body.data.authorizationUrl, identity);
+  };
+
+  const callback = (code: string, state: string) =>
+    app.request('POST', '/api/auth/oidc/callback', { body: { code, state } });
+
+  const login = async (identity: MockIdentity) => {
+    const { code, state } = await startLogin(identity);
+    return callback(code, state);
+  };
+
+  describe('authorization code flow', () => {
+    it('signs a new user in and creates a student account', async () => {
+      const identity = newIdentity();
+
+      const response = await login(identity);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.accessToken).toEqual(expect.any(String));
+      const user = await UserModel.findByEmail(identity.email!);
+      expect(user!.role).toBe(UserRole.STUDENT);
+      expect(user!.externalIdentities).toEqual([expect.objectContaining({ issuer: idp.issuer, subject: identity.sub })]);
+    });
+
+    it('sends an S256 challenge and keeps the verifier on the server', async () => {
+      const response = await app.request('GET', '/api/auth/oidc/authorize');
+      const url = new URL(response.body.data.authorizationUrl);
+      const stored = await loginStates().findById(response.body.data.state);
+
+      expect(url.searchParams.get('code_challenge_method')).toBe('S256');
+      expect(url.searchParams.get('code_challenge')).not.toBe(stored!.codeVerifier);
+      expect(url.toString()).not.toContain(stored!.codeVerifier);
+    });
+
+    it('is refused when the verifier does not match the challenge', async () => {
+      const { code, state } = await startLogin(newIdentity());
+      const stored = await loginStates().findById(state);
+      await loginStates().save({ ...stored!, codeVerifier: `${stored!.codeVerifier}x` });
+
+      const response = await callback(code, state);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('Authorization code was rejected by the identity provider');
+    });
+  });
+
+  describe('state', () => {
+    it('is refused when unknown', async () => {
+      const { code } = await startLogin(newIdentity());
+
+      expect((await callback(code, 'forged-state')).status).toBe(401);
+    });
+
+    it('works only once', async () => {
+      const { code, state } = await startLogin(newIdentity());
+
+      expect((await callback(code, state)).status).toBe(200);
+      const replay = await callback(code, state);
+
+      expect(replay.status).toBe(401);
+      expect(replay.body.error).toBe('Invalid or expired login state');
+    });
+
+    it('is refused once expired', async () => {
+      const { code, state } = await startLogin(newIdentity());
+      const stored = await loginStates().findById(state);
+      await loginStates().save({ ...stored!, expiresAt: new Date(Date.now() - 1000) });
+
+      expect((await callback(code, state)).status).toBe(401);
+    });
+  });
+
+  describe('nonce', () => {
+    it('must match the one sent with the authorization request', async () => {
+      const { code, state } = await startLogin(newIdentity());
+      const stored = await loginStates().findById(state);
+      await loginStates().save({ ...stored!, nonce: 'another-nonce' });
+
+      const response = await callback(code, state);
+
+      expect(response.status).toBe(401);
+      expect(response.body.error).toBe('ID token nonce mismatch');
+    });
+
+    it('must be present in the ID token', async () => {
+      const idToken = idp.signIdToken({ iss: idp.issuer, aud: MOCK_IDP_CLIENT_ID, sub: 'subject-no-nonce' });
+
+      expect(await oidcService.verifyIdToken(idToken, 'expected-nonce')).toEqual({ error: 'ID token nonce mismatch' });
+    });
+  });
+
+  describe('account linking', () => {
+    it('links an existing account with the same verified email', async () => {
+      const student = await UserModel.findByEmail(STUDENT_EMAIL);
+      const identity = newIdentity({ email: STUDENT_EMAIL });
+
+      const response = await login(identity);
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.user.id).toBe(student!.id);
+      const linked = await UserModel.findByExternalIdentity(idp.issuer, identity.sub);
+      expect(linked!.id).toBe(student!.id);
+    });
+
+    it('finds a linked account by subject after the provider email changes', async () => {
+      const identity = newIdentity();
+      const first = await login(identity);
+
+      const second = await login({ ...identity, email: `changed-${identity.email}` });
+
+      expect(second.status).toBe(200);
+      expect(second.body.data.user.id).toBe(first.body.data.user.id);
+    });
+
+    it('does not link an account whose email is not verified', async () => {
+      const identity = newIdentity();
+      const { id, createdAt, updatedAt, ...student } = (await UserModel.findByEmail(STUDENT_EMAIL))!;
+      await UserModel.create({ ...student, email: identity.email!, emailVerified: false, progress: [] });
+
+      const response = await login(identity);
+
+      expect(response.status).toBe(401);
+      expect(await UserModel.findByExternalIdentity(idp.issuer, identity.sub)).toBeNull();
+    });
+
+    it('refuses an identity whose email the provider has not verified', async () => {
+      const identity = newIdentity({ email_verified: false });
+
+      expect((await login(identity)).status).toBe(401);
+      expect(await UserModel.findByEmail(identity.email!)).toBeNull();
+    });
+
+    it('does not create accounts when auto-creation is off', async () => {
+      config.oidc.autoCreateUsers = false;
+      try {
+        const identity = newIdentity();
+
+        expect((await login(identity)).status).toBe(401);
+        expect(await UserModel.findByEmail(identity.email!)).toBeNull();
+      } finally {
+        config.oidc.autoCreateUsers = true;
+      }
+    });
+  });
+
+  describe('signing keys', () => {
+    const signed = (options: { unpublishedKey?: boolean } = {}) =>
+      idp.signIdToken({ iss: idp.issuer, aud: MOCK_IDP_CLIENT_ID, sub: 'subject-keys', nonce: 'n' }, options);
+
+    // Moves the clock so the JWKS refetch interval and the miss cache can expire
+    const realNow = Date.now;
+    let offset = 0;
+    const advance = (ms: number) => {
+      offset += ms;
+      jest.spyOn(Date, 'now').mockImplementation(() => realNow() + offset);
+    };
+
+    it('does not refetch the key set for a kid it just failed to find', async () => {
+      advance(60 * 60 * 1000);
+      const before = idp.jwksRequests();
+
+      expect(await oidcService.verifyIdToken(signed({ unpublishedKey: true }), 'n')).toEqual({ error: 'ID token is signed with an unknown key' });
+      expect(await oidcService.verifyIdToken(signed({ unpublishedKey: true }), 'n')).toEqual({ error: 'ID token is signed with an unknown key' });
+
+      expect(idp.jwksRequests()).toBe(before + 1);
+    });
+
+    it('reloads the key set at most once per interval, sharing one reload', async () => {
+      advance(60 * 60 * 1000);
+      idp.rotateKey();
+      const before = idp.jwksRequests();
+
+      const results = await Promise.all([signed(), signed(), signed()].map(token => oidcService.verifyIdToken(token, 'n')));
+
+      expect(results).toEqual([0, 1, 2].map(() => expect.objectContaining({ sub: 'subject-keys' })));
+      expect(idp.jwksRequests()).toBe(before + 1);
+
+      idp.rotateKey();
+      expect(await oidcService.verifyIdToken(signed(), 'n')).toEqual({ error: 'ID token is signed with an unknown key' });
+      expect(idp.jwksRequests()).toBe(before + 1);
+
+      advance(61 * 1000);
+      expect(await oidcService.verifyIdToken(signed(), 'n')).toEqual(expect.objectContaining({ sub: 'subject-keys' }));
+      expect(idp.jwksRequests()).toBe(before + 2);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,48 @@
+import { Request, Response } from 'express';
+import { oidcService } from '../services/oidc.service';
+import { continueLogin } from './auth.controller';
+import { sendSuccess, sendError, sendUnauthorized } from '../utils/response.utils';
+import { OidcCallbackRequest } from '../types/oidc.types';
+
+export class OidcController {
+  static async authorize(_req: Request, res: Response) {
+    try {
+      if (!oidcService.isEnabled()) {
+        return sendError(res, 404, 'Single sign-on is not configured');
+      }
+
+      const request = await oidcService.createAuthorizationRequest();
+
+      return sendSuccess(res, request, 'Redirect the user to the authorization URL');
+    } catch (error) {
+      console.error('OIDC authorize error:', error);
+      return sendError(res, 502, 'Identity provider is unavailable');
+    }
+  }
+
+  // The client forwards the code and state it received on its redirect URI
+  static async callback(req: Request, res: Response) {
+    try {
+      if (!oidcService.isEnabled()) {
+        return sendError(res, 404, 'Single sign-on is not configured');
+      }
+
+      const { code, state }: OidcCallbackRequest = req.body;
+
+      const claims = await oidcService.handleCallback(code, state);
+      if ('error' in claims) {
+        return sendUnauthorized(res, claims.error);
+      }
+
+      const user = await oidcService.resolveUser(claims);
+      if ('error' in user) {
+        return sendUnauthorized(res, user.error);
+      }
+
+      return continueLogin(req, res, user);
+    } catch (error) {
+      console.error('OIDC callback error:', error);
+      return sendError(res, 502, 'Identity provider is unavailable');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { startTestApp, TestApp, STUDENT_EMAIL } from '../test/app';
+import { db } from '../database';
+import { PaymentModel } from '../models/Payment';
+import { UserModel } from '../models/User';
+import { CourseModel } from '../models/Course';
+import { stripeService } from '../services/stripe.service';
+import { auditService } from '../services/audit.service';
+import { PaymentIntent, PaymentStatus } from '../types/payment.types';
+import { AuditAction, AuditEvent } from '../types/audit.types';
+
+describe('PaymentController', () => {
+  let app: TestApp;
+  let token: string;
+  let payment: PaymentIntent;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    token = await app.login(STUDENT_EMAIL);
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(async () => {
+    // The injected failures are logged by the controllers
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const student = await UserModel.findByEmail(STUDENT_EMAIL);
+    const [course] = await CourseModel.findAll();
+    payment = await PaymentModel.create({
+      amount: course!.price,
+      currency: 'usd',
+      status: PaymentStatus.PENDING,
+      courseId: course!.id,
+      userId: student!.id,
+      stripePaymentIntentId: `pi_${Date.now()}_${Math.random().toString(36).slice(2)}`,
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Calls through, then fails: the write is staged but the transaction never commits
+  const failAfterUpdate = () => {
+    const update = PaymentModel.update.bind(PaymentModel);
+    jest.spyOn(PaymentModel, 'update').mockImplementation(async (...args) => {
+      await update(...args);
+      throw new Error('injected failure');
+    });
+  };
+
+  const statusOf = async (id: string) => (await PaymentModel.findById(id))!.status;
+
+  describe('POST /api/payments/confirm', () => {
+    it('stores the status Stripe reports', async () => {
+      jest.spyOn(stripeService, 'confirmPayment').mockResolvedValue(PaymentStatus.SUCCEEDED);
+
+      const response = await app.request('POST', '/api/payments/confirm', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.SUCCEEDED);
+    });
+
+    it('does not overwrite a refund that landed first', async () => {
+      await PaymentModel.update(payment.id, { status: PaymentStatus.REFUNDED });
+      jest.spyOn(stripeService, 'confirmPayment').mockResolvedValue(PaymentStatus.SUCCEEDED);
+
+      const response = await app.request('POST', '/api/payments/confirm', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(400);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.REFUNDED);
+    });
+
+    it('commits nothing when the transaction fails', async () => {
+      jest.spyOn(stripeService, 'confirmPayment').mockResolvedValue(PaymentStatus.SUCCEEDED);
+      failAfterUpdate();
+
+      const response = await app.request('POST', '/api/payments/confirm', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(500);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.PENDING);
+    });
+  });
+
+  describe('POST /api/payments/refund', () => {
+    beforeEach(async () => {
+      await PaymentModel.update(payment.id, { status: PaymentStatus.SUCCEEDED });
+      jest.spyOn(stripeService, 'refundPayment').mockResolvedValue(true);
+    });
+
+    const refundEvents = () =>
+      db.collection<AuditEvent>('audit_events')
+        .count(event => event.action === AuditAction.PAYMENT_REFUNDED && event.targetId === payment.id);
+
+    it('marks the payment refunded and audits it', async () => {
+      const response = await app.request('POST', '/api/payments/refund', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(200);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.REFUNDED);
+      expect(await refundEvents()).toBe(1);
+    });
+
+    it('keeps the status when the audit write fails', async () => {
+      jest.spyOn(auditService, 'recordRequest').mockRejectedValue(new Error('injected failure'));
+
+      const response = await app.request('POST', '/api/payments/refund', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(500);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.SUCCEEDED);
+      expect(await refundEvents()).toBe(0);
+    });
+
+    it('writes no audit event when the status write fails', async () => {
+      failAfterUpdate();
+
+      const response = await app.request('POST', '/api/payments/refund', {
+        token,
+        body: { paymentIntentId: payment.stripePaymentIntentId },
+      });
+
+      expect(response.status).toBe(500);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.SUCCEEDED);
+      expect(await refundEvents()).toBe(0);
+    });
+  });
+
+  describe('POST /api/payments/webhook', () => {
+    const deliver = (type: string) => {
+      jest.spyOn(stripeService, 'handleWebhook').mockResolvedValue({
+        type,
+        data: { object: { id: payment.stripePaymentIntentId } },
+      } as any);
+      return app.request('POST', '/api/payments/webhook', { body: {}, headers: { 'stripe-signature': 'test' } });
+    };
+
+    it('marks the payment succeeded', async () => {
+      expect((await deliver('payment_intent.succeeded')).status).toBe(200);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.SUCCEEDED);
+    });
+
+    it('does not undo a refund with a late success event', async () => {
+      await PaymentModel.update(payment.id, { status: PaymentStatus.REFUNDED });
+
+      await deliver('payment_intent.succeeded');
+
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.REFUNDED);
+    });
+
+    it('commits nothing when the transaction fails', async () => {
+      failAfterUpdate();
+
+      expect((await deliver('payment_intent.payment_failed')).status).toBe(400);
+      expect(await statusOf(payment.id)).toBe(PaymentStatus.PENDING);
+    });
+  });
+});
\ No newline at end of file
@@ -2,9 +2,15 @@ import { Response } from 'express';
 import { PaymentModel } from '../models/Payment';
 import { CourseModel } from '../models/Course';
 import { stripeService } from '../services/stripe.service';
+import { auditService } from '../services/audit.service';
 import { sendSuccess, sendError, sendNotFound, sendBadRequest } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import { diffFields } from '../utils/audit.utils';
 import { CreatePaymentIntentRequest, ConfirmPaymentRequest, RefundRequest, PaymentStatus } from '../types/payment.types';
 import { RequestWithUser } from '../types/api.types';
+import { AuditAction } from '../types/audit.types';
+import { Permission } from '../types/permission.types';
+import { withTransaction } from '../database';
 
 export class PaymentController {
   static async createPaymentIntent(req: RequestWithUser, res: Response) {
@@ -78,10 +84,18 @@ export class PaymentController {
       }
 
       // Confirm payment with Stripe
-      const paymentStatus = await stripeService.confirmPayment(paymentIntentId);
+      const stripeStatus = await stripeService.confirmPayment(paymentIntentId);
 
-      // Update payment status
-      await PaymentModel.update(payment.id, { status: paymentStatus });
+      // Re-read and update as one unit; a refund that landed meanwhile must not be undone
+      const paymentStatus = await withTransaction(async () => {
+        const current = await PaymentModel.findById(payment.id);
+        if (!current || current.status === PaymentStatus.REFUNDED) {
+          return current?.status || stripeStatus;
+        }
+
+        await PaymentModel.update(payment.id, { status: stripeStatus });
+        return stripeStatus;
+      });
 
       if (paymentStatus === PaymentStatus.SUCCEEDED) {
         return sendSuccess(res, {
@@ -111,8 +125,7 @@ export class PaymentController {
         return sendNotFound(res, 'Payment');
       }
 
-      // Check if user owns the payment or is admin
-      if (payment.userId !== req.user.userId && req.user.role !== 'admin') {
+      if (!can(req.user, Permission.PAYMENT_REFUND_OWN, payment.userId)) {
         return sendError(res, 403, 'Access denied');
       }
 
@@ -124,8 +137,18 @@ export class PaymentController {
       const refundSuccess = await stripeService.refundPayment(paymentIntentId, amount, reason);
 
       if (refundSuccess) {
-        // Update payment status
-        await PaymentModel.update(payment.id, { status: PaymentStatus.REFUNDED });
+        // The status change and its audit event are committed together
+        await withTransaction(async () => {
+          const refunded = await PaymentModel.update(payment.id, { status: PaymentStatus.REFUNDED });
+
+          await auditService.recordRequest(req, {
+            action: AuditAction.PAYMENT_REFUNDED,
+            targetType: 'payment',
+            targetId: payment.id,
+            changes: diffFields(payment, refunded, ['status']),
+            metadata: { paymentIntentId, ...(amount ? { amount } : {}), ...(reason ? { reason } : {}) },
+          });
+        });
 
         return sendSuccess(res, null, 'Refund processed successfully');
       } else {
@@ -183,8 +206,7 @@ export class PaymentController {
         return sendNotFound(res, 'Payment');
       }
 
-      // Check if user owns the payment or is admin
-      if (payment.userId !== req.user.userId && req.user.role !== 'admin') {
+      if (!can(req.user, Permission.PAYMENT_READ_OWN, payment.userId)) {
         return sendError(res, 403, 'Access denied');
       }
 
@@ -223,22 +245,29 @@ export class PaymentController {
 
       // Handle different event types
       switch (event.type) {
+        // Lookup and status change run as one unit so concurrent deliveries
+        // of the same event cannot interleave
         case 'payment_intent.succeeded':
           const paymentIntent = event.data.object;
-          const payment = await PaymentModel.findByStripeId(paymentIntent.id);
-          
-          if (payment) {
-            await PaymentModel.update(payment.id, { status: PaymentStatus.SUCCEEDED });
-          }
+          await withTransaction(async () => {
+            const payment = await PaymentModel.findByStripeId(paymentIntent.id);
+
+            // A late "succeeded" delivery must not undo a refund
+            if (payment && payment.status !== PaymentStatus.REFUNDED) {
+              await PaymentModel.update(payment.id, { status: PaymentStatus.SUCCEEDED });
+            }
+          });
           break;
 
         case 'payment_intent.payment_failed':
           const failedPaymentIntent = event.data.object;
-          const failedPayment = await PaymentModel.findByStripeId(failedPaymentIntent.id);
-          
-          if (failedPayment) {
-            await PaymentModel.update(failedPayment.id, { status: PaymentStatus.FAILED });
-          }
+          await withTransaction(async () => {
+            const failedPayment = await PaymentModel.findByStripeId(failedPaymentIntent.id);
+
+            if (failedPayment && failedPayment.status === PaymentStatus.PENDING) {
+              await PaymentModel.update(failedPayment.id, { status: PaymentStatus.FAILED });
+            }
+          });
           break;
 
         default:
@@ -258,12 +287,8 @@ export class PaymentController {
         return sendError(res, 401, 'Authentication required');
       }
 
-      // Only instructors and admins can view payment stats
-      if (req.user.role !== 'instructor' && req.user.role !== 'admin') {
-        return sendError(res, 403, 'Access denied');
-      }
-
-      const instructorId = req.user.role === 'admin' ? undefined : req.user.userId;
+      // Platform-wide stats for holders of the :any permission, otherwise the caller's own courses
+      const instructorId = can(req.user, Permission.PAYMENT_STATS_ANY) ? undefined : req.user.userId;
       const stats = await PaymentModel.getPaymentStats(instructorId);
 
       return sendSuccess(res, stats, 'Payment stats retrieved successfully');
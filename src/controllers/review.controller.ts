@@ -0,0 +1,336 @@
+import { Response } from 'express';
+import { CourseModel } from '../models/Course';
+import { UserModel } from '../models/User';
+import { reviewService } from '../services/review.service';
+import { auditService } from '../services/audit.service';
+import { sendSuccess, sendError, sendNotFound, sendForbidden, sendConflict, createPagination } from '../utils/response.utils';
+import { can } from '../utils/permission.utils';
+import { diffFields } from '../utils/audit.utils';
+import { Course } from '../types/course.types';
+import {
+  CreateReviewRequest,
+  ModerateReviewRequest,
+  Review,
+  ReviewQuery,
+  ReviewReplyRequest,
+  ReviewStatus,
+  UpdateReviewRequest,
+} from '../types/review.types';
+import { RequestWithUser } from '../types/api.types';
+import { AuditAction } from '../types/audit.types';
+import { Permission } from '../types/permission.types';
+
+type ReviewParams = { id: string; reviewId: string };
+
+// Loads the course and one of its reviews, or sends the error response and returns null
+const findReview = async (req: RequestWithUser<ReviewParams>, res: Response): Promise<{ course: Course; review: Review } | null> => {
+  const course = await CourseModel.findById(req.params.id);
+  if (!course) {
+    sendNotFound(res, 'Course');
+    return null;
+  }
+
+  const review = await reviewService.findForCourse(course.id, req.params.reviewId);
+  // Hidden reviews only exist for their author and moderators
+  if (
+    !review ||
+    (review.status === ReviewStatus.HIDDEN && review.userId !== req.user?.userId && !can(req.user, Permission.REVIEW_MODERATE))
+  ) {
+    sendNotFound(res, 'Review');
+    return null;
+  }
+
+  return { course, review };
+};
+
+export class ReviewController {
+  static async getReviews(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await CourseModel.findById(req.params.id);
+      if (!course) {
+        return sendNotFound(res, 'Course');
+      }
+
+      const { page = 1, limit = 10, rating, sort, status }: ReviewQuery = req.query;
+
+      // Only moderators can list hidden reviews
+      const reviews = await reviewService.list(course.id, {
+        ...(rating ? { rating } : {}),
+        ...(sort ? { sort } : {}),
+        ...(status && can(req.user, Permission.REVIEW_MODERATE) ? { status } : {}),
+      });
+
+      // Apply pagination
+      const startIndex = (page - 1) * limit;
+      const endIndex = startIndex + limit;
+      const paginatedReviews = reviews.slice(startIndex, endIndex);
+
+      const pagination = createPagination(page, limit, reviews.length);
+
+      return sendSuccess(res, paginatedReviews, 'Reviews retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get reviews error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getRatingSummary(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const course = await CourseModel.findById(req.params.id);
+      if (!course) {
+        return sendNotFound(res, 'Course');
+      }
+
+      return sendSuccess(res, reviewService.getSummary(course), 'Rating summary retrieved successfully');
+    } catch (error) {
+      console.error('Get rating summary error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getMyReview(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const review = await reviewService.findMine(req.params.id, req.user.userId);
+      if (!review) {
+        return sendNotFound(res, 'Review');
+      }
+
+      return sendSuccess(res, review, 'Review retrieved successfully');
+    } catch (error) {
+      console.error('Get my review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async createReview(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const course = await CourseModel.findById(req.params.id);
+      if (!course) {
+        return sendNotFound(res, 'Course');
+      }
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      const reviewData: CreateReviewRequest = req.body;
+
+      const result = await reviewService.create(course, user, reviewData);
+      if ('error' in result) {
+        switch (result.error) {
+          case 'own_course':
+            return sendForbidden(res, 'You cannot review your own course');
+          case 'not_enrolled':
+            return sendForbidden(res, 'Only enrolled students can review this course');
+          case 'already_reviewed':
+            return sendConflict(res, 'You have already reviewed this course');
+          default:
+            return sendError(res, 500, 'Failed to create review');
+        }
+      }
+
+      return sendSuccess(res, result, 'Review created successfully');
+    } catch (error) {
+      console.error('Create review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async updateReview(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      if (found.review.userId !== req.user?.userId) {
+        return sendForbidden(res, 'You can only edit your own review');
+      }
+
+      const updates: UpdateReviewRequest = req.body;
+
+      const review = await reviewService.update(found.review, updates);
+      if ('error' in review) {
+        return sendNotFound(res, 'Review');
+      }
+
+      return sendSuccess(res, review, 'Review updated successfully');
+    } catch (error) {
+      console.error('Update review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Authors can delete their own review, admins any review
+  static async deleteReview(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      const { review } = found;
+      const isAuthor = review.userId === req.user?.userId;
+      if (!can(req.user, Permission.REVIEW_DELETE_OWN, review.userId)) {
+        return sendForbidden(res, 'You can only delete your own review');
+      }
+
+      await reviewService.delete(review);
+
+      if (!isAuthor) {
+        await auditService.recordRequest(req, {
+          action: AuditAction.REVIEW_DELETED,
+          targetType: 'review',
+          targetId: review.id,
+          metadata: { courseId: review.courseId, userId: review.userId, rating: review.rating },
+        });
+      }
+
+      return sendSuccess(res, null, 'Review deleted successfully');
+    } catch (error) {
+      console.error('Delete review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // The course's instructor answers publicly; replying again replaces the answer
+  static async replyToReview(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      if (!can(req.user, Permission.COURSE_UPDATE_OWN, found.course.instructorId)) {
+        return sendForbidden(res, 'Only the course instructor can reply to reviews');
+      }
+
+      const { body }: ReviewReplyRequest = req.body;
+
+      const review = await reviewService.reply(found.review, req.user.userId, body);
+      if ('error' in review) {
+        return sendNotFound(res, 'Review');
+      }
+
+      return sendSuccess(res, review, 'Reply saved successfully');
+    } catch (error) {
+      console.error('Reply to review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async deleteReply(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      if (!can(req.user, Permission.COURSE_UPDATE_OWN, found.course.instructorId)) {
+        return sendForbidden(res, 'Only the course instructor can reply to reviews');
+      }
+
+      if (!found.review.reply) {
+        return sendNotFound(res, 'Reply');
+      }
+
+      const review = await reviewService.removeReply(found.review);
+      if ('error' in review) {
+        return sendNotFound(res, 'Review');
+      }
+
+      return sendSuccess(res, review, 'Reply deleted successfully');
+    } catch (error) {
+      console.error('Delete review reply error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async markHelpful(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      const result = await reviewService.vote(found.review.id, req.user.userId);
+      if ('error' in result) {
+        switch (result.error) {
+          case 'own_review':
+            return sendForbidden(res, 'You cannot vote on your own review');
+          case 'already_voted':
+            return sendConflict(res, 'You have already marked this review as helpful');
+          default:
+            return sendNotFound(res, 'Review');
+        }
+      }
+
+      return sendSuccess(res, result, 'Review marked as helpful');
+    } catch (error) {
+      console.error('Mark review helpful error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async unmarkHelpful(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      const result = await reviewService.unvote(found.review.id, req.user.userId);
+      if ('error' in result) {
+        return result.error === 'not_voted'
+          ? sendNotFound(res, 'Vote')
+          : sendNotFound(res, 'Review');
+      }
+
+      return sendSuccess(res, result, 'Helpful vote removed');
+    } catch (error) {
+      console.error('Unmark review helpful error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Hides a review from students and the course rating, or brings it back
+  static async moderateReview(req: RequestWithUser<ReviewParams>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const found = await findReview(req, res);
+      if (!found) return;
+
+      const { status, reason }: ModerateReviewRequest = req.body;
+
+      const review = await reviewService.moderate(found.review, req.user.userId, status, reason);
+      if ('error' in review) {
+        return sendNotFound(res, 'Review');
+      }
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.REVIEW_MODERATED,
+        targetType: 'review',
+        targetId: review.id,
+        changes: diffFields(found.review, review, ['status']),
+        metadata: { courseId: review.courseId, ...(reason ? { reason } : {}) },
+      });
+
+      return sendSuccess(res, review, status === ReviewStatus.HIDDEN ? 'Review hidden' : 'Review published');
+    } catch (error) {
+      console.error('Moderate review error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
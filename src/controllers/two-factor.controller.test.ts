@@ -0,0 +1,50 @@
+import { startTestApp, TestApp, STUDENT_EMAIL } from '../test/app';
+import { config } from '../config/env';
+import { UserModel } from '../models/User';
+
+describe('POST /api/auth/login/2fa', () => {
+  let app: TestApp;
+  const email = 'two-factor-lockout@example.com';
+  const { backoffAfter } = config.loginProtection.account;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+
+    const { id, createdAt, updatedAt, ...student } = (await UserModel.findByEmail(STUDENT_EMAIL))!;
+    await UserModel.create({
+      ...student,
+      email,
+      progress: [],
+      twoFactor: { enabled: true, secret: 'JBSWY3DPEHPK3PXP', recoveryCodes: [] },
+    });
+
+    // No waits between attempts: the test is about the lock, not the backoff
+    config.loginProtection.account.backoffAfter = config.loginProtection.account.lockAfter;
+  });
+
+  afterAll(async () => {
+    config.loginProtection.account.backoffAfter = backoffAfter;
+    await app.close();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  const login = () => app.request('POST', '/api/auth/login', { body: { email, password: 'password' } });
+
+  it('locks the account after wrong codes even when the password is re-entered between them', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    for (let attempt = 1; attempt <= config.loginProtection.account.lockAfter; attempt++) {
+      const challenge = await login();
+      expect(challenge.status).toBe(200);
+      expect(challenge.body.data.requiresTwoFactor).toBe(true);
+
+      const response = await app.request('POST', '/api/auth/login/2fa', {
+        body: { challengeToken: challenge.body.data.challengeToken, code: '000000' },
+      });
+      expect(response.status).toBe(401);
+    }
+
+    expect((await login()).status).toBe(423);
+  });
+});
\ No newline at end of file
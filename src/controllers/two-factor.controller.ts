@@ -0,0 +1,205 @@
+import { Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { UserModel } from '../models/User';
+import { twoFactorService } from '../services/two-factor.service';
+import { loginProtectionService } from '../services/login-protection.service';
+import { completeLogin, rejectThrottledLogin } from './auth.controller';
+import { verifyChallengeToken } from '../utils/jwt.utils';
+import { getClientInfo } from '../utils/request.utils';
+import { sendSuccess, sendError, sendUnauthorized, sendBadRequest, sendForbidden } from '../utils/response.utils';
+import { ChallengePurpose, TwoFactorLoginRequest } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { RequestWithUser } from '../types/api.types';
+
+// Resolves the user behind a login challenge, or null if the token is invalid or for another step
+const resolveChallenge = async (challengeToken: string, purpose: ChallengePurpose): Promise<User | null> => {
+  let payload;
+  try {
+    payload = verifyChallengeToken(challengeToken);
+  } catch {
+    return null;
+  }
+
+  if (payload.purpose !== purpose) {
+    return null;
+  }
+
+  return UserModel.findById(payload.userId);
+};
+
+export class TwoFactorController {
+  static async verifyLogin(req: Request, res: Response) {
+    try {
+      const { challengeToken, code, recoveryCode }: TwoFactorLoginRequest = req.body;
+
+      const user = await resolveChallenge(challengeToken, ChallengePurpose.VERIFY);
+      if (!user) {
+        return sendUnauthorized(res, 'Invalid or expired challenge token');
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const { ipAddress } = getClientInfo(req);
+      const throttle = await loginProtectionService.check(user.email, ipAddress);
+      if (!throttle.allowed) {
+        return rejectThrottledLogin(res, throttle);
+      }
+
+      const factor = code ? { code } : recoveryCode ? { recoveryCode } : {};
+      const isValid = await twoFactorService.verify(user.id, factor);
+      if (!isValid) {
+        await loginProtectionService.recordFailure(user.email, ipAddress);
+        return sendUnauthorized(res, 'Invalid verification code');
+      }
+
+      return completeLogin(req, res, user, 'Login successful');
+    } catch (error) {
+      console.error('Two-factor login error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Enrollment for users whose role requires 2FA before they can get a session
+  static async setupWithChallenge(req: Request, res: Response) {
+    try {
+      const user = await resolveChallenge(req.body.challengeToken, ChallengePurpose.SETUP);
+      // Once enrolled, a leftover setup challenge must not be able to replace the secret
+      if (!user || user.twoFactor?.enabled) {
+        return sendUnauthorized(res, 'Invalid or expired challenge token');
+      }
+
+      const setup = await twoFactorService.beginSetup(user);
+
+      return sendSuccess(res, setup, 'Scan the QR code with your authenticator app, then confirm with a code');
+    } catch (error) {
+      console.error('Two-factor challenge setup error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async enableWithChallenge(req: Request, res: Response) {
+    try {
+      const { challengeToken, code } = req.body;
+
+      const user = await resolveChallenge(challengeToken, ChallengePurpose.SETUP);
+      if (!user || user.twoFactor?.enabled) {
+        return sendUnauthorized(res, 'Invalid or expired challenge token');
+      }
+
+      const recoveryCodes = await twoFactorService.enable(user.id, code);
+      if (!recoveryCodes) {
+        return sendBadRequest(res, 'Invalid verification code');
+      }
+
+      // Recovery codes are only ever shown here, so the login response carries them
+      return completeLogin(req, res, user, 'Two-factor authentication enabled', { recoveryCodes });
+    } catch (error) {
+      console.error('Two-factor challenge enable error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async setup(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendError(res, 404, 'User not found');
+      }
+
+      if (user.twoFactor?.enabled) {
+        return sendBadRequest(res, 'Two-factor authentication is already enabled');
+      }
+
+      const setup = await twoFactorService.beginSetup(user);
+
+      return sendSuccess(res, setup, 'Scan the QR code with your authenticator app, then confirm with a code');
+    } catch (error) {
+      console.error('Two-factor setup error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async enable(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const recoveryCodes = await twoFactorService.enable(req.user.userId, req.body.code);
+      if (!recoveryCodes) {
+        return sendBadRequest(res, 'Invalid verification code');
+      }
+
+      return sendSuccess(res, { recoveryCodes }, 'Two-factor authentication enabled');
+    } catch (error) {
+      console.error('Two-factor enable error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async disable(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const { password, code } = req.body;
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendError(res, 404, 'User not found');
+      }
+
+      if (!user.twoFactor?.enabled) {
+        return sendBadRequest(res, 'Two-factor authentication is not enabled');
+      }
+
+      if (twoFactorService.isRequiredFor(user.role)) {
+        return sendForbidden(res, 'Two-factor authentication is required for your role');
+      }
+
+      const isPasswordValid = await bcrypt.compare(password, user.password);
+      if (!isPasswordValid) {
+        return sendUnauthorized(res, 'Password is incorrect');
+      }
+
+      const isCodeValid = await twoFactorService.verify(user.id, { code });
+      if (!isCodeValid) {
+        return sendUnauthorized(res, 'Invalid verification code');
+      }
+
+      await twoFactorService.disable(user.id);
+
+      return sendSuccess(res, null, 'Two-factor authentication disabled');
+    } catch (error) {
+      console.error('Two-factor disable error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async regenerateRecoveryCodes(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendUnauthorized(res, 'Authentication required');
+      }
+
+      const isCodeValid = await twoFactorService.verify(req.user.userId, { code: req.body.code });
+      if (!isCodeValid) {
+        return sendUnauthorized(res, 'Invalid verification code');
+      }
+
+      const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.userId);
+      if (!recoveryCodes) {
+        return sendBadRequest(res, 'Two-factor authentication is not enabled');
+      }
+
+      return sendSuccess(res, { recoveryCodes }, 'Recovery codes regenerated');
+    } catch (error) {
+      console.error('Regenerate recovery codes error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+}
\ No newline at end of file
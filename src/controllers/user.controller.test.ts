@@ -0,0 +1,94 @@
+import { startTestApp, TestApp, STUDENT_EMAIL } from '../test/app';
+import { UserModel } from '../models/User';
+import { SessionModel } from '../models/Session';
+import { ApiKeyModel } from '../models/ApiKey';
+import { Permission } from '../types/permission.types';
+
+describe('account deletion', () => {
+  let app: TestApp;
+  let accounts = 0;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+  });
+
+  afterAll(() => app.close());
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // A throwaway copy of the seeded student, signed in
+  const newAccount = async () => {
+    const { id, createdAt, updatedAt, ...student } = (await UserModel.findByEmail(STUDENT_EMAIL))!;
+    const email = `leaving-${++accounts}@skillforge.com`;
+    const user = await UserModel.create({ ...student, email, progress: [] });
+    return { user, email, token: await app.login(email) };
+  };
+
+  describe('DELETE /api/users/account', () => {
+    it('signs the user out everywhere and revokes their API keys', async () => {
+      const { user, token } = await newAccount();
+      await app.request('POST', '/api/auth/api-keys', { token, body: { name: 'Key', scopes: [Permission.PROFILE_READ] } });
+
+      expect((await app.request('DELETE', '/api/users/account', { token })).status).toBe(200);
+
+      expect((await UserModel.findById(user.id))!.deletion).toBeDefined();
+      expect(await SessionModel.findActiveByUser(user.id)).toEqual([]);
+      expect(await ApiKeyModel.findActiveByUser(user.id)).toEqual([]);
+    });
+
+    it('changes nothing when revoking the API keys fails', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      const { user, token } = await newAccount();
+      await app.request('POST', '/api/auth/api-keys', { token, body: { name: 'Key', scopes: [Permission.PROFILE_READ] } });
+      jest.spyOn(ApiKeyModel, 'update').mockRejectedValue(new Error('injected failure'));
+
+      expect((await app.request('DELETE', '/api/users/account', { token })).status).toBe(500);
+
+      expect((await UserModel.findById(user.id))!.deletion).toBeUndefined();
+      expect(await SessionModel.findActiveByUser(user.id)).toHaveLength(1);
+      expect(await ApiKeyModel.findActiveByUser(user.id)).toHaveLength(1);
+    });
+  });
+
+  describe('while deletion is pending', () => {
+    let token: string;
+
+    beforeEach(async () => {
+      const account = await newAccount();
+      await app.request('DELETE', '/api/users/account', { token: account.token });
+      token = await app.login(account.email);
+    });
+
+    it('still lets the user sign in', async () => {
+      expect(token).toEqual(expect.any(String));
+    });
+
+    it.each([
+      ['GET', '/api/users/profile'],
+      ['GET', '/api/users/courses'],
+      ['GET', '/api/payments/history'],
+      ['POST', '/api/courses/missing/enroll'],
+      ['GET', '/api/auth/sessions'],
+    ])('refuses %s %s', async (method, path) => {
+      const response = await app.request(method, path, { token });
+
+      expect(response.status).toBe(403);
+      expect(response.body.error).toBe('This account is scheduled for deletion. Restore it to continue');
+    });
+
+    it('allows exporting the account data', async () => {
+      expect((await app.request('POST', '/api/users/export', { token })).status).toBe(200);
+      expect((await app.request('GET', '/api/users/export', { token })).status).toBe(200);
+    });
+
+    it('allows signing out', async () => {
+      expect((await app.request('POST', '/api/auth/logout', { token })).status).toBe(200);
+    });
+
+    it('gives the whole API back once restored', async () => {
+      expect((await app.request('POST', '/api/users/account/restore', { token })).status).toBe(200);
+
+      expect((await app.request('GET', '/api/users/profile', { token })).status).toBe(200);
+    });
+  });
+});
\ No newline at end of file
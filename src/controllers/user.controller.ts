@@ -2,10 +2,103 @@ import { Response } from 'express';
 import { UserModel } from '../models/User';
 import { CourseModel } from '../models/Course';
 import { PaymentModel } from '../models/Payment';
-import { sendSuccess, sendError, sendNotFound, createPagination } from '../utils/response.utils';
-import { UpdateUserRequest, UserStats } from '../types/user.types';
+import {
+  sendSuccess,
+  sendError,
+  sendNotFound,
+  sendBadRequest,
+  sendConflict,
+  sendForbidden,
+  createPagination,
+} from '../utils/response.utils';
+import { getClientInfo } from '../utils/request.utils';
+import { diffFields } from '../utils/audit.utils';
+import {
+  ChangeUserRoleRequest,
+  SuspendUserRequest,
+  UpdateUserRequest,
+  User,
+  UserListQuery,
+  UserStats,
+} from '../types/user.types';
 import { RequestWithUser, PaginationQuery } from '../types/api.types';
+import { SessionRevokedReason } from '../types/session.types';
+import { AuditAction } from '../types/audit.types';
 import { awsService } from '../services/aws.service';
+import { auditService } from '../services/audit.service';
+import { sessionService } from '../services/session.service';
+import { accountDeletionService } from '../services/account-deletion.service';
+import { loginProtectionService } from '../services/login-protection.service';
+import { hasPermission } from '../utils/permission.utils';
+import { Permission } from '../types/permission.types';
+import { sendPasswordResetEmail } from './auth.controller';
+
+// What admins see of an account; never includes credentials or 2FA secrets
+const toAdminView = (user: User) => ({
+  id: user.id,
+  email: user.email,
+  firstName: user.firstName,
+  lastName: user.lastName,
+  role: user.role,
+  emailVerified: user.emailVerified,
+  avatar: user.avatar,
+  twoFactorEnabled: !!user.twoFactor?.enabled,
+  status: user.deletion ? 'pending_deletion' : user.suspension ? 'suspended' : 'active',
+  suspension: user.suspension,
+  deletion: user.deletion,
+  passwordResetRequired: !!user.passwordResetRequired,
+  enrolledCourses: user.progress.length,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+const getEnrollments = async (user: User) => {
+  const enrolledCourses = await Promise.all(
+    user.progress.map(async (progress) => {
+      const course = await CourseModel.findById(progress.courseId);
+
+      return {
+        ...course,
+        progress: progress.progressPercentage || 0,
+        lastAccessedAt: progress.lastAccessedAt,
+        enrolledAt: progress.enrolledAt,
+      };
+    })
+  );
+
+  // Drop enrollments whose course no longer exists
+  return enrolledCourses.filter(course => course.id);
+};
+
+const getPayments = async (userId: string) => {
+  const payments = await PaymentModel.findByUser(userId);
+
+  // Enrich payment data with course information
+  return Promise.all(
+    payments.map(async (payment) => {
+      const course = await CourseModel.findById(payment.courseId);
+      return {
+        id: payment.id,
+        courseId: payment.courseId,
+        courseTitle: course?.title || 'Unknown Course',
+        amount: payment.amount / 100, // Convert from cents
+        currency: payment.currency,
+        status: payment.status,
+        paymentMethod: 'Card', // Mock data
+        transactionId: payment.stripePaymentIntentId,
+        createdAt: payment.createdAt,
+      };
+    })
+  );
+};
+
+const paginate = <T>(items: T[], page: number, limit: number) => {
+  const startIndex = (page - 1) * limit;
+  return {
+    items: items.slice(startIndex, startIndex + limit),
+    pagination: createPagination(page, limit, items.length),
+  };
+};
 
 export class UserController {
   static async getProfile(req: RequestWithUser, res: Response) {
@@ -25,10 +118,12 @@ export class UserController {
         firstName: user.firstName,
         lastName: user.lastName,
         role: user.role,
+        emailVerified: user.emailVerified,
         avatar: user.avatar,
         bio: user.bio,
         skills: user.skills,
         preferences: user.preferences,
+        ...(user.deletion ? { deletionScheduledFor: user.deletion.purgeAfter } : {}),
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       };
@@ -59,6 +154,7 @@ export class UserController {
         firstName: updatedUser.firstName,
         lastName: updatedUser.lastName,
         role: updatedUser.role,
+        emailVerified: updatedUser.emailVerified,
         avatar: updatedUser.avatar,
         bio: updatedUser.bio,
         skills: updatedUser.skills,
@@ -222,95 +318,382 @@ export class UserController {
         return sendNotFound(res, 'User');
       }
 
-      // Get enrolled course IDs
-      const enrolledCourseIds = user.progress.map(p => p.courseId);
+      const { items, pagination } = paginate(await getEnrollments(user), page, limit);
 
-      // Fetch course details
-      const enrolledCourses = await Promise.all(
-        enrolledCourseIds.map(async (courseId) => {
-          const course = await CourseModel.findById(courseId);
-          const progress = user.progress.find(p => p.courseId === courseId);
-          
-          return {
-            ...course,
-            progress: progress?.progressPercentage || 0,
-            lastAccessedAt: progress?.lastAccessedAt,
-            enrolledAt: progress?.enrolledAt,
-          };
-        })
+      return sendSuccess(res, items, 'Enrolled courses retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get enrolled courses error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getPaymentHistory(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { page = 1, limit = 10 }: PaginationQuery = req.query;
+
+      const { items, pagination } = paginate(await getPayments(req.user.userId), page, limit);
+
+      return sendSuccess(res, items, 'Payment history retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get payment history error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async deleteAccount(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const user = await UserModel.findById(req.user.userId);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      if (user.deletion) {
+        return sendConflict(res, 'Account deletion has already been requested');
+      }
+
+      const deletion = await accountDeletionService.schedule(user);
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.USER_DELETION_SCHEDULED,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { purgeAfter: deletion.purgeAfter },
+      });
+
+      return sendSuccess(
+        res,
+        { deletionScheduledFor: deletion.purgeAfter },
+        'Account scheduled for deletion. Sign in and restore it before then to keep it'
       );
+    } catch (error) {
+      console.error('Delete account error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async restoreAccount(req: RequestWithUser, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
 
-      // Filter out null courses and apply pagination
-      const validCourses = enrolledCourses.filter(course => course.id);
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const paginatedCourses = validCourses.slice(startIndex, endIndex);
+      const restored = await accountDeletionService.restore(req.user.userId);
+      if (!restored) {
+        return sendBadRequest(res, 'Account is not scheduled for deletion');
+      }
 
-      const pagination = createPagination(page, limit, validCourses.length);
+      await auditService.recordRequest(req, {
+        action: AuditAction.USER_DELETION_CANCELLED,
+        targetType: 'user',
+        targetId: restored.id,
+      });
 
-      return sendSuccess(res, paginatedCourses, 'Enrolled courses retrieved successfully', pagination);
+      return sendSuccess(res, null, 'Account restored successfully');
     } catch (error) {
-      console.error('Get enrolled courses error:', error);
+      console.error('Restore account error:', error);
       return sendError(res, 500, 'Internal server error');
     }
   }
 
-  static async getPaymentHistory(req: RequestWithUser, res: Response) {
+  static async unlockUser(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
       }
 
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      const wasLocked = await loginProtectionService.unlock(user.id, { actorId: req.user.userId, method: 'admin' });
+
+      return sendSuccess(res, { wasLocked }, wasLocked ? 'Account unlocked successfully' : 'Account was not locked');
+    } catch (error) {
+      console.error('Unlock user error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  // Admin user management
+
+  static async listUsers(req: RequestWithUser, res: Response) {
+    try {
+      const { page = 1, limit = 10, role, search, status }: UserListQuery = req.query;
+
+      const users = await UserModel.findAll({ role, search, status });
+      users.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+      const { items, pagination } = paginate(users, page, limit);
+
+      return sendSuccess(res, items.map(toAdminView), 'Users retrieved successfully', pagination);
+    } catch (error) {
+      console.error('List users error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getUserById(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      return sendSuccess(res, toAdminView(user), 'User retrieved successfully');
+    } catch (error) {
+      console.error('Get user error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async getUserEnrollments(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const { id } = req.params;
       const { page = 1, limit = 10 }: PaginationQuery = req.query;
 
-      const payments = await PaymentModel.findByUser(req.user.userId);
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
 
-      // Enrich payment data with course information
-      const enrichedPayments = await Promise.all(
-        payments.map(async (payment) => {
-          const course = await CourseModel.findById(payment.courseId);
-          return {
-            id: payment.id,
-            courseId: payment.courseId,
-            courseTitle: course?.title || 'Unknown Course',
-            amount: payment.amount / 100, // Convert from cents
-            currency: payment.currency,
-            status: payment.status,
-            paymentMethod: 'Card', // Mock data
-            transactionId: payment.stripePaymentIntentId,
-            createdAt: payment.createdAt,
-          };
-        })
-      );
+      const { items, pagination } = paginate(await getEnrollments(user), page, limit);
 
-      // Apply pagination
-      const startIndex = (page - 1) * limit;
-      const endIndex = startIndex + limit;
-      const paginatedPayments = enrichedPayments.slice(startIndex, endIndex);
+      return sendSuccess(res, items, 'Enrolled courses retrieved successfully', pagination);
+    } catch (error) {
+      console.error('Get user enrollments error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
 
-      const pagination = createPagination(page, limit, enrichedPayments.length);
+  static async getUserPayments(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      const { id } = req.params;
+      const { page = 1, limit = 10 }: PaginationQuery = req.query;
 
-      return sendSuccess(res, paginatedPayments, 'Payment history retrieved successfully', pagination);
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      const { items, pagination } = paginate(await getPayments(user.id), page, limit);
+
+      return sendSuccess(res, items, 'Payment history retrieved successfully', pagination);
     } catch (error) {
-      console.error('Get payment history error:', error);
+      console.error('Get user payments error:', error);
       return sendError(res, 500, 'Internal server error');
     }
   }
 
-  static async deleteAccount(req: RequestWithUser, res: Response) {
+  static async changeRole(req: RequestWithUser<{ id: string }>, res: Response) {
     try {
       if (!req.user) {
         return sendError(res, 401, 'Authentication required');
       }
 
-      const success = await UserModel.delete(req.user.userId);
-      if (!success) {
+      const { id } = req.params;
+      const { role }: ChangeUserRoleRequest = req.body;
+
+      // Admins cannot demote themselves and lock everyone out of administration
+      if (id === req.user.userId) {
+        return sendBadRequest(res, 'You cannot change your own role');
+      }
+
+      const user = await UserModel.findById(id);
+      if (!user) {
         return sendNotFound(res, 'User');
       }
 
-      return sendSuccess(res, null, 'Account deleted successfully');
+      if (user.role === role) {
+        return sendConflict(res, `User already has the ${role} role`);
+      }
+
+      const updated = await UserModel.update(user.id, { role });
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.USER_ROLE_CHANGED,
+        targetType: 'user',
+        targetId: user.id,
+        changes: diffFields(user, updated, ['role']),
+      });
+
+      return sendSuccess(res, toAdminView(updated!), 'Role updated successfully');
     } catch (error) {
-      console.error('Delete account error:', error);
+      console.error('Change role error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async suspendUser(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+      const { reason }: SuspendUserRequest = req.body;
+
+      if (id === req.user.userId) {
+        return sendBadRequest(res, 'You cannot suspend your own account');
+      }
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      if (user.suspension) {
+        return sendConflict(res, 'Account is already suspended');
+      }
+
+      const updated = await UserModel.update(user.id, {
+        suspension: {
+          suspendedAt: new Date(),
+          suspendedBy: req.user.userId,
+          ...(reason ? { reason } : {}),
+        },
+      });
+
+      // authenticate refuses suspended users anyway; revoking also stops refresh tokens
+      const revokedSessions = await sessionService.revokeAllForUser(user.id, SessionRevokedReason.ACCOUNT_SUSPENDED);
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.USER_SUSPENDED,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { ...(reason ? { reason } : {}), revokedSessions },
+      });
+
+      return sendSuccess(res, toAdminView(updated!), 'Account suspended');
+    } catch (error) {
+      console.error('Suspend user error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async reactivateUser(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      if (!user.suspension) {
+        return sendConflict(res, 'Account is not suspended');
+      }
+
+      const updated = await UserModel.reactivate(user.id);
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.USER_REACTIVATED,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { suspendedAt: user.suspension.suspendedAt },
+      });
+
+      return sendSuccess(res, toAdminView(updated!), 'Account reactivated');
+    } catch (error) {
+      console.error('Reactivate user error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async forcePasswordReset(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+
+      const user = await UserModel.findById(id);
+      if (!user) {
+        return sendNotFound(res, 'User');
+      }
+
+      // The current password stops working for sign-in until the user picks a new one
+      const updated = await UserModel.update(user.id, { passwordResetRequired: true });
+      const revokedSessions = await sessionService.revokeAllForUser(user.id, SessionRevokedReason.ADMIN_PASSWORD_RESET);
+      await sendPasswordResetEmail(user);
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.PASSWORD_RESET_FORCED,
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { revokedSessions },
+      });
+
+      return sendSuccess(res, toAdminView(updated!), 'Password reset required; a reset link has been sent to the user');
+    } catch (error) {
+      console.error('Force password reset error:', error);
+      return sendError(res, 500, 'Internal server error');
+    }
+  }
+
+  static async impersonateUser(req: RequestWithUser<{ id: string }>, res: Response) {
+    try {
+      if (!req.user) {
+        return sendError(res, 401, 'Authentication required');
+      }
+
+      const { id } = req.params;
+
+      if (id === req.user.userId) {
+        return sendBadRequest(res, 'You cannot impersonate yourself');
+      }
+
+      const [impersonator, target] = await Promise.all([
+        UserModel.findById(req.user.userId),
+        UserModel.findById(id),
+      ]);
+      if (!impersonator || !target) {
+        return sendNotFound(res, 'User');
+      }
+
+      // Acting as another admin would be a way around their permissions and audit trail
+      if (hasPermission({ userId: target.id, role: target.role }, Permission.USER_IMPERSONATE_ANY)) {
+        return sendForbidden(res, 'Administrators cannot be impersonated');
+      }
+
+      if (target.suspension) {
+        return sendBadRequest(res, 'Suspended accounts cannot be impersonated');
+      }
+
+      const clientInfo = getClientInfo(req);
+      const impersonation = await sessionService.startImpersonation(impersonator, target, clientInfo);
+
+      await auditService.recordRequest(req, {
+        action: AuditAction.IMPERSONATION_STARTED,
+        targetType: 'user',
+        targetId: target.id,
+        metadata: { sessionId: impersonation.sessionId, expiresAt: impersonation.expiresAt },
+      });
+
+      return sendSuccess(res, {
+        user: toAdminView(target),
+        accessToken: impersonation.accessToken,
+        expiresAt: impersonation.expiresAt,
+      }, `Now acting as ${target.email}`);
+    } catch (error) {
+      console.error('Impersonate user error:', error);
       return sendError(res, 500, 'Internal server error');
     }
   }
@@ -0,0 +1,65 @@
+import { config } from '../config/env';
+import { db } from './index';
+import { migrateUp, migrateDown, getMigrationStatus } from './migrator';
+import { seedDemoData } from './seeds/demo.seed';
+
+const usage = `Usage: npm run db:<command>
+
+Commands:
+  migrate            Apply all pending migrations
+  rollback [steps]   Revert the last <steps> migrations (default 1)
+  status             List migrations and when they were applied
+  seed               Load the demo accounts and courses (development only)`;
+
+const run = async (command: string | undefined, args: string[]): Promise<void> => {
+  switch (command) {
+    case 'migrate': {
+      const applied = await migrateUp(db);
+      if (applied.length === 0) {
+        console.log('Database is up to date');
+      }
+      applied.forEach(m => console.log(`Applied ${m.version} ${m.name}`));
+      break;
+    }
+
+    case 'rollback': {
+      const steps = parseInt(args[0] || '1', 10);
+      const reverted = await migrateDown(db, steps);
+      if (reverted.length === 0) {
+        console.log('Nothing to roll back');
+      }
+      reverted.forEach(m => console.log(`Reverted ${m.version} ${m.name}`));
+      break;
+    }
+
+    case 'status': {
+      const status = await getMigrationStatus(db);
+      status.forEach(m => {
+        const state = m.appliedAt ? `applied ${m.appliedAt.toISOString()}` : 'pending';
+        console.log(`${String(m.version).padStart(3, '0')} ${m.name.padEnd(40)} ${state}`);
+      });
+      break;
+    }
+
+    case 'seed': {
+      if (config.server.nodeEnv === 'production') {
+        throw new Error('Refusing to load demo accounts into a production database');
+      }
+      await migrateUp(db);
+      await seedDemoData();
+      console.log('Demo data loaded');
+      break;
+    }
+
+    default:
+      console.log(usage);
+      process.exitCode = 1;
+  }
+};
+
+run(process.argv[2], process.argv.slice(3))
+  .then(() => db.close())
+  .catch((error) => {
+    console.error('Database command failed:', error);
+    process.exit(1);
+  });
\ No newline at end of file
@@ -0,0 +1,138 @@
+import fs from 'fs';
+import path from 'path';
+import { DatabaseDriver, Entity } from '../types/database.types';
+import { Change, MemoryStore } from './memory.store';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// JSON has no date type, so these fields are turned back into Date objects on load,
+// wherever they sit in a collection's records (progress entries, lesson files, replies).
+// Every other string is left alone, however much it looks like a timestamp
+const DATE_FIELDS: Record<string, string[]> = {
+  schema_migrations: ['appliedAt'],
+  users: ['createdAt', 'updatedAt', 'emailVerifiedAt', 'enrolledAt', 'lastAccessedAt', 'enabledAt', 'linkedAt', 'suspendedAt', 'requestedAt', 'purgeAfter'],
+  courses: ['createdAt', 'updatedAt', 'uploadedAt'],
+  course_drafts: ['updatedAt', 'uploadedAt'],
+  course_revisions: ['publishedAt', 'uploadedAt'],
+  course_submissions: ['createdAt', 'updatedAt', 'reviewedAt', 'uploadedAt'],
+  payments: ['createdAt', 'updatedAt', 'anonymizedAt'],
+  sessions: ['createdAt', 'updatedAt', 'lastUsedAt', 'expiresAt', 'revokedAt'],
+  user_tokens: ['createdAt', 'expiresAt', 'usedAt'],
+  login_throttles: ['firstFailureAt', 'lastFailureAt', 'lockedUntil'],
+  api_keys: ['createdAt', 'updatedAt', 'expiresAt', 'lastUsedAt', 'revokedAt'],
+  oidc_login_states: ['createdAt', 'expiresAt'],
+  instructor_applications: ['createdAt', 'updatedAt', 'reviewedAt'],
+  audit_events: ['createdAt'],
+  data_exports: ['createdAt', 'updatedAt', 'expiresAt', 'completedAt'],
+  ai_chat_messages: ['createdAt'],
+  reviews: ['createdAt', 'updatedAt', 'editedAt', 'moderatedAt'],
+  review_votes: ['createdAt'],
+};
+
+const reviveDates = (value: unknown, fields: string[]): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(item => reviveDates(item, fields));
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const [key, field] of Object.entries(record)) {
+      record[key] = typeof field === 'string' && fields.includes(key) && ISO_DATE.test(field)
+        ? new Date(field)
+        : reviveDates(field, fields);
+    }
+  }
+  return value;
+};
+
+const reviveEntity = (collection: string, entity: Entity): Entity =>
+  reviveDates(entity, DATE_FIELDS[collection] || []) as Entity;
+
+// The journal is folded into the snapshot once it holds this many changes
+const COMPACT_AFTER = 1000;
+
+/**
+ * Embedded single-file store. The whole dataset is kept in memory. Each
+ * committed batch of changes is appended to a journal as one line, so a
+ * write costs as much as the change rather than the whole dataset; the
+ * journal is folded into the snapshot file (temp file + rename, so a crash
+ * never leaves a truncated database behind) once it grows, and on close.
+ */
+export class FileStore extends MemoryStore {
+  override readonly driver: DatabaseDriver = 'file';
+
+  private journalPath: string;
+  private journalLength = 0;
+
+  constructor(private filePath: string) {
+    super();
+    this.journalPath = `${filePath}.journal`;
+    this.load();
+  }
+
+  private load(): void {
+    if (fs.existsSync(this.filePath)) {
+      const contents = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as Record<string, Entity[]>;
+      for (const [name, entities] of Object.entries(contents)) {
+        this.data.set(name, new Map(entities.map((entity) => [entity.id, reviveEntity(name, entity)])));
+      }
+    }
+
+    if (fs.existsSync(this.journalPath)) {
+      for (const line of fs.readFileSync(this.journalPath, 'utf8').split('\n')) {
+        if (!line) continue;
+
+        let batch: Change[];
+        try {
+          batch = JSON.parse(line) as Change[];
+        } catch {
+          break; // a batch cut short by a crash mid-append was never committed
+        }
+        for (const change of batch) {
+          this.replay(change.type === 'write' && change.entity
+            ? { ...change, entity: reviveEntity(change.collection, change.entity) }
+            : change);
+        }
+        this.journalLength += batch.length;
+      }
+    }
+
+    // Start from a single file; replaying the journal again after this would be harmless
+    if (this.journalLength > 0) {
+      this.compact();
+    }
+  }
+
+  protected override commit(changes: Change[]): void {
+    if (this.journalLength + changes.length > COMPACT_AFTER) {
+      this.compact();
+      return;
+    }
+
+    fs.mkdirSync(path.dirname(this.journalPath), { recursive: true });
+    fs.appendFileSync(this.journalPath, `${JSON.stringify(changes)}\n`);
+    this.journalLength += changes.length;
+  }
+
+  // Writes the whole dataset as the new snapshot and empties the journal
+  private compact(): void {
+    const contents: Record<string, Entity[]> = {};
+    for (const [name, rows] of this.data.entries()) {
+      contents[name] = Array.from(rows.values());
+    }
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(contents));
+    fs.renameSync(tempPath, this.filePath);
+
+    fs.rmSync(this.journalPath, { force: true });
+    this.journalLength = 0;
+  }
+
+  override async close(): Promise<void> {
+    await super.close();
+    if (this.journalLength > 0) {
+      this.compact();
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,34 @@
+import path from 'path';
+import { config } from '../config/env';
+import { DataStore } from '../types/database.types';
+import { MemoryStore } from './memory.store';
+import { FileStore } from './file.store';
+
+/**
+ * Picks the store implementation from DATABASE_URL:
+ *   (unset) or memory://   -> in-memory maps, lost on restart (tests, quick demos)
+ *   file:./data/db.json    -> embedded file-backed store
+ */
+export const createDataStore = (url: string): DataStore => {
+  if (!url || url.startsWith('memory:')) {
+    return new MemoryStore();
+  }
+
+  if (url.startsWith('file:')) {
+    const filePath = url.replace(/^file:(\/\/)?/, '');
+    if (!filePath) {
+      throw new Error('DATABASE_URL must include a file path, e.g. file:./data/skillforge.json');
+    }
+    return new FileStore(path.resolve(filePath));
+  }
+
+  throw new Error(`Unsupported DATABASE_URL scheme: ${url.split(':')[0]}`);
+};
+
+export const db = createDataStore(config.database.url);
+
+/**
+ * Unit of work across models: every UserModel / CourseModel / PaymentModel
+ * write made inside work is committed together, or not at all if it throws.
+ */
+export const withTransaction = <R>(work: () => Promise<R>): Promise<R> => db.transaction(work);
\ No newline at end of file
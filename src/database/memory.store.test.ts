@@ -0,0 +1,64 @@
+import { MemoryStore } from './memory.store';
+import { Entity, Repository } from '../types/database.types';
+
+interface Note extends Entity {
+  text: string;
+}
+
+describe('MemoryStore.onCommit', () => {
+  let store: MemoryStore;
+  let notes: Repository<Note>;
+  let committed: [string, Note | null][];
+
+  beforeEach(() => {
+    store = new MemoryStore();
+    notes = store.collection<Note>('notes');
+    committed = [];
+    store.onCommit<Note>('notes', (id, note) => committed.push([id, note]));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports writes and deletes outside a transaction', async () => {
+    await notes.save({ id: 'n1', text: 'hello' });
+    await notes.delete('n1');
+
+    expect(committed).toEqual([['n1', { id: 'n1', text: 'hello' }], ['n1', null]]);
+  });
+
+  it('reports a transaction\'s writes only once it commits', async () => {
+    await store.transaction(async () => {
+      await notes.save({ id: 'n1', text: 'hello' });
+      expect(committed).toEqual([]);
+    });
+
+    expect(committed).toEqual([['n1', { id: 'n1', text: 'hello' }]]);
+  });
+
+  it('reports nothing for a rolled-back transaction', async () => {
+    await expect(store.transaction(async () => {
+      await notes.save({ id: 'n1', text: 'hello' });
+      throw new Error('rolled back');
+    })).rejects.toThrow('rolled back');
+
+    expect(committed).toEqual([]);
+  });
+
+  it('keeps the write when a listener throws', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    store.onCommit('notes', () => {
+      throw new Error('listener failure');
+    });
+
+    await notes.save({ id: 'n1', text: 'hello' });
+
+    expect(await notes.findById('n1')).toEqual({ id: 'n1', text: 'hello' });
+    expect(committed).toHaveLength(1);
+  });
+
+  it('ignores other collections', async () => {
+    await store.collection('others').save({ id: 'o1' });
+
+    expect(committed).toEqual([]);
+  });
+});
\ No newline at end of file
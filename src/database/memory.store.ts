@@ -0,0 +1,225 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CommitListener, DataStore, DatabaseDriver, Entity, Predicate, Repository } from '../types/database.types';
+
+export type TableData = Map<string, Map<string, Entity>>;
+
+// Staged writes per collection; a null entry marks a pending delete
+type StagedWrites = Map<string, Map<string, Entity | null>>;
+
+// One applied change; a null entity is a delete. Handed to commit() in the order applied
+export type Change =
+  | { type: 'write'; collection: string; id: string; entity: Entity | null }
+  | { type: 'create'; collection: string }
+  | { type: 'drop'; collection: string };
+
+// Entities are cloned on the way in and out so callers can never mutate
+// stored state without going through save()
+const clone = <T>(value: T): T => structuredClone(value);
+
+class MemoryRepository<T extends Entity> implements Repository<T> {
+  constructor(private store: MemoryStore, private name: string) {}
+
+  // Committed rows with the current transaction's staged writes layered on top
+  private get rows(): Map<string, T> {
+    const committed = this.store.table(this.name) as Map<string, T>;
+    const staged = this.store.stagedWrites(this.name);
+    if (!staged || staged.size === 0) {
+      return committed;
+    }
+
+    const view = new Map(committed);
+    for (const [id, entity] of staged.entries()) {
+      if (entity) {
+        view.set(id, entity as T);
+      } else {
+        view.delete(id);
+      }
+    }
+    return view;
+  }
+
+  async findById(id: string): Promise<T | null> {
+    const entity = this.rows.get(id);
+    return entity ? clone(entity) : null;
+  }
+
+  async findOne(predicate: Predicate<T>): Promise<T | null> {
+    for (const entity of this.rows.values()) {
+      if (predicate(entity)) {
+        return clone(entity);
+      }
+    }
+    return null;
+  }
+
+  async find(predicate?: Predicate<T>): Promise<T[]> {
+    const entities = Array.from(this.rows.values());
+    return (predicate ? entities.filter(predicate) : entities).map(clone);
+  }
+
+  async count(predicate?: Predicate<T>): Promise<number> {
+    if (!predicate) return this.rows.size;
+    return Array.from(this.rows.values()).filter(predicate).length;
+  }
+
+  async save(entity: T): Promise<T> {
+    this.store.write(this.name, entity.id, clone(entity));
+    return clone(entity);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!this.rows.has(id)) {
+      return false;
+    }
+    this.store.write(this.name, id, null);
+    return true;
+  }
+}
+
+export class MemoryStore implements DataStore {
+  readonly driver: DatabaseDriver = 'memory';
+  protected data: TableData = new Map();
+
+  private context = new AsyncLocalStorage<StagedWrites>();
+  private queue: Promise<unknown> = Promise.resolve();
+  private commitListeners = new Map<string, CommitListener<Entity>[]>();
+
+  collection<T extends Entity>(name: string): Repository<T> {
+    return new MemoryRepository<T>(this, name);
+  }
+
+  table(name: string): Map<string, Entity> {
+    let rows = this.data.get(name);
+    if (!rows) {
+      rows = new Map();
+      this.data.set(name, rows);
+    }
+    return rows;
+  }
+
+  stagedWrites(name: string): Map<string, Entity | null> | undefined {
+    return this.context.getStore()?.get(name);
+  }
+
+  // Inside a transaction writes are staged; outside they are applied immediately
+  write(name: string, id: string, entity: Entity | null): void {
+    const staged = this.context.getStore();
+    if (staged) {
+      let writes = staged.get(name);
+      if (!writes) {
+        writes = new Map();
+        staged.set(name, writes);
+      }
+      writes.set(id, entity);
+      return;
+    }
+
+    this.apply(new Map([[name, new Map([[id, entity]])]]));
+  }
+
+  /**
+   * Runs work as a single unit: every repository call made inside it (from any
+   * model) sees its own staged writes, and they are applied together only if
+   * work resolves. A thrown error discards all of them. Transactions are
+   * serialized, and nested calls join the outer transaction.
+   */
+  async transaction<R>(work: () => Promise<R>): Promise<R> {
+    if (this.context.getStore()) {
+      return work();
+    }
+
+    const run = async () => {
+      const staged: StagedWrites = new Map();
+      const result = await this.context.run(staged, work);
+      this.apply(staged);
+      return result;
+    };
+
+    const result = this.queue.then(run, run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private apply(writes: StagedWrites): void {
+    const changes: Change[] = [];
+    for (const [collection, rows] of writes.entries()) {
+      for (const [id, entity] of rows.entries()) {
+        changes.push({ type: 'write', collection, id, entity });
+      }
+    }
+    this.applyChanges(changes);
+  }
+
+  protected applyChanges(changes: Change[]): void {
+    if (changes.length === 0) return;
+
+    changes.forEach(change => this.replay(change));
+    this.commit(changes);
+    this.notify(changes);
+  }
+
+  onCommit<T extends Entity>(collection: string, listener: CommitListener<T>): void {
+    const listeners = this.commitListeners.get(collection) || [];
+    listeners.push(listener as CommitListener<Entity>);
+    this.commitListeners.set(collection, listeners);
+  }
+
+  // The writes are already committed by now, so a failing listener is logged rather than thrown
+  private notify(changes: Change[]): void {
+    for (const change of changes) {
+      if (change.type !== 'write') continue;
+
+      for (const listener of this.commitListeners.get(change.collection) || []) {
+        try {
+          listener(change.id, change.entity ? clone(change.entity) : null);
+        } catch (error) {
+          console.error(`Commit listener error (${change.collection}):`, error);
+        }
+      }
+    }
+  }
+
+  // Applies one change to the in-memory tables without committing it
+  protected replay(change: Change): void {
+    switch (change.type) {
+      case 'write': {
+        const table = this.table(change.collection);
+        if (change.entity) {
+          table.set(change.id, change.entity);
+        } else {
+          table.delete(change.id);
+        }
+        break;
+      }
+      case 'create':
+        this.table(change.collection);
+        break;
+      case 'drop':
+        this.data.delete(change.collection);
+        break;
+    }
+  }
+
+  async listCollections(): Promise<string[]> {
+    return Array.from(this.data.keys());
+  }
+
+  async createCollection(name: string): Promise<void> {
+    if (!this.data.has(name)) {
+      this.applyChanges([{ type: 'create', collection: name }]);
+    }
+  }
+
+  async dropCollection(name: string): Promise<void> {
+    if (this.data.has(name)) {
+      this.applyChanges([{ type: 'drop', collection: name }]);
+    }
+  }
+
+  // Called with every batch of applied changes; the in-memory store has nothing to persist
+  protected commit(_changes: Change[]): void {}
+
+  async close(): Promise<void> {
+    await this.queue;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,20 @@
+import { Migration } from '../../types/database.types';
+
+const collections = ['users', 'courses', 'payments'];
+
+export const createCoreCollections: Migration = {
+  version: 1,
+  name: 'create_core_collections',
+
+  async up(db) {
+    for (const name of collections) {
+      await db.createCollection(name);
+    }
+  },
+
+  async down(db) {
+    for (const name of collections) {
+      await db.dropCollection(name);
+    }
+  },
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createSessions: Migration = {
+  version: 2,
+  name: 'create_sessions',
+
+  async up(db) {
+    await db.createCollection('sessions');
+  },
+
+  async down(db) {
+    await db.dropCollection('sessions');
+  },
+};
\ No newline at end of file
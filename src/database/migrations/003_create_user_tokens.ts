@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createUserTokens: Migration = {
+  version: 3,
+  name: 'create_user_tokens',
+
+  async up(db) {
+    await db.createCollection('user_tokens');
+  },
+
+  async down(db) {
+    await db.dropCollection('user_tokens');
+  },
+};
\ No newline at end of file
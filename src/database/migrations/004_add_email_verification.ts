@@ -0,0 +1,23 @@
+import { Migration } from '../../types/database.types';
+import { User } from '../../types/user.types';
+
+// Accounts created before verification existed are grandfathered in as verified
+export const addEmailVerification: Migration = {
+  version: 4,
+  name: 'add_email_verification',
+
+  async up(db) {
+    const users = db.collection<User>('users');
+    for (const user of await users.find(u => u.emailVerified === undefined)) {
+      await users.save({ ...user, emailVerified: true, emailVerifiedAt: user.createdAt });
+    }
+  },
+
+  async down(db) {
+    const users = db.collection<User>('users');
+    for (const user of await users.find()) {
+      const { emailVerified, emailVerifiedAt, ...rest } = user;
+      await users.save(rest as User);
+    }
+  },
+};
\ No newline at end of file
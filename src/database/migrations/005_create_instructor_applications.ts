@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createInstructorApplications: Migration = {
+  version: 5,
+  name: 'create_instructor_applications',
+
+  async up(db) {
+    await db.createCollection('instructor_applications');
+  },
+
+  async down(db) {
+    await db.dropCollection('instructor_applications');
+  },
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Migration } from '../../types/database.types';
+
+export const createLoginProtection: Migration = {
+  version: 6,
+  name: 'create_login_protection',
+
+  async up(db) {
+    await db.createCollection('login_throttles');
+    await db.createCollection('audit_events');
+  },
+
+  async down(db) {
+    await db.dropCollection('audit_events');
+    await db.dropCollection('login_throttles');
+  },
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createApiKeys: Migration = {
+  version: 7,
+  name: 'create_api_keys',
+
+  async up(db) {
+    await db.createCollection('api_keys');
+  },
+
+  async down(db) {
+    await db.dropCollection('api_keys');
+  },
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createOidcLoginStates: Migration = {
+  version: 8,
+  name: 'create_oidc_login_states',
+
+  async up(db) {
+    await db.createCollection('oidc_login_states');
+  },
+
+  async down(db) {
+    await db.dropCollection('oidc_login_states');
+  },
+};
\ No newline at end of file
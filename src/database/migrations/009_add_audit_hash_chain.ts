@@ -0,0 +1,40 @@
+import { Migration } from '../../types/database.types';
+import { AuditEvent } from '../../types/audit.types';
+import { GENESIS_HASH, hashAuditEvent } from '../../utils/audit.utils';
+
+type LegacyAuditEvent = Omit<AuditEvent, 'sequence' | 'previousHash' | 'hash'> & { targetUserId?: string };
+
+// Events recorded before chaining join the chain in the order they happened
+export const addAuditHashChain: Migration = {
+  version: 9,
+  name: 'add_audit_hash_chain',
+
+  async up(db) {
+    const auditEvents = db.collection<LegacyAuditEvent & Partial<AuditEvent>>('audit_events');
+    const events = (await auditEvents.find()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    let previousHash = GENESIS_HASH;
+    for (const [index, legacy] of events.entries()) {
+      const { targetUserId, ...rest } = legacy;
+      const event: Omit<AuditEvent, 'hash'> = {
+        ...rest,
+        ...(targetUserId ? { targetType: 'user' as const, targetId: targetUserId } : {}),
+        sequence: index + 1,
+        previousHash,
+      };
+      previousHash = hashAuditEvent(event);
+      await auditEvents.save({ ...event, hash: previousHash });
+    }
+  },
+
+  async down(db) {
+    const auditEvents = db.collection<AuditEvent & { targetUserId?: string }>('audit_events');
+    for (const event of await auditEvents.find()) {
+      const { sequence, previousHash, hash, targetType, targetId, ...rest } = event;
+      await auditEvents.save({
+        ...rest,
+        ...(targetType === 'user' && targetId ? { targetUserId: targetId } : {}),
+      } as AuditEvent);
+    }
+  },
+};
\ No newline at end of file
@@ -0,0 +1,16 @@
+import { Migration } from '../../types/database.types';
+
+export const createDataExports: Migration = {
+  version: 10,
+  name: 'create_data_exports',
+
+  async up(db) {
+    await db.createCollection('ai_chat_messages');
+    await db.createCollection('data_exports');
+  },
+
+  async down(db) {
+    await db.dropCollection('data_exports');
+    await db.dropCollection('ai_chat_messages');
+  },
+};
\ No newline at end of file
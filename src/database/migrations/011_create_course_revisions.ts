@@ -0,0 +1,43 @@
+import { Migration } from '../../types/database.types';
+import { Course } from '../../types/course.types';
+import { CourseRevision } from '../../types/course-revision.types';
+
+// Courses already live get their current content as revision 1, so there is something to roll back to
+export const createCourseRevisions: Migration = {
+  version: 11,
+  name: 'create_course_revisions',
+
+  async up(db) {
+    await db.createCollection('course_drafts');
+    await db.createCollection('course_revisions');
+
+    const courses = db.collection<Course>('courses');
+    const revisions = db.collection<CourseRevision>('course_revisions');
+    for (const course of await courses.find(c => c.isPublished && c.publishedRevision === undefined)) {
+      const {
+        id, instructorId, instructorName, rating, reviewCount, enrollmentCount, isPublished, publishedRevision, createdAt, updatedAt,
+        ...content
+      } = course;
+      await revisions.save({
+        id: `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        courseId: id,
+        number: 1,
+        content,
+        publishedBy: instructorId,
+        publishedAt: updatedAt,
+      });
+      await courses.save({ ...course, publishedRevision: 1 });
+    }
+  },
+
+  async down(db) {
+    const courses = db.collection<Course>('courses');
+    for (const course of await courses.find(c => c.publishedRevision !== undefined)) {
+      const { publishedRevision, ...rest } = course;
+      await courses.save(rest);
+    }
+
+    await db.dropCollection('course_revisions');
+    await db.dropCollection('course_drafts');
+  },
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+import { Migration } from '../../types/database.types';
+
+export const createCourseSubmissions: Migration = {
+  version: 12,
+  name: 'create_course_submissions',
+
+  async up(db) {
+    await db.createCollection('course_submissions');
+  },
+
+  async down(db) {
+    await db.dropCollection('course_submissions');
+  },
+};
\ No newline at end of file
@@ -0,0 +1,29 @@
+import { Migration } from '../../types/database.types';
+import { Course } from '../../types/course.types';
+
+// Ratings so far were placeholders with no reviews behind them; courses start again from zero
+export const createReviews: Migration = {
+  version: 13,
+  name: 'create_reviews',
+
+  async up(db) {
+    await db.createCollection('reviews');
+    await db.createCollection('review_votes');
+
+    const courses = db.collection<Course>('courses');
+    for (const course of await courses.find(c => c.ratingHistogram === undefined)) {
+      await courses.save({ ...course, rating: 0, reviewCount: 0, ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } });
+    }
+  },
+
+  async down(db) {
+    const courses = db.collection<Course>('courses');
+    for (const course of await courses.find(c => c.ratingHistogram !== undefined)) {
+      const { ratingHistogram, ...rest } = course;
+      await courses.save(rest);
+    }
+
+    await db.dropCollection('review_votes');
+    await db.dropCollection('reviews');
+  },
+};
\ No newline at end of file
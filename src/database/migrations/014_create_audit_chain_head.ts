@@ -0,0 +1,22 @@
+import { Migration } from '../../types/database.types';
+import { AuditChainHead, AuditEvent } from '../../types/audit.types';
+
+// Starts the head record at the newest event already in the log
+export const createAuditChainHead: Migration = {
+  version: 14,
+  name: 'create_audit_chain_head',
+
+  async up(db) {
+    await db.createCollection('audit_chain_head');
+
+    const events = await db.collection<AuditEvent>('audit_events').find();
+    const last = events.reduce<AuditEvent | null>((newest, event) => (!newest || event.sequence > newest.sequence ? event : newest), null);
+    if (last) {
+      await db.collection<AuditChainHead>('audit_chain_head').save({ id: 'head', sequence: last.sequence, hash: last.hash });
+    }
+  },
+
+  async down(db) {
+    await db.dropCollection('audit_chain_head');
+  },
+};
\ No newline at end of file
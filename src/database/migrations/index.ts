@@ -0,0 +1,33 @@
+import { Migration } from '../../types/database.types';
+import { createCoreCollections } from './001_create_core_collections';
+import { createSessions } from './002_create_sessions';
+import { createUserTokens } from './003_create_user_tokens';
+import { addEmailVerification } from './004_add_email_verification';
+import { createInstructorApplications } from './005_create_instructor_applications';
+import { createLoginProtection } from './006_create_login_protection';
+import { createApiKeys } from './007_create_api_keys';
+import { createOidcLoginStates } from './008_create_oidc_login_states';
+import { addAuditHashChain } from './009_add_audit_hash_chain';
+import { createDataExports } from './010_create_data_exports';
+import { createCourseRevisions } from './011_create_course_revisions';
+import { createCourseSubmissions } from './012_create_course_submissions';
+import { createReviews } from './013_create_reviews';
+import { createAuditChainHead } from './014_create_audit_chain_head';
+
+// Append new migrations here; versions must be unique and increasing
+export const migrations: Migration[] = [
+  createCoreCollections,
+  createSessions,
+  createUserTokens,
+  addEmailVerification,
+  createInstructorApplications,
+  createLoginProtection,
+  createApiKeys,
+  createOidcLoginStates,
+  addAuditHashChain,
+  createDataExports,
+  createCourseRevisions,
+  createCourseSubmissions,
+  createReviews,
+  createAuditChainHead,
+];
\ No newline at end of file
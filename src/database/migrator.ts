@@ -0,0 +1,69 @@
+import { DataStore, Migration, MigrationRecord, MigrationStatus } from '../types/database.types';
+import { migrations } from './migrations';
+
+const LEDGER = 'schema_migrations';
+
+const ledgerId = (version: number) => String(version).padStart(3, '0');
+
+const getApplied = async (db: DataStore): Promise<MigrationRecord[]> => {
+  const applied = await db.collection<MigrationRecord>(LEDGER).find();
+  return applied.sort((a, b) => a.version - b.version);
+};
+
+const sortedMigrations = (): Migration[] => [...migrations].sort((a, b) => a.version - b.version);
+
+/**
+ * Applies every migration newer than the last recorded version, in order.
+ * Each applied version is written to the ledger right after its up() succeeds,
+ * so a failure leaves the ledger pointing at the last good version.
+ */
+export const migrateUp = async (db: DataStore): Promise<Migration[]> => {
+  const ledger = db.collection<MigrationRecord>(LEDGER);
+  const appliedVersions = new Set((await getApplied(db)).map(record => record.version));
+  const pending = sortedMigrations().filter(migration => !appliedVersions.has(migration.version));
+
+  for (const migration of pending) {
+    await migration.up(db);
+    await ledger.save({
+      id: ledgerId(migration.version),
+      version: migration.version,
+      name: migration.name,
+      appliedAt: new Date(),
+    });
+  }
+
+  return pending;
+};
+
+/**
+ * Reverts the most recently applied migrations, newest first.
+ */
+export const migrateDown = async (db: DataStore, steps: number = 1): Promise<Migration[]> => {
+  const ledger = db.collection<MigrationRecord>(LEDGER);
+  const applied = (await getApplied(db)).reverse().slice(0, steps);
+  const reverted: Migration[] = [];
+
+  for (const record of applied) {
+    const migration = migrations.find(m => m.version === record.version);
+    if (!migration) {
+      throw new Error(`Migration ${record.version} (${record.name}) is recorded but its script is missing`);
+    }
+
+    await migration.down(db);
+    await ledger.delete(record.id);
+    reverted.push(migration);
+  }
+
+  return reverted;
+};
+
+export const getMigrationStatus = async (db: DataStore): Promise<MigrationStatus[]> => {
+  const applied = await getApplied(db);
+
+  return sortedMigrations().map((migration) => {
+    const record = applied.find(r => r.version === migration.version);
+    return record
+      ? { version: migration.version, name: migration.name, appliedAt: record.appliedAt }
+      : { version: migration.version, name: migration.name };
+  });
+};
\ No newline at end of file
@@ -0,0 +1,200 @@
+import { UserModel } from '../../models/User';
+import { CourseModel } from '../../models/Course';
+import { UserRole } from '../../types/auth.types';
+import { User } from '../../types/user.types';
+import { Course, CourseLevel, CourseModule, LessonType } from '../../types/course.types';
+
+type DemoUser = Pick<User, 'email' | 'firstName' | 'lastName' | 'role' | 'bio' | 'skills'>;
+type DemoCourse = Omit<Course, 'id' | 'instructorId' | 'instructorName' | 'createdAt' | 'updatedAt'>;
+
+// bcrypt hash of "password" - demo accounts only, never seed these in production
+const DEMO_PASSWORD_HASH = '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi';
+
+export const DEMO_INSTRUCTOR_EMAIL = 'instructor@skillforge.com';
+
+const demoUsers: DemoUser[] = [
+  {
+    email: 'admin@skillforge.com',
+    firstName: 'Admin',
+    lastName: 'User',
+    role: UserRole.ADMIN,
+    bio: 'System administrator',
+    skills: ['Management', 'System Administration'],
+  },
+  {
+    email: 'instructor@skillforge.com',
+    firstName: 'John',
+    lastName: 'Instructor',
+    role: UserRole.INSTRUCTOR,
+    bio: 'Experienced software developer and instructor',
+    skills: ['JavaScript', 'React', 'Node.js', 'Teaching'],
+  },
+  {
+    email: 'student@skillforge.com',
+    firstName: 'Jane',
+    lastName: 'Student',
+    role: UserRole.STUDENT,
+    bio: 'Aspiring web developer',
+    skills: ['HTML', 'CSS'],
+  },
+];
+
+const sampleModules: CourseModule[] = [
+  {
+    id: 'module_1',
+    title: 'Introduction to Web Development',
+    description: 'Learn the basics of web development',
+    order: 1,
+    duration: 120,
+    isPreview: true,
+    lessons: [
+      {
+        id: 'lesson_1',
+        title: 'What is Web Development?',
+        description: 'Overview of web development concepts',
+        order: 1,
+        type: LessonType.VIDEO,
+        content: {
+          videoUrl: 'https://example.com/video1.mp4',
+          resources: [
+            {
+              id: 'resource_1',
+              title: 'Web Development Guide',
+              type: 'pdf',
+              url: 'https://example.com/guide.pdf',
+              size: 1024000,
+            },
+          ],
+        },
+        duration: 30,
+        isPreview: true,
+      },
+      {
+        id: 'lesson_2',
+        title: 'Setting Up Your Environment',
+        description: 'Install and configure development tools',
+        order: 2,
+        type: LessonType.TEXT,
+        content: {
+          textContent: 'Step-by-step guide to setting up your development environment...',
+        },
+        duration: 45,
+        isPreview: false,
+      },
+    ],
+  },
+  {
+    id: 'module_2',
+    title: 'HTML Fundamentals',
+    description: 'Master HTML structure and semantics',
+    order: 2,
+    duration: 180,
+    isPreview: false,
+    lessons: [
+      {
+        id: 'lesson_3',
+        title: 'HTML Structure',
+        description: 'Learn about HTML document structure',
+        order: 1,
+        type: LessonType.VIDEO,
+        content: {
+          videoUrl: 'https://example.com/video2.mp4',
+        },
+        duration: 60,
+        isPreview: false,
+      },
+    ],
+  },
+];
+
+const demoCourses: DemoCourse[] = [
+  {
+    title: 'Complete Web Development Bootcamp',
+    description: 'Learn web development from scratch with HTML, CSS, JavaScript, and modern frameworks. This comprehensive course covers everything you need to become a full-stack developer.',
+    shortDescription: 'Master web development with HTML, CSS, JavaScript, and modern frameworks',
+    category: 'Programming',
+    subcategory: 'Web Development',
+    level: CourseLevel.BEGINNER,
+    price: 99.99,
+    currency: 'USD',
+    thumbnail: 'https://images.pexels.com/photos/270348/pexels-photo-270348.jpeg',
+    previewVideo: 'https://example.com/preview.mp4',
+    duration: 1200,
+    modules: sampleModules,
+    requirements: ['Basic computer skills', 'No programming experience required'],
+    learningOutcomes: [
+      'Build responsive websites with HTML and CSS',
+      'Create interactive web applications with JavaScript',
+      'Understand modern web development frameworks',
+      'Deploy applications to the web',
+    ],
+    tags: ['HTML', 'CSS', 'JavaScript', 'Web Development', 'Frontend'],
+    rating: 0,
+    reviewCount: 0,
+    ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    enrollmentCount: 5000,
+    isPublished: true,
+  },
+  {
+    title: 'Advanced React Development',
+    description: 'Take your React skills to the next level with advanced patterns, performance optimization, and modern React features.',
+    shortDescription: 'Advanced React patterns and performance optimization',
+    category: 'Programming',
+    subcategory: 'Frontend Development',
+    level: CourseLevel.ADVANCED,
+    price: 149.99,
+    currency: 'USD',
+    thumbnail: 'https://images.pexels.com/photos/11035380/pexels-photo-11035380.jpeg',
+    duration: 800,
+    modules: [],
+    requirements: ['Solid understanding of React basics', 'JavaScript ES6+ knowledge'],
+    learningOutcomes: [
+      'Master advanced React patterns',
+      'Optimize React application performance',
+      'Implement complex state management',
+      'Build scalable React applications',
+    ],
+    tags: ['React', 'JavaScript', 'Frontend', 'Advanced', 'Performance'],
+    rating: 0,
+    reviewCount: 0,
+    ratingHistogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 },
+    enrollmentCount: 2500,
+    isPublished: true,
+  },
+];
+
+/**
+ * Loads the demo accounts and bootcamp courses. Safe to run repeatedly:
+ * users are matched by email and courses by title, and existing rows are left alone.
+ */
+export const seedDemoData = async (): Promise<void> => {
+  for (const demoUser of demoUsers) {
+    if (await UserModel.findByEmail(demoUser.email)) continue;
+
+    await UserModel.create({
+      ...demoUser,
+      password: DEMO_PASSWORD_HASH,
+      emailVerified: true,
+      emailVerifiedAt: new Date(),
+      preferences: UserModel.getDefaultPreferences(),
+      progress: [],
+    });
+  }
+
+  const instructor = await UserModel.findByEmail(DEMO_INSTRUCTOR_EMAIL);
+  if (!instructor) {
+    throw new Error('Demo instructor account is missing');
+  }
+
+  const existingTitles = (await CourseModel.findByInstructor(instructor.id)).map(course => course.title);
+
+  for (const demoCourse of demoCourses) {
+    if (existingTitles.includes(demoCourse.title)) continue;
+
+    await CourseModel.create({
+      ...demoCourse,
+      instructorId: instructor.id,
+      instructorName: `${instructor.firstName} ${instructor.lastName}`,
+    });
+  }
+};
\ No newline at end of file
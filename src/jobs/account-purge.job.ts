@@ -0,0 +1,17 @@
+import { config } from '../config/env';
+import { accountDeletionService } from '../services/account-deletion.service';
+import { Job } from '../types/job.types';
+
+// Permanently removes accounts whose deletion grace period has ended
+export const accountPurgeJob: Job = {
+  name: 'account-purge',
+  intervalMs: config.jobs.accountPurgeIntervalMinutes * 60 * 1000,
+
+  async run() {
+    const purged = await accountDeletionService.purgeDue();
+    if (purged > 0) {
+      console.log(`Purged ${purged} deleted account(s)`);
+    }
+    return purged;
+  },
+};
\ No newline at end of file
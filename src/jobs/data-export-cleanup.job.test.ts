@@ -0,0 +1,60 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { DataExportModel } from '../models/DataExport';
+import { DataExport, DataExportStatus } from '../types/data-export.types';
+import { dataExportCleanupJob } from './data-export-cleanup.job';
+
+describe('data-export-cleanup job', () => {
+  const archive = (dataExport: DataExport) => path.resolve(config.dataExport.dir, `${dataExport.id}.zip`);
+
+  // A completed export with its archive on disk
+  const completedExport = async (expiresAt: Date) => {
+    const dataExport = await DataExportModel.create({
+      userId: 'user_cleanup',
+      status: DataExportStatus.COMPLETED,
+      expiresAt,
+      completedAt: new Date(),
+    });
+    await fs.promises.mkdir(config.dataExport.dir, { recursive: true });
+    await fs.promises.writeFile(archive(dataExport), 'zip');
+    return dataExport;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('deletes the archives of expired exports', async () => {
+    const expired = await completedExport(new Date(Date.now() - 1000));
+
+    expect(await dataExportCleanupJob.run()).toBe(1);
+
+    expect(fs.existsSync(archive(expired))).toBe(false);
+    expect((await DataExportModel.findById(expired.id))!.status).toBe(DataExportStatus.EXPIRED);
+  });
+
+  it('keeps exports whose link is still valid', async () => {
+    const current = await completedExport(new Date(Date.now() + 60 * 60 * 1000));
+
+    expect(await dataExportCleanupJob.run()).toBe(0);
+
+    expect(fs.existsSync(archive(current))).toBe(true);
+    expect((await DataExportModel.findById(current.id))!.status).toBe(DataExportStatus.COMPLETED);
+    await fs.promises.rm(archive(current), { force: true });
+  });
+
+  it('retries an export it could not delete on the next run', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const expired = await completedExport(new Date(Date.now() - 1000));
+    jest.spyOn(DataExportModel, 'update').mockRejectedValueOnce(new Error('injected failure'));
+
+    expect(await dataExportCleanupJob.run()).toBe(0);
+    expect((await DataExportModel.findById(expired.id))!.status).toBe(DataExportStatus.COMPLETED);
+
+    expect(await dataExportCleanupJob.run()).toBe(1);
+    expect((await DataExportModel.findById(expired.id))!.status).toBe(DataExportStatus.EXPIRED);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { config } from '../config/env';
+import { dataExportService } from '../services/data-export.service';
+import { Job } from '../types/job.types';
+
+// Deletes export archives whose download link has expired, whether or not anyone came back for them
+export const dataExportCleanupJob: Job = {
+  name: 'data-export-cleanup',
+  intervalMs: config.jobs.dataExportCleanupIntervalMinutes * 60 * 1000,
+
+  async run() {
+    const expired = await dataExportService.expireDue();
+    if (expired > 0) {
+      console.log(`Deleted ${expired} expired data export(s)`);
+    }
+    return expired;
+  },
+};
\ No newline at end of file
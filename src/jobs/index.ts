@@ -0,0 +1,35 @@
+import { Job } from '../types/job.types';
+import { accountPurgeJob } from './account-purge.job';
+import { dataExportCleanupJob } from './data-export-cleanup.job';
+
+export const jobs: Job[] = [accountPurgeJob, dataExportCleanupJob];
+
+/**
+ * Runs every job once at startup and then on its interval. A run that is
+ * still going when the next one is due is skipped rather than overlapped.
+ * Returns a function that stops the schedule (used on shutdown).
+ */
+export const startJobs = (): (() => void) => {
+  const timers = jobs.map(job => {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        await job.run();
+      } catch (error) {
+        console.error(`Job ${job.name} error:`, error);
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    const timer = setInterval(tick, job.intervalMs);
+    timer.unref();
+    return timer;
+  });
+
+  return () => timers.forEach(timer => clearInterval(timer));
+};
\ No newline at end of file
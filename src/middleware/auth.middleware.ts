@@ -1,23 +1,134 @@
 import { Response, NextFunction } from 'express';
 import { verifyAccessToken, extractTokenFromHeader } from '../utils/jwt.utils';
 import { sendUnauthorized, sendForbidden } from '../utils/response.utils';
-import { UserRole } from '../types/auth.types';
+import { hasPermission } from '../utils/permission.utils';
+import { getClientInfo, getRequestId } from '../utils/request.utils';
+import { sessionService } from '../services/session.service';
+import { apiKeyService, isApiKey } from '../services/api-key.service';
+import { auditService } from '../services/audit.service';
+import { UserModel } from '../models/User';
+import { Permission } from '../types/permission.types';
+import { AuditAction } from '../types/audit.types';
 import { RequestWithUser } from '../types/api.types';
 
-export const authenticate = (req: RequestWithUser, res: Response, next: NextFunction) => {
+// API keys may be sent as a Bearer token or in X-API-Key
+const extractCredential = (req: RequestWithUser): string | null => {
+  return extractTokenFromHeader(req.headers.authorization) || req.get('x-api-key') || null;
+};
+
+// Resolves an API key to the request's user; its scopes cap what the role allows
+const authenticateApiKey = async (req: RequestWithUser, key: string): Promise<boolean> => {
+  const result = await apiKeyService.authenticate(key, getClientInfo(req).ipAddress);
+  if (!result || result.user.suspension || result.user.deletion) return false;
+
+  req.user = {
+    userId: result.user.id,
+    email: result.user.email,
+    role: result.user.role,
+    apiKeyId: result.apiKey.id,
+    scopes: result.apiKey.scopes,
+  };
+  return true;
+};
+
+// Every request made while impersonating is recorded once its response has been sent
+const auditImpersonatedRequest = (req: RequestWithUser, res: Response, impersonatorId: string) => {
+  const requestId = getRequestId(req);
+
+  res.on('finish', () => {
+    auditService.record({
+      action: AuditAction.IMPERSONATED_REQUEST,
+      actorId: impersonatorId,
+      targetType: 'user',
+      targetId: req.user!.userId,
+      ipAddress: getClientInfo(req).ipAddress,
+      ...(requestId ? { requestId } : {}),
+      metadata: {
+        method: req.method,
+        path: req.originalUrl,
+        statusCode: res.statusCode,
+        sessionId: req.user!.sessionId,
+      },
+    }).catch(error => console.error('Impersonation audit error:', error));
+  });
+};
+
+/**
+ * Resolves an access token to the request's user, or says why it was
+ * refused. The session and user are re-read so revocations, suspensions and
+ * role changes apply immediately; an impersonating admin must still exist and
+ * still be allowed to impersonate. Accounts awaiting deletion are refused
+ * unless the route allows them.
+ */
+const authenticateAccessToken = async (
+  req: RequestWithUser,
+  res: Response,
+  token: string,
+  allowPendingDeletion = false
+): Promise<{ status: 401 | 403; message: string } | null> => {
+  const payload = verifyAccessToken(token);
+
+  // Access tokens die with their session (logout, refresh token reuse)
+  const session = payload.sessionId ? await sessionService.recordActivity(payload.sessionId) : null;
+  if (!session || session.userId !== payload.userId || session.impersonatorId !== payload.impersonatorId) {
+    return { status: 401, message: 'Session has been revoked' };
+  }
+
+  const user = await UserModel.findById(payload.userId);
+  if (!user) {
+    return { status: 401, message: 'User not found' };
+  }
+  if (user.suspension) {
+    return { status: 403, message: 'This account has been suspended' };
+  }
+  if (user.deletion && !allowPendingDeletion) {
+    return { status: 403, message: 'This account is scheduled for deletion. Restore it to continue' };
+  }
+
+  if (session.impersonatorId) {
+    const impersonator = await UserModel.findById(session.impersonatorId);
+    if (
+      !impersonator ||
+      impersonator.suspension ||
+      !hasPermission({ userId: impersonator.id, role: impersonator.role }, Permission.USER_IMPERSONATE_ANY)
+    ) {
+      return { status: 401, message: 'Impersonation is no longer allowed' };
+    }
+  }
+
+  req.user = {
+    userId: user.id,
+    email: user.email,
+    role: user.role,
+    sessionId: session.id,
+    ...(session.impersonatorId ? { impersonatorId: session.impersonatorId } : {}),
+  };
+
+  if (session.impersonatorId) {
+    auditImpersonatedRequest(req, res, session.impersonatorId);
+  }
+  return null;
+};
+
+const createAuthenticate = (allowPendingDeletion: boolean) => async (req: RequestWithUser, res: Response, next: NextFunction) => {
   try {
-    const token = extractTokenFromHeader(req.headers.authorization);
+    const token = extractCredential(req);
     
     if (!token) {
       return sendUnauthorized(res, 'Access token required');
     }
 
-    const payload = verifyAccessToken(token);
-    req.user = {
-      userId: payload.userId,
-      email: payload.email,
-      role: payload.role,
-    };
+    if (isApiKey(token)) {
+      if (!(await authenticateApiKey(req, token))) {
+        return sendUnauthorized(res, 'Invalid, expired or revoked API key');
+      }
+      return next();
+    }
+
+    const refusal = await authenticateAccessToken(req, res, token, allowPendingDeletion);
+    if (refusal) {
+      return refusal.status === 403 ? sendForbidden(res, refusal.message) : sendUnauthorized(res, refusal.message);
+    }
 
     next();
   } catch (error) {
@@ -25,31 +136,57 @@ export const authenticate = (req: RequestWithUser, res: Response, next: NextFunc
   }
 };
 
-export const authorize = (...roles: UserRole[]) => {
+export const authenticate = createAuthenticate(false);
+
+// For the routes an account awaiting deletion keeps: restoring it, its data export and signing out
+export const authenticateAllowingPendingDeletion = createAuthenticate(true);
+
+// Account and credential management needs a real login, not an API key
+export const requireSession = (req: RequestWithUser, res: Response, next: NextFunction) => {
+  if (!req.user) {
+    return sendUnauthorized(res, 'Authentication required');
+  }
+
+  if (!req.user.sessionId) {
+    return sendForbidden(res, 'This action is not available to API keys');
+  }
+
+  return next();
+};
+
+// Payments, credentials and account deletion stay with the real account holder
+export const forbidImpersonation = (req: RequestWithUser, res: Response, next: NextFunction) => {
+  if (req.user?.impersonatorId) {
+    return sendForbidden(res, 'This action is not available while impersonating a user');
+  }
+
+  return next();
+};
+
+// Route-level gate; ownership of the specific resource is checked with can() once it is loaded
+export const requirePermission = (...permissions: Permission[]) => {
   return (req: RequestWithUser, res: Response, next: NextFunction) => {
     if (!req.user) {
       return sendUnauthorized(res, 'Authentication required');
     }
 
-    if (!roles.includes(req.user.role as UserRole)) {
+    const subject = req.user;
+    if (!permissions.every(permission => hasPermission(subject, permission))) {
       return sendForbidden(res, 'Insufficient permissions');
     }
 
-    next();
+    return next();
   };
 };
 
-export const optionalAuth = (req: RequestWithUser, res: Response, next: NextFunction) => {
+export const optionalAuth = async (req: RequestWithUser, res: Response, next: NextFunction) => {
   try {
-    const token = extractTokenFromHeader(req.headers.authorization);
+    const token = extractCredential(req);
     
-    if (token) {
-      const payload = verifyAccessToken(token);
-      req.user = {
-        userId: payload.userId,
-        email: payload.email,
-        role: payload.role,
-      };
+    if (token && isApiKey(token)) {
+      await authenticateApiKey(req, token);
+    } else if (token) {
+      await authenticateAccessToken(req, res, token);
     }
 
     next();
@@ -59,39 +196,20 @@ export const optionalAuth = (req: RequestWithUser, res: Response, next: NextFunc
   }
 };
 
-export const requireOwnership = (resourceIdParam: string = 'id') => {
-  return (req: RequestWithUser, res: Response, next: NextFunction) => {
+// Policy hook for routes that only verified accounts may use (enrollment, payments)
+export const requireVerifiedEmail = async (req: RequestWithUser, res: Response, next: NextFunction) => {
+  try {
     if (!req.user) {
       return sendUnauthorized(res, 'Authentication required');
     }
 
-    const resourceId = req.params[resourceIdParam];
-    const userId = req.user.userId;
-
-    // Admin can access any resource
-    if (req.user.role === UserRole.ADMIN) {
-      return next();
-    }
-
-    // For user resources, check if the user owns the resource
-    if (resourceIdParam === 'userId' || resourceIdParam === 'id') {
-      if (resourceId !== userId) {
-        return sendForbidden(res, 'Access denied: You can only access your own resources');
-      }
+    const user = await UserModel.findById(req.user.userId);
+    if (!user?.emailVerified) {
+      return sendForbidden(res, 'Please verify your email address to continue');
     }
 
-    next();
-  };
-};
-
-export const requireInstructorOrAdmin = (req: RequestWithUser, res: Response, next: NextFunction) => {
-  if (!req.user) {
-    return sendUnauthorized(res, 'Authentication required');
-  }
-
-  if (req.user.role !== UserRole.INSTRUCTOR && req.user.role !== UserRole.ADMIN) {
-    return sendForbidden(res, 'Instructor or admin access required');
+    return next();
+  } catch (error) {
+    return next(error);
   }
-
-  next();
 };
\ No newline at end of file
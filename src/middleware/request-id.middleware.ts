@@ -0,0 +1,14 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._-]{1,128}$/;
+
+// Tags each request with an id, keeping a well-formed X-Request-Id from the caller, and echoes it back
+export const assignRequestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+
+  req.headers['x-request-id'] = requestId;
+  res.set('X-Request-Id', requestId);
+  next();
+};
\ No newline at end of file
@@ -0,0 +1,55 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { uploadLessonFiles, lessonFileLimits, handleUploadError } from './upload.middleware';
+
+describe('uploadLessonFiles', () => {
+  let server: Server;
+  let url: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.post('/', uploadLessonFiles, handleUploadError, (req: express.Request, res: express.Response) => {
+      const files = req.files as Record<string, Express.Multer.File[]>;
+      res.json({
+        sizes: Object.fromEntries(Object.entries(files).map(([field, list]) => [field, list.map(file => file.buffer.length)])),
+      });
+    });
+    server = await new Promise(resolve => {
+      const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+    });
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  });
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+  const upload = async (files: { field: string; size: number }[]) => {
+    const form = new FormData();
+    for (const { field, size } of files) {
+      form.append(field, new Blob([Buffer.alloc(size)], { type: 'application/pdf' }), `${field}.pdf`);
+    }
+    const response = await fetch(url, { method: 'POST', body: form });
+    return { status: response.status, body: await response.json() };
+  };
+
+  it('buffers files within their field limit', async () => {
+    const response = await upload([{ field: 'resources', size: 1024 }, { field: 'video', size: 2048 }]);
+
+    expect(response.status).toBe(200);
+    expect(response.body.sizes).toEqual({ resources: [1024], video: [2048] });
+  });
+
+  it('rejects a resource over its own limit even though videos may be larger', async () => {
+    const response = await upload([{ field: 'resources', size: lessonFileLimits.resources + 1 }]);
+
+    expect(response.status).toBe(400);
+    expect(response.body.error).toBe('File too large');
+  });
+
+  it('accepts a resource exactly at its limit', async () => {
+    const response = await upload([{ field: 'resources', size: lessonFileLimits.resources }]);
+
+    expect(response.status).toBe(200);
+    expect(response.body.sizes.resources).toEqual([lessonFileLimits.resources]);
+  });
+});
\ No newline at end of file
@@ -20,6 +20,57 @@ const upload = multer({
   },
 });
 
+// Per-field size limits for lesson uploads; validateFile in the course routes checks the same numbers
+export const lessonFileLimits = {
+  video: 200 * 1024 * 1024, // 200MB
+  resources: 25 * 1024 * 1024, // 25MB
+};
+
+// Buffers files in memory like memoryStorage, but stops reading a file as soon as
+// it passes its field's limit, so an oversized file is never held in full
+const fieldLimitedMemoryStorage = (fieldLimits: Record<string, number>): multer.StorageEngine => ({
+  _handleFile(_req, file, cb) {
+    const limit = fieldLimits[file.fieldname] ?? Infinity;
+    const chunks: Buffer[] = [];
+    let size = 0;
+    let finished = false;
+
+    file.stream.on('data', (chunk: Buffer) => {
+      if (finished) return;
+      size += chunk.length;
+      if (size > limit) {
+        finished = true;
+        chunks.length = 0;
+        return cb(new multer.MulterError('LIMIT_FILE_SIZE', file.fieldname));
+      }
+      chunks.push(chunk);
+    });
+    file.stream.on('error', (error) => {
+      if (finished) return;
+      finished = true;
+      cb(error);
+    });
+    file.stream.on('end', () => {
+      if (finished) return;
+      finished = true;
+      cb(null, { buffer: Buffer.concat(chunks, size), size });
+    });
+  },
+  // Nothing to clean up: the buffer goes away with the file object
+  _removeFile(_req, _file, cb) {
+    cb(null);
+  },
+});
+
+const lessonUpload = multer({
+  storage: fieldLimitedMemoryStorage(lessonFileLimits),
+  fileFilter,
+  limits: {
+    fileSize: lessonFileLimits.video,
+    files: 6,
+  },
+});
+
 // Middleware for single file upload
 export const uploadSingle = (fieldName: string) => upload.single(fieldName);
 
@@ -46,7 +97,7 @@ export const uploadCourseFiles = uploadFields([
 ]);
 
 // Lesson-specific uploads
-export const uploadLessonFiles = uploadFields([
+export const uploadLessonFiles = lessonUpload.fields([
   { name: 'video', maxCount: 1 },
   { name: 'resources', maxCount: 5 },
 ]);
@@ -59,7 +110,7 @@ export const handleUploadError = (error: any, req: any, res: any, next: any) =>
         return res.status(400).json({
           success: false,
           error: 'File too large',
-          message: 'File size exceeds the maximum limit of 50MB',
+          message: 'File size exceeds the maximum allowed for this upload',
         });
       case 'LIMIT_FILE_COUNT':
         return res.status(400).json({
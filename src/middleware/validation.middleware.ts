@@ -56,15 +56,17 @@ export const validateFile = (options: {
       fieldName = 'file' 
     } = options;
     
-    const file = req.file;
+    // Single uploads land on req.file; uploadFields() puts each field's files under req.files[fieldName]
+    const fieldFiles = req.files && !Array.isArray(req.files) ? req.files[fieldName] || [] : [];
+    const files = req.file ? [req.file] : fieldFiles;
     
-    if (required && !file) {
+    if (required && files.length === 0) {
       return sendValidationError(res, [
         { field: fieldName, message: 'File is required' }
       ]);
     }
     
-    if (file) {
+    for (const file of files) {
       // Validate file type more strictly
       if (allowedTypes.length > 0) {
         const isValidType = allowedTypes.some(type => {
@@ -0,0 +1,34 @@
+import { AIChatMessage } from '../types/ai.types';
+import { db } from '../database';
+
+const chatMessages = db.collection<AIChatMessage>('ai_chat_messages');
+
+export class AIChatMessageModel {
+  static async create(messageData: Omit<AIChatMessage, 'id' | 'createdAt'>): Promise<AIChatMessage> {
+    const id = `chat_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const message: AIChatMessage = {
+      id,
+      ...messageData,
+      createdAt: new Date(),
+    };
+
+    return chatMessages.save(message);
+  }
+
+  // Newest first
+  static async findByUser(userId: string, courseId?: string): Promise<AIChatMessage[]> {
+    const messages = await chatMessages.find(message =>
+      message.userId === userId && (!courseId || message.courseId === courseId)
+    );
+    return messages.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const messages = await chatMessages.find(message => message.userId === userId);
+    for (const message of messages) {
+      await chatMessages.delete(message.id);
+    }
+    return messages.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { ApiKey } from '../types/api-key.types';
+import { db } from '../database';
+
+const apiKeys = db.collection<ApiKey>('api_keys');
+
+export class ApiKeyModel {
+  static async create(keyData: Omit<ApiKey, 'id' | 'createdAt' | 'updatedAt'>): Promise<ApiKey> {
+    const id = `apikey_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const apiKey: ApiKey = {
+      id,
+      ...keyData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return apiKeys.save(apiKey);
+  }
+
+  static async findById(id: string): Promise<ApiKey | null> {
+    return apiKeys.findById(id);
+  }
+
+  static async findByPrefix(prefix: string): Promise<ApiKey | null> {
+    return apiKeys.findOne(apiKey => apiKey.prefix === prefix);
+  }
+
+  static async findActiveByUser(userId: string): Promise<ApiKey[]> {
+    const now = new Date();
+    return apiKeys.find(apiKey =>
+      apiKey.userId === userId &&
+      !apiKey.revokedAt &&
+      (!apiKey.expiresAt || apiKey.expiresAt > now)
+    );
+  }
+
+  static async update(id: string, updates: Partial<ApiKey>): Promise<ApiKey | null> {
+    const apiKey = await apiKeys.findById(id);
+    if (!apiKey) return null;
+
+    const updatedApiKey = {
+      ...apiKey,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return apiKeys.save(updatedApiKey);
+  }
+
+  static isActive(apiKey: ApiKey): boolean {
+    return !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt > new Date());
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const owned = await apiKeys.find(apiKey => apiKey.userId === userId);
+    for (const apiKey of owned) {
+      await apiKeys.delete(apiKey.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
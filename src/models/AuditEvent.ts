@@ -0,0 +1,54 @@
+import { AuditChainHead, AuditEvent, AuditEventQuery } from '../types/audit.types';
+import { GENESIS_HASH, hashAuditEvent } from '../utils/audit.utils';
+import { db } from '../database';
+
+const auditEvents = db.collection<AuditEvent>('audit_events');
+const chainHeads = db.collection<AuditChainHead>('audit_chain_head');
+
+// Append-only: there is deliberately no update or delete
+export class AuditEventModel {
+  // Callers must hold a transaction so two appends cannot claim the same place in the chain
+  static async append(
+    eventData: Omit<AuditEvent, 'id' | 'sequence' | 'createdAt' | 'previousHash' | 'hash'>
+  ): Promise<AuditEvent> {
+    const id = `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const head = await AuditEventModel.findHead();
+
+    const event: Omit<AuditEvent, 'hash'> = {
+      id,
+      sequence: head ? head.sequence + 1 : 1,
+      ...eventData,
+      createdAt: new Date(),
+      previousHash: head ? head.hash : GENESIS_HASH,
+    };
+
+    const saved = await auditEvents.save({ ...event, hash: hashAuditEvent(event) });
+    await chainHeads.save({ id: 'head', sequence: saved.sequence, hash: saved.hash });
+    return saved;
+  }
+
+  // Null until the first event is appended
+  static async findHead(): Promise<AuditChainHead | null> {
+    return chainHeads.findById('head');
+  }
+
+  // Newest first
+  static async findAll(filters: Omit<AuditEventQuery, 'page' | 'limit'> = {}): Promise<AuditEvent[]> {
+    const events = await auditEvents.find(event =>
+      (!filters.action || event.action === filters.action) &&
+      (!filters.actorId || event.actorId === filters.actorId) &&
+      (!filters.targetType || event.targetType === filters.targetType) &&
+      (!filters.targetId || event.targetId === filters.targetId) &&
+      (!filters.requestId || event.requestId === filters.requestId) &&
+      (!filters.from || event.createdAt >= filters.from) &&
+      (!filters.to || event.createdAt <= filters.to)
+    );
+    return events.sort((a, b) => b.sequence - a.sequence);
+  }
+
+  // Oldest first, the order the chain is verified in
+  static async findChain(): Promise<AuditEvent[]> {
+    const events = await auditEvents.find();
+    return events.sort((a, b) => a.sequence - b.sequence);
+  }
+}
\ No newline at end of file
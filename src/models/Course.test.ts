@@ -0,0 +1,64 @@
+import { db, withTransaction } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+import { CourseModel } from './Course';
+import { Course } from '../types/course.types';
+
+describe('CourseModel.search', () => {
+  let course: Course;
+
+  beforeAll(async () => {
+    await migrateUp(db);
+    await seedDemoData();
+  });
+
+  beforeEach(async () => {
+    const [seeded] = await CourseModel.findAll();
+    const { id, createdAt, updatedAt, ...data } = seeded!;
+    course = await CourseModel.create({ ...data, title: 'Quokka husbandry', tags: [] });
+    // Builds the index before the writes under test
+    await CourseModel.search('quokka');
+  });
+
+  const found = async (query: string) => (await CourseModel.search(query)).some(result => result.id === course.id);
+
+  const rolledBack = (work: () => Promise<unknown>) =>
+    expect(withTransaction(async () => {
+      await work();
+      throw new Error('rolled back');
+    })).rejects.toThrow('rolled back');
+
+  it('finds a course created after the index was built', async () => {
+    expect(await found('quokka')).toBe(true);
+  });
+
+  it('follows committed updates and deletes', async () => {
+    await CourseModel.update(course.id, { title: 'Wombat husbandry' });
+    expect(await found('quokka')).toBe(false);
+    expect(await found('wombat')).toBe(true);
+
+    await CourseModel.delete(course.id);
+    expect(await found('wombat')).toBe(false);
+  });
+
+  it('ignores an update from a rolled-back transaction', async () => {
+    await rolledBack(() => CourseModel.update(course.id, { title: 'Wombat husbandry' }));
+
+    expect(await found('quokka')).toBe(true);
+    expect(await found('wombat')).toBe(false);
+  });
+
+  it('ignores a delete from a rolled-back transaction', async () => {
+    await rolledBack(() => CourseModel.delete(course.id));
+
+    expect(await found('quokka')).toBe(true);
+  });
+
+  it('indexes a transaction\'s writes once it commits', async () => {
+    await withTransaction(async () => {
+      await CourseModel.update(course.id, { title: 'Wombat husbandry' });
+    });
+
+    expect(await found('wombat')).toBe(true);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,19 @@
+import { CourseDraft } from '../types/course-revision.types';
+import { db } from '../database';
+
+// One draft per course, stored under the course id
+const courseDrafts = db.collection<CourseDraft>('course_drafts');
+
+export class CourseDraftModel {
+  static async findByCourse(courseId: string): Promise<CourseDraft | null> {
+    return courseDrafts.findById(courseId);
+  }
+
+  static async save(draft: CourseDraft): Promise<CourseDraft> {
+    return courseDrafts.save(draft);
+  }
+
+  static async deleteByCourse(courseId: string): Promise<boolean> {
+    return courseDrafts.delete(courseId);
+  }
+}
\ No newline at end of file
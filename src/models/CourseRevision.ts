@@ -0,0 +1,41 @@
+import { CourseRevision } from '../types/course-revision.types';
+import { db } from '../database';
+
+const courseRevisions = db.collection<CourseRevision>('course_revisions');
+
+export class CourseRevisionModel {
+  static async create(revisionData: Omit<CourseRevision, 'id' | 'publishedAt'>): Promise<CourseRevision> {
+    const id = `revision_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const revision: CourseRevision = {
+      id,
+      ...revisionData,
+      publishedAt: new Date(),
+    };
+
+    return courseRevisions.save(revision);
+  }
+
+  static async findByNumber(courseId: string, number: number): Promise<CourseRevision | null> {
+    return courseRevisions.findOne(revision => revision.courseId === courseId && revision.number === number);
+  }
+
+  // Newest first
+  static async findByCourse(courseId: string): Promise<CourseRevision[]> {
+    const revisions = await courseRevisions.find(revision => revision.courseId === courseId);
+    return revisions.sort((a, b) => b.number - a.number);
+  }
+
+  static async findLatest(courseId: string): Promise<CourseRevision | null> {
+    const [latest] = await this.findByCourse(courseId);
+    return latest || null;
+  }
+
+  static async deleteByCourse(courseId: string): Promise<number> {
+    const revisions = await courseRevisions.find(revision => revision.courseId === courseId);
+    for (const revision of revisions) {
+      await courseRevisions.delete(revision.id);
+    }
+    return revisions.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,70 @@
+import { CourseSubmission, CourseSubmissionStatus } from '../types/course-review.types';
+import { db } from '../database';
+
+const submissions = db.collection<CourseSubmission>('course_submissions');
+
+// Submissions that still lead somewhere: awaiting review, or approved and not yet published
+const ACTIVE_STATUSES = [CourseSubmissionStatus.IN_REVIEW, CourseSubmissionStatus.APPROVED];
+
+export class CourseSubmissionModel {
+  static async create(
+    submissionData: Omit<CourseSubmission, 'id' | 'status' | 'comments' | 'createdAt' | 'updatedAt'>
+  ): Promise<CourseSubmission> {
+    const id = `submission_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const submission: CourseSubmission = {
+      id,
+      ...submissionData,
+      status: CourseSubmissionStatus.IN_REVIEW,
+      comments: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return submissions.save(submission);
+  }
+
+  static async findById(id: string): Promise<CourseSubmission | null> {
+    return submissions.findById(id);
+  }
+
+  static async findActiveByCourse(courseId: string): Promise<CourseSubmission | null> {
+    return submissions.findOne(submission =>
+      submission.courseId === courseId && ACTIVE_STATUSES.includes(submission.status)
+    );
+  }
+
+  // Newest first
+  static async findByCourse(courseId: string): Promise<CourseSubmission[]> {
+    const results = await submissions.find(submission => submission.courseId === courseId);
+    return results.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Oldest first, so the review queue is worked in submission order
+  static async findAll(status?: CourseSubmissionStatus): Promise<CourseSubmission[]> {
+    const results = await submissions.find(submission => !status || submission.status === status);
+    return results.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  static async update(id: string, updates: Partial<CourseSubmission>): Promise<CourseSubmission | null> {
+    const submission = await submissions.findById(id);
+    if (!submission) return null;
+
+    const updatedSubmission = {
+      ...submission,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return submissions.save(updatedSubmission);
+  }
+
+  static async deleteByCourse(courseId: string): Promise<number> {
+    const owned = await submissions.find(submission => submission.courseId === courseId);
+    for (const submission of owned) {
+      await submissions.delete(submission.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { DataExport, DataExportStatus } from '../types/data-export.types';
+import { db } from '../database';
+
+const dataExports = db.collection<DataExport>('data_exports');
+
+export class DataExportModel {
+  static async create(exportData: Omit<DataExport, 'id' | 'createdAt' | 'updatedAt'>): Promise<DataExport> {
+    const id = `export_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const dataExport: DataExport = {
+      id,
+      ...exportData,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return dataExports.save(dataExport);
+  }
+
+  static async findById(id: string): Promise<DataExport | null> {
+    return dataExports.findById(id);
+  }
+
+  // Newest first
+  static async findByUser(userId: string): Promise<DataExport[]> {
+    const exports = await dataExports.find(dataExport => dataExport.userId === userId);
+    return exports.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  // Exports that are still being assembled, ignoring any started before `since` (a job that died)
+  static async findInProgressByUser(userId: string, since: Date): Promise<DataExport | null> {
+    return dataExports.findOne(dataExport =>
+      dataExport.userId === userId &&
+      (dataExport.status === DataExportStatus.PENDING || dataExport.status === DataExportStatus.PROCESSING) &&
+      dataExport.createdAt > since
+    );
+  }
+
+  // Completed exports whose download link has run out; their archives are still on disk
+  static async findExpired(now: Date): Promise<DataExport[]> {
+    return dataExports.find(dataExport =>
+      dataExport.status === DataExportStatus.COMPLETED && !!dataExport.expiresAt && dataExport.expiresAt <= now
+    );
+  }
+
+  static async update(id: string, updates: Partial<DataExport>): Promise<DataExport | null> {
+    const dataExport = await dataExports.findById(id);
+    if (!dataExport) return null;
+
+    const updatedExport = {
+      ...dataExport,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return dataExports.save(updatedExport);
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const owned = await dataExports.find(dataExport => dataExport.userId === userId);
+    for (const dataExport of owned) {
+      await dataExports.delete(dataExport.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { InstructorApplication, InstructorApplicationStatus } from '../types/instructor.types';
+import { db } from '../database';
+
+const applications = db.collection<InstructorApplication>('instructor_applications');
+
+export class InstructorApplicationModel {
+  static async create(
+    applicationData: Omit<InstructorApplication, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+  ): Promise<InstructorApplication> {
+    const id = `application_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const application: InstructorApplication = {
+      id,
+      ...applicationData,
+      status: InstructorApplicationStatus.PENDING,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return applications.save(application);
+  }
+
+  static async findById(id: string): Promise<InstructorApplication | null> {
+    return applications.findById(id);
+  }
+
+  static async findByUser(userId: string): Promise<InstructorApplication[]> {
+    const results = await applications.find(application => application.userId === userId);
+    return results.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  static async findPendingByUser(userId: string): Promise<InstructorApplication | null> {
+    return applications.findOne(application =>
+      application.userId === userId &&
+      application.status === InstructorApplicationStatus.PENDING
+    );
+  }
+
+  // Oldest first, so the review queue is worked in submission order
+  static async findAll(status?: InstructorApplicationStatus): Promise<InstructorApplication[]> {
+    const results = await applications.find(application => !status || application.status === status);
+    return results.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  static async update(id: string, updates: Partial<InstructorApplication>): Promise<InstructorApplication | null> {
+    const application = await applications.findById(id);
+    if (!application) return null;
+
+    const updatedApplication = {
+      ...application,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return applications.save(updatedApplication);
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const owned = await applications.find(application => application.userId === userId);
+    for (const application of owned) {
+      await applications.delete(application.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
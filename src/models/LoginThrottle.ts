@@ -0,0 +1,20 @@
+import { LoginThrottle, ThrottleScope } from '../types/auth.types';
+import { db } from '../database';
+
+const loginThrottles = db.collection<LoginThrottle>('login_throttles');
+
+const throttleId = (scope: ThrottleScope, key: string) => `${scope}:${key}`;
+
+export class LoginThrottleModel {
+  static async find(scope: ThrottleScope, key: string): Promise<LoginThrottle | null> {
+    return loginThrottles.findById(throttleId(scope, key));
+  }
+
+  static async save(throttle: Omit<LoginThrottle, 'id'>): Promise<LoginThrottle> {
+    return loginThrottles.save({ id: throttleId(throttle.scope, throttle.key), ...throttle });
+  }
+
+  static async clear(scope: ThrottleScope, key: string): Promise<boolean> {
+    return loginThrottles.delete(throttleId(scope, key));
+  }
+}
\ No newline at end of file
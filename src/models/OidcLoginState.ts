@@ -0,0 +1,28 @@
+import { OidcLoginState } from '../types/oidc.types';
+import { db } from '../database';
+
+const loginStates = db.collection<OidcLoginState>('oidc_login_states');
+
+export class OidcLoginStateModel {
+  static async create(stateData: Omit<OidcLoginState, 'createdAt'>): Promise<OidcLoginState> {
+    return loginStates.save({ ...stateData, createdAt: new Date() });
+  }
+
+  // States are single use: the record is removed as it is read
+  static async consume(id: string): Promise<OidcLoginState | null> {
+    const state = await loginStates.findById(id);
+    if (!state) return null;
+
+    await loginStates.delete(id);
+    return state.expiresAt > new Date() ? state : null;
+  }
+
+  static async deleteExpired(): Promise<number> {
+    const now = new Date();
+    const expired = await loginStates.find(state => state.expiresAt <= now);
+    for (const state of expired) {
+      await loginStates.delete(state.id);
+    }
+    return expired.length;
+  }
+}
\ No newline at end of file
@@ -1,7 +1,8 @@
-import { PaymentIntent, PaymentStatus } from '../types/payment.types';
+import { ANONYMIZED_USER_ID, PaymentIntent, PaymentStatus } from '../types/payment.types';
+import { db } from '../database';
 
-// In-memory storage for demo purposes
-const payments: Map<string, PaymentIntent> = new Map();
+// Backed by the store selected via DATABASE_URL (see database/index.ts)
+const payments = db.collection<PaymentIntent>('payments');
 
 export class PaymentModel {
   static async create(paymentData: Omit<PaymentIntent, 'id' | 'createdAt' | 'updatedAt'>): Promise<PaymentIntent> {
@@ -15,25 +16,19 @@ export class PaymentModel {
       updatedAt: now,
     };
     
-    payments.set(id, payment);
-    return payment;
+    return payments.save(payment);
   }
 
   static async findById(id: string): Promise<PaymentIntent | null> {
-    return payments.get(id) || null;
+    return payments.findById(id);
   }
 
   static async findByStripeId(stripePaymentIntentId: string): Promise<PaymentIntent | null> {
-    for (const payment of payments.values()) {
-      if (payment.stripePaymentIntentId === stripePaymentIntentId) {
-        return payment;
-      }
-    }
-    return null;
+    return payments.findOne(payment => payment.stripePaymentIntentId === stripePaymentIntentId);
   }
 
   static async update(id: string, updates: Partial<PaymentIntent>): Promise<PaymentIntent | null> {
-    const payment = payments.get(id);
+    const payment = await payments.findById(id);
     if (!payment) return null;
 
     const updatedPayment = {
@@ -42,33 +37,37 @@ export class PaymentModel {
       updatedAt: new Date(),
     };
 
-    payments.set(id, updatedPayment);
-    return updatedPayment;
+    return payments.save(updatedPayment);
   }
 
   static async findByUser(userId: string): Promise<PaymentIntent[]> {
-    return Array.from(payments.values()).filter(payment => payment.userId === userId);
+    return payments.find(payment => payment.userId === userId);
+  }
+
+  // Keeps amounts and Stripe references for accounting but detaches them from the person
+  static async anonymizeByUser(userId: string): Promise<number> {
+    const owned = await payments.find(payment => payment.userId === userId);
+    const now = new Date();
+    for (const payment of owned) {
+      await payments.save({ ...payment, userId: ANONYMIZED_USER_ID, anonymizedAt: now, updatedAt: now });
+    }
+    return owned.length;
   }
 
   static async findByCourse(courseId: string): Promise<PaymentIntent[]> {
-    return Array.from(payments.values()).filter(payment => payment.courseId === courseId);
+    return payments.find(payment => payment.courseId === courseId);
   }
 
   static async findSuccessfulPayment(userId: string, courseId: string): Promise<PaymentIntent | null> {
-    for (const payment of payments.values()) {
-      if (
-        payment.userId === userId &&
-        payment.courseId === courseId &&
-        payment.status === PaymentStatus.SUCCEEDED
-      ) {
-        return payment;
-      }
-    }
-    return null;
+    return payments.findOne(payment =>
+      payment.userId === userId &&
+      payment.courseId === courseId &&
+      payment.status === PaymentStatus.SUCCEEDED
+    );
   }
 
   static async getPaymentStats(instructorId?: string): Promise<any> {
-    let paymentList = Array.from(payments.values());
+    let paymentList = await payments.find();
 
     // If instructorId is provided, filter by instructor's courses
     // This would require joining with course data in a real implementation
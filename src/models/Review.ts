@@ -0,0 +1,63 @@
+import { Review, ReviewStatus } from '../types/review.types';
+import { db } from '../database';
+
+const reviews = db.collection<Review>('reviews');
+
+export class ReviewModel {
+  static async create(reviewData: Omit<Review, 'id' | 'status' | 'helpfulCount' | 'createdAt' | 'updatedAt'>): Promise<Review> {
+    const id = `review_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const review: Review = {
+      id,
+      ...reviewData,
+      status: ReviewStatus.PUBLISHED,
+      helpfulCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return reviews.save(review);
+  }
+
+  static async findById(id: string): Promise<Review | null> {
+    return reviews.findById(id);
+  }
+
+  static async findByCourse(courseId: string, status?: ReviewStatus): Promise<Review[]> {
+    return reviews.find(review => review.courseId === courseId && (!status || review.status === status));
+  }
+
+  static async findByCourseAndUser(courseId: string, userId: string): Promise<Review | null> {
+    return reviews.findOne(review => review.courseId === courseId && review.userId === userId);
+  }
+
+  static async findByUser(userId: string): Promise<Review[]> {
+    return reviews.find(review => review.userId === userId);
+  }
+
+  static async update(id: string, updates: Partial<Review>): Promise<Review | null> {
+    const review = await reviews.findById(id);
+    if (!review) return null;
+
+    const updatedReview = {
+      ...review,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return reviews.save(updatedReview);
+  }
+
+  static async removeReply(id: string): Promise<Review | null> {
+    const review = await reviews.findById(id);
+    if (!review) return null;
+
+    const { reply, ...rest } = review;
+    return reviews.save({ ...rest, updatedAt: new Date() });
+  }
+
+  static async delete(id: string): Promise<boolean> {
+    return reviews.delete(id);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { ReviewVote } from '../types/review.types';
+import { db } from '../database';
+
+// Stored under `${reviewId}:${userId}`, which makes voting twice impossible
+const reviewVotes = db.collection<ReviewVote>('review_votes');
+
+const voteId = (reviewId: string, userId: string) => `${reviewId}:${userId}`;
+
+export class ReviewVoteModel {
+  static async find(reviewId: string, userId: string): Promise<ReviewVote | null> {
+    return reviewVotes.findById(voteId(reviewId, userId));
+  }
+
+  static async create(reviewId: string, userId: string): Promise<ReviewVote> {
+    return reviewVotes.save({ id: voteId(reviewId, userId), reviewId, userId, createdAt: new Date() });
+  }
+
+  static async delete(reviewId: string, userId: string): Promise<boolean> {
+    return reviewVotes.delete(voteId(reviewId, userId));
+  }
+
+  static async findByUser(userId: string): Promise<ReviewVote[]> {
+    return reviewVotes.find(vote => vote.userId === userId);
+  }
+
+  static async deleteByReview(reviewId: string): Promise<number> {
+    const votes = await reviewVotes.find(vote => vote.reviewId === reviewId);
+    for (const vote of votes) {
+      await reviewVotes.delete(vote.id);
+    }
+    return votes.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { Session, SessionRevokedReason } from '../types/session.types';
+import { db } from '../database';
+
+const sessions = db.collection<Session>('sessions');
+
+export class SessionModel {
+  static async create(sessionData: Omit<Session, 'id' | 'createdAt' | 'updatedAt' | 'lastUsedAt'>): Promise<Session> {
+    const id = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const now = new Date();
+
+    const session: Session = {
+      id,
+      ...sessionData,
+      createdAt: now,
+      lastUsedAt: now,
+      updatedAt: now,
+    };
+
+    return sessions.save(session);
+  }
+
+  static async findById(id: string): Promise<Session | null> {
+    return sessions.findById(id);
+  }
+
+  static async findActiveByUser(userId: string): Promise<Session[]> {
+    const now = new Date();
+    return sessions.find(session =>
+      session.userId === userId &&
+      !session.revokedAt &&
+      session.expiresAt > now
+    );
+  }
+
+  static async update(id: string, updates: Partial<Session>): Promise<Session | null> {
+    const session = await sessions.findById(id);
+    if (!session) return null;
+
+    const updatedSession = {
+      ...session,
+      ...updates,
+      updatedAt: new Date(),
+    };
+
+    return sessions.save(updatedSession);
+  }
+
+  static async revoke(id: string, reason: SessionRevokedReason): Promise<boolean> {
+    const session = await sessions.findById(id);
+    if (!session || session.revokedAt) return false;
+
+    await SessionModel.update(id, { revokedAt: new Date(), revokedReason: reason });
+    return true;
+  }
+
+  static isActive(session: Session): boolean {
+    return !session.revokedAt && session.expiresAt > new Date();
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const owned = await sessions.find(session => session.userId === userId);
+    for (const session of owned) {
+      await sessions.delete(session.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
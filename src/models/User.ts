@@ -1,9 +1,8 @@
 import { User, UserPreferences, CourseProgress } from '../types/user.types';
-import { UserRole } from '../types/auth.types';
+import { db } from '../database';
 
-// In-memory storage for demo purposes
-// In production, this would be replaced with a proper database
-const users: Map<string, User> = new Map();
+// Backed by the store selected via DATABASE_URL (see database/index.ts)
+const users = db.collection<User>('users');
 
 export class UserModel {
   static async create(userData: Omit<User, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
@@ -17,25 +16,25 @@ export class UserModel {
       updatedAt: now,
     };
     
-    users.set(id, user);
-    return user;
+    return users.save(user);
   }
 
   static async findById(id: string): Promise<User | null> {
-    return users.get(id) || null;
+    return users.findById(id);
   }
 
   static async findByEmail(email: string): Promise<User | null> {
-    for (const user of users.values()) {
-      if (user.email === email) {
-        return user;
-      }
-    }
-    return null;
+    return users.findOne(user => user.email === email);
+  }
+
+  static async findByExternalIdentity(issuer: string, subject: string): Promise<User | null> {
+    return users.findOne(user =>
+      !!user.externalIdentities?.some(identity => identity.issuer === issuer && identity.subject === subject)
+    );
   }
 
   static async update(id: string, updates: Partial<User>): Promise<User | null> {
-    const user = users.get(id);
+    const user = await users.findById(id);
     if (!user) return null;
 
     const updatedUser = {
@@ -44,8 +43,29 @@ export class UserModel {
       updatedAt: new Date(),
     };
 
-    users.set(id, updatedUser);
-    return updatedUser;
+    return users.save(updatedUser);
+  }
+
+  // Lifting a suspension drops the field rather than leaving it undefined
+  static async reactivate(id: string): Promise<User | null> {
+    const user = await users.findById(id);
+    if (!user) return null;
+
+    const { suspension, ...rest } = user;
+    return users.save({ ...rest, updatedAt: new Date() });
+  }
+
+  // Cancelling a deletion request drops the field rather than leaving it undefined
+  static async cancelDeletion(id: string): Promise<User | null> {
+    const user = await users.findById(id);
+    if (!user) return null;
+
+    const { deletion, ...rest } = user;
+    return users.save({ ...rest, updatedAt: new Date() });
+  }
+
+  static async findDueForPurge(now: Date = new Date()): Promise<User[]> {
+    return users.find(user => !!user.deletion && user.deletion.purgeAfter <= now);
   }
 
   static async delete(id: string): Promise<boolean> {
@@ -53,12 +73,19 @@ export class UserModel {
   }
 
   static async findAll(filters?: any): Promise<User[]> {
-    let userList = Array.from(users.values());
+    let userList = await users.find();
 
     if (filters?.role) {
       userList = userList.filter(user => user.role === filters.role);
     }
 
+    if (filters?.status === 'pending_deletion') {
+      userList = userList.filter(user => !!user.deletion);
+    } else if (filters?.status) {
+      const suspended = filters.status === 'suspended';
+      userList = userList.filter(user => !!user.suspension === suspended);
+    }
+
     if (filters?.search) {
       const searchTerm = filters.search.toLowerCase();
       userList = userList.filter(user => 
@@ -72,7 +99,7 @@ export class UserModel {
   }
 
   static async updateProgress(userId: string, courseId: string, progress: Partial<CourseProgress>): Promise<boolean> {
-    const user = users.get(userId);
+    const user = await users.findById(userId);
     if (!user) return false;
 
     const existingProgressIndex = user.progress.findIndex(p => p.courseId === courseId);
@@ -94,7 +121,7 @@ export class UserModel {
     }
 
     user.updatedAt = new Date();
-    users.set(userId, user);
+    await users.save(user);
     return true;
   }
 
@@ -116,45 +143,4 @@ export class UserModel {
       },
     };
   }
-}
-
-// Initialize with some demo users
-const initializeUsers = async () => {
-  await UserModel.create({
-    email: 'admin@skillforge.com',
-    password: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', // password
-    firstName: 'Admin',
-    lastName: 'User',
-    role: UserRole.ADMIN,
-    bio: 'System administrator',
-    skills: ['Management', 'System Administration'],
-    preferences: UserModel.getDefaultPreferences(),
-    progress: [],
-  });
-
-  await UserModel.create({
-    email: 'instructor@skillforge.com',
-    password: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', // password
-    firstName: 'John',
-    lastName: 'Instructor',
-    role: UserRole.INSTRUCTOR,
-    bio: 'Experienced software developer and instructor',
-    skills: ['JavaScript', 'React', 'Node.js', 'Teaching'],
-    preferences: UserModel.getDefaultPreferences(),
-    progress: [],
-  });
-
-  await UserModel.create({
-    email: 'student@skillforge.com',
-    password: '$2a$10$92IXUNpkjO0rOQ5byMi.Ye4oKoEa3Ro9llC/.og/at2.uheWG/igi', // password
-    firstName: 'Jane',
-    lastName: 'Student',
-    role: UserRole.STUDENT,
-    bio: 'Aspiring web developer',
-    skills: ['HTML', 'CSS'],
-    preferences: UserModel.getDefaultPreferences(),
-    progress: [],
-  });
-};
-
-initializeUsers();
\ No newline at end of file
+}
\ No newline at end of file
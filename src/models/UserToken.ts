@@ -0,0 +1,60 @@
+import { UserToken, UserTokenType } from '../types/auth.types';
+import { db } from '../database';
+
+const userTokens = db.collection<UserToken>('user_tokens');
+
+export class UserTokenModel {
+  static async create(tokenData: Omit<UserToken, 'id' | 'createdAt'>): Promise<UserToken> {
+    const id = `token_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+    const token: UserToken = {
+      id,
+      ...tokenData,
+      createdAt: new Date(),
+    };
+
+    return userTokens.save(token);
+  }
+
+  // Unused and unexpired tokens only
+  static async findValid(type: UserTokenType, tokenHash: string): Promise<UserToken | null> {
+    const now = new Date();
+    return userTokens.findOne(token =>
+      token.type === type &&
+      token.tokenHash === tokenHash &&
+      !token.usedAt &&
+      token.expiresAt > now
+    );
+  }
+
+  static async markUsed(id: string): Promise<boolean> {
+    const token = await userTokens.findById(id);
+    if (!token || token.usedAt) return false;
+
+    await userTokens.save({ ...token, usedAt: new Date() });
+    return true;
+  }
+
+  // Spends every outstanding token of a type, e.g. older reset links once a new one is issued
+  static async invalidateForUser(userId: string, type: UserTokenType): Promise<number> {
+    const outstanding = await userTokens.find(token =>
+      token.userId === userId &&
+      token.type === type &&
+      !token.usedAt
+    );
+
+    const now = new Date();
+    for (const token of outstanding) {
+      await userTokens.save({ ...token, usedAt: now });
+    }
+    return outstanding.length;
+  }
+
+  static async deleteByUser(userId: string): Promise<number> {
+    const owned = await userTokens.find(token => token.userId === userId);
+    for (const token of owned) {
+      await userTokens.delete(token.id);
+    }
+    return owned.length;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,270 @@
+import { startTestApp, TestApp, ADMIN_EMAIL, INSTRUCTOR_EMAIL, STUDENT_EMAIL } from '../test/app';
+import { UserModel } from '../models/User';
+import { CourseModel } from '../models/Course';
+import { Permission } from '../types/permission.types';
+
+type Role = 'anonymous' | 'student' | 'instructor' | 'admin';
+
+interface RouteAccess {
+  method: string;
+  // `{course}` is replaced by a seeded course owned by the demo instructor
+  path: string;
+  allowed: Role[];
+  body?: unknown;
+  // The request ends or changes the caller's account, so it runs as a throwaway copy
+  fresh?: boolean;
+}
+
+const ROLES: Role[] = ['anonymous', 'student', 'instructor', 'admin'];
+const EVERYONE = ROLES;
+const SIGNED_IN: Role[] = ['student', 'instructor', 'admin'];
+const AUTHORS: Role[] = ['instructor', 'admin'];
+const ADMIN: Role[] = ['admin'];
+
+const EMAILS: Record<Exclude<Role, 'anonymous'>, string> = {
+  student: STUDENT_EMAIL,
+  instructor: INSTRUCTOR_EMAIL,
+  admin: ADMIN_EMAIL,
+};
+
+// Writes aim at ids that do not exist: a 404 still proves the request got past the gates
+const routes: RouteAccess[] = [
+  // Auth
+  { method: 'POST', path: '/api/auth/login', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/signup', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/refresh', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/forgot-password', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/reset-password', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/verify-email', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/unlock-account', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/login/2fa', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/auth/oidc/callback', allowed: EVERYONE, body: {} },
+  { method: 'GET', path: '/api/auth/profile', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/auth/logout', allowed: SIGNED_IN, fresh: true },
+  { method: 'POST', path: '/api/auth/change-password', allowed: SIGNED_IN, body: {} },
+  { method: 'GET', path: '/api/auth/sessions', allowed: SIGNED_IN },
+  { method: 'DELETE', path: '/api/auth/sessions/missing', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/auth/2fa/enable', allowed: SIGNED_IN, body: {} },
+  { method: 'POST', path: '/api/auth/2fa/disable', allowed: SIGNED_IN, body: {} },
+  { method: 'GET', path: '/api/auth/api-keys', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/auth/api-keys', allowed: SIGNED_IN, body: {} },
+  { method: 'DELETE', path: '/api/auth/api-keys/missing', allowed: SIGNED_IN },
+
+  // Own account
+  { method: 'GET', path: '/api/users/profile', allowed: SIGNED_IN },
+  { method: 'PUT', path: '/api/users/profile', allowed: SIGNED_IN, body: { bio: 'Updated' } },
+  { method: 'POST', path: '/api/users/avatar', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/users/progress', allowed: SIGNED_IN },
+  { method: 'PUT', path: '/api/users/progress/missing', allowed: SIGNED_IN, body: {} },
+  { method: 'GET', path: '/api/users/stats', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/users/courses', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/users/payments', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/users/export', allowed: SIGNED_IN, fresh: true },
+  { method: 'GET', path: '/api/users/export', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/users/export/missing', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/users/export/missing/download', allowed: EVERYONE },
+  { method: 'DELETE', path: '/api/users/account', allowed: SIGNED_IN, fresh: true },
+  { method: 'POST', path: '/api/users/account/restore', allowed: SIGNED_IN },
+
+  // User administration
+  { method: 'GET', path: '/api/users', allowed: ADMIN },
+  { method: 'GET', path: '/api/users/missing', allowed: ADMIN },
+  { method: 'GET', path: '/api/users/missing/enrollments', allowed: ADMIN },
+  { method: 'GET', path: '/api/users/missing/payments', allowed: ADMIN },
+  { method: 'PATCH', path: '/api/users/missing/role', allowed: ADMIN, body: { role: 'instructor' } },
+  { method: 'POST', path: '/api/users/missing/suspend', allowed: ADMIN, body: { reason: 'Testing' } },
+  { method: 'POST', path: '/api/users/missing/reactivate', allowed: ADMIN },
+  { method: 'POST', path: '/api/users/missing/password-reset', allowed: ADMIN },
+  { method: 'POST', path: '/api/users/missing/impersonate', allowed: ADMIN },
+  { method: 'POST', path: '/api/users/missing/unlock', allowed: ADMIN },
+
+  // Catalogue
+  { method: 'GET', path: '/api/courses', allowed: EVERYONE },
+  { method: 'GET', path: '/api/courses/search?q=javascript', allowed: EVERYONE },
+  { method: 'GET', path: '/api/courses/{course}', allowed: EVERYONE },
+  { method: 'GET', path: '/api/courses/{course}/modules', allowed: EVERYONE },
+  { method: 'GET', path: '/api/courses/{course}/reviews', allowed: EVERYONE },
+  { method: 'GET', path: '/api/courses/{course}/reviews/summary', allowed: EVERYONE },
+  { method: 'POST', path: '/api/courses/missing/enroll', allowed: SIGNED_IN },
+
+  // Reviews
+  { method: 'GET', path: '/api/courses/{course}/reviews/mine', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/courses/missing/reviews', allowed: SIGNED_IN, body: { rating: 5 } },
+  { method: 'PUT', path: '/api/courses/{course}/reviews/missing', allowed: SIGNED_IN, body: { rating: 4 } },
+  { method: 'DELETE', path: '/api/courses/{course}/reviews/missing', allowed: SIGNED_IN },
+  { method: 'PUT', path: '/api/courses/{course}/reviews/missing/reply', allowed: AUTHORS, body: { body: 'Thanks' } },
+  { method: 'DELETE', path: '/api/courses/{course}/reviews/missing/reply', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/{course}/reviews/missing/helpful', allowed: SIGNED_IN },
+  { method: 'DELETE', path: '/api/courses/{course}/reviews/missing/helpful', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/courses/{course}/reviews/missing/moderate', allowed: ADMIN, body: {} },
+
+  // Authoring
+  { method: 'GET', path: '/api/courses/instructor/courses', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses', allowed: AUTHORS, body: {} },
+  { method: 'PUT', path: '/api/courses/missing', allowed: AUTHORS, body: {} },
+  { method: 'DELETE', path: '/api/courses/missing', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/missing/publish', allowed: AUTHORS, body: {} },
+  { method: 'POST', path: '/api/courses/missing/thumbnail', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/missing/submit', allowed: AUTHORS, body: {} },
+  { method: 'POST', path: '/api/courses/missing/withdraw', allowed: AUTHORS },
+  { method: 'GET', path: '/api/courses/{course}/submissions', allowed: AUTHORS },
+  { method: 'GET', path: '/api/courses/{course}/draft', allowed: AUTHORS },
+  { method: 'GET', path: '/api/courses/{course}/draft/changes', allowed: AUTHORS },
+  { method: 'GET', path: '/api/courses/{course}/revisions', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/missing/revisions/1/rollback', allowed: AUTHORS, body: {} },
+  { method: 'POST', path: '/api/courses/missing/modules', allowed: AUTHORS, body: {} },
+  { method: 'PUT', path: '/api/courses/missing/modules/order', allowed: AUTHORS, body: {} },
+  { method: 'DELETE', path: '/api/courses/missing/modules/missing', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/missing/modules/missing/lessons', allowed: AUTHORS, body: {} },
+  { method: 'DELETE', path: '/api/courses/missing/modules/missing/lessons/missing', allowed: AUTHORS },
+  { method: 'POST', path: '/api/courses/missing/modules/missing/lessons/missing/files', allowed: AUTHORS },
+  { method: 'DELETE', path: '/api/courses/missing/modules/missing/lessons/missing/video', allowed: AUTHORS },
+
+  // Course review queue
+  { method: 'GET', path: '/api/course-reviews', allowed: ADMIN },
+  { method: 'GET', path: '/api/course-reviews/missing', allowed: SIGNED_IN },
+  { method: 'POST', path: '/api/course-reviews/missing/comments', allowed: SIGNED_IN, body: {} },
+  { method: 'POST', path: '/api/course-reviews/missing/approve', allowed: ADMIN, body: {} },
+  { method: 'POST', path: '/api/course-reviews/missing/reject', allowed: ADMIN, body: {} },
+
+  // Instructor applications
+  { method: 'POST', path: '/api/instructor-applications', allowed: ['student'], body: {} },
+  { method: 'GET', path: '/api/instructor-applications/mine', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/instructor-applications', allowed: ADMIN },
+  { method: 'GET', path: '/api/instructor-applications/missing', allowed: ADMIN },
+  { method: 'POST', path: '/api/instructor-applications/missing/approve', allowed: ADMIN, body: {} },
+  { method: 'POST', path: '/api/instructor-applications/missing/reject', allowed: ADMIN, body: {} },
+
+  // Payments
+  { method: 'POST', path: '/api/payments/webhook', allowed: EVERYONE, body: {} },
+  { method: 'POST', path: '/api/payments/create-intent', allowed: SIGNED_IN, body: {} },
+  { method: 'POST', path: '/api/payments/confirm', allowed: SIGNED_IN, body: {} },
+  { method: 'POST', path: '/api/payments/refund', allowed: SIGNED_IN, body: {} },
+  { method: 'GET', path: '/api/payments/history', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/payments/missing', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/payments/stats/overview', allowed: AUTHORS },
+
+  // AI
+  { method: 'POST', path: '/api/ai/tutor', allowed: SIGNED_IN, body: {} },
+  { method: 'POST', path: '/api/ai/quiz', allowed: SIGNED_IN, body: {} },
+  { method: 'GET', path: '/api/ai/chat-history', allowed: SIGNED_IN },
+  { method: 'DELETE', path: '/api/ai/chat-history', allowed: SIGNED_IN },
+  { method: 'GET', path: '/api/ai/usage-stats', allowed: ADMIN },
+
+  // Audit log
+  { method: 'GET', path: '/api/admin/audit', allowed: ADMIN },
+  { method: 'GET', path: '/api/admin/audit/export', allowed: ADMIN },
+  { method: 'GET', path: '/api/admin/audit/verify', allowed: ADMIN },
+];
+
+describe('route access', () => {
+  let app: TestApp;
+  let courseId: string;
+  const tokens = new Map<Role, string>();
+  let copies = 0;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    for (const [role, email] of Object.entries(EMAILS)) {
+      tokens.set(role as Role, await app.login(email));
+    }
+    const instructor = await UserModel.findByEmail(INSTRUCTOR_EMAIL);
+    [courseId] = (await CourseModel.findAll())
+      .filter(course => course.instructorId === instructor!.id)
+      .map(course => course.id) as [string];
+  });
+
+  afterAll(() => app.close());
+
+  beforeEach(() => {
+    // Routes that reach a missing upstream service log the failure
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  // Signs in as a new account with the same role as the seeded one
+  const freshToken = async (role: Exclude<Role, 'anonymous'>): Promise<string> => {
+    const { id, createdAt, updatedAt, ...account } = (await UserModel.findByEmail(EMAILS[role]))!;
+    const email = `${role}-copy-${++copies}@skillforge.com`;
+    await UserModel.create({ ...account, email, progress: [] });
+    return app.login(email);
+  };
+
+  const cases = routes.flatMap(route =>
+    ROLES.map(role => ({ name: `${route.method} ${route.path} as ${role}`, route, role }))
+  );
+
+  it.each(cases)('$name', async ({ route, role }) => {
+    const token = role === 'anonymous'
+      ? undefined
+      : route.fresh ? await freshToken(role) : tokens.get(role);
+
+    const response = await app.request(route.method, route.path.replace('{course}', courseId), {
+      ...(token ? { token } : {}),
+      ...(route.body !== undefined ? { body: route.body } : {}),
+    });
+
+    const denied = response.status === 401 || response.status === 403;
+    expect({ status: response.status, denied }).toEqual({ status: response.status, denied: !route.allowed.includes(role) });
+  });
+});
+
+// Routes an API key can call, each with the scope it needs
+const keyRoutes: { method: string; path: string; scope: Permission; body?: unknown }[] = [
+  { method: 'GET', path: '/api/auth/profile', scope: Permission.PROFILE_READ },
+  { method: 'GET', path: '/api/users/profile', scope: Permission.PROFILE_READ },
+  { method: 'GET', path: '/api/users/progress', scope: Permission.PROGRESS_READ },
+  { method: 'PUT', path: '/api/users/progress/missing', scope: Permission.PROGRESS_UPDATE, body: {} },
+  { method: 'GET', path: '/api/users/stats', scope: Permission.PROGRESS_READ },
+  { method: 'GET', path: '/api/users/courses', scope: Permission.PROGRESS_READ },
+  { method: 'GET', path: '/api/users/payments', scope: Permission.PAYMENT_READ_OWN },
+  { method: 'GET', path: '/api/users/export', scope: Permission.DATA_EXPORT_READ },
+  { method: 'GET', path: '/api/users/export/missing', scope: Permission.DATA_EXPORT_READ },
+  { method: 'GET', path: '/api/courses/{course}/reviews/mine', scope: Permission.REVIEW_CREATE },
+  { method: 'PUT', path: '/api/courses/{course}/reviews/missing', scope: Permission.REVIEW_UPDATE_OWN, body: { rating: 4 } },
+  { method: 'DELETE', path: '/api/courses/{course}/reviews/missing', scope: Permission.REVIEW_DELETE_OWN },
+  { method: 'POST', path: '/api/courses/{course}/reviews/missing/helpful', scope: Permission.REVIEW_VOTE },
+  { method: 'DELETE', path: '/api/courses/{course}/reviews/missing/helpful', scope: Permission.REVIEW_VOTE },
+  { method: 'GET', path: '/api/instructor-applications/mine', scope: Permission.INSTRUCTOR_APPLICATION_READ_OWN },
+];
+
+describe('API key scopes', () => {
+  let app: TestApp;
+  let courseId: string;
+  let narrowKey: string;
+  let scopedKey: string;
+
+  beforeAll(async () => {
+    app = await startTestApp();
+    [courseId] = (await CourseModel.findAll()).map(course => course.id) as [string];
+
+    const token = await app.login(STUDENT_EMAIL);
+    const createKey = async (scopes: Permission[]): Promise<string> => {
+      const response = await app.request('POST', '/api/auth/api-keys', { token, body: { name: 'Test key', scopes } });
+      return response.body.data.key;
+    };
+    narrowKey = await createKey([Permission.COURSE_ENROLL]);
+    scopedKey = await createKey([...new Set(keyRoutes.map(route => route.scope))]);
+  });
+
+  afterAll(() => app.close());
+
+  const send = (route: typeof keyRoutes[number], key: string) =>
+    app.request(route.method, route.path.replace('{course}', courseId), {
+      headers: { 'x-api-key': key },
+      ...(route.body !== undefined ? { body: route.body } : {}),
+    });
+
+  it.each(keyRoutes)('$method $path refuses a key without $scope', async (route) => {
+    expect((await send(route, narrowKey)).status).toBe(403);
+  });
+
+  it.each(keyRoutes)('$method $path accepts a key with $scope', async (route) => {
+    expect([401, 403]).not.toContain((await send(route, scopedKey)).status);
+  });
+
+  it('keeps keys away from the verification email', async () => {
+    expect((await app.request('POST', '/api/auth/resend-verification', { headers: { 'x-api-key': narrowKey } })).status).toBe(403);
+  });
+});
\ No newline at end of file
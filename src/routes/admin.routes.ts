@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/audit.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+import { validateQuery } from '../middleware/validation.middleware';
+import { auditQuerySchema } from '../utils/validation.utils';
+import { Permission } from '../types/permission.types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Audit log
+router.get('/audit', requirePermission(Permission.AUDIT_READ), validateQuery(auditQuerySchema), AuditController.getEvents);
+router.get('/audit/export', requirePermission(Permission.AUDIT_READ), validateQuery(auditQuerySchema), AuditController.exportEvents);
+router.get('/audit/verify', requirePermission(Permission.AUDIT_READ), AuditController.verifyChain);
+
+export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { AIController } from '../controllers/ai.controller';
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
 import { validateBody } from '../middleware/validation.middleware';
 import {
   tutorRequestSchema,
@@ -8,12 +8,12 @@ import {
   summaryRequestSchema,
   quizGenerationSchema,
 } from '../utils/validation.utils';
-import { UserRole } from '../types/auth.types';
+import { Permission } from '../types/permission.types';
 
 const router = Router();
 
 // All routes require authentication
-router.use(authenticate);
+router.use(authenticate, requirePermission(Permission.AI_USE));
 
 // AI-powered features
 router.post('/tutor', validateBody(tutorRequestSchema), AIController.askTutor);
@@ -27,6 +27,6 @@ router.delete('/chat-history', AIController.clearChatHistory);
 router.get('/recommendations', AIController.getRecommendations);
 
 // Admin-only routes
-router.get('/usage-stats', authorize(UserRole.ADMIN), AIController.getUsageStats);
+router.get('/usage-stats', requirePermission(Permission.AI_USAGE_READ), AIController.getUsageStats);
 
 export default router;
\ No newline at end of file
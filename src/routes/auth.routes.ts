@@ -1,23 +1,93 @@
 import { Router } from 'express';
+import rateLimit from 'express-rate-limit';
 import { AuthController } from '../controllers/auth.controller';
-import { validateBody } from '../middleware/validation.middleware';
-import { authenticate } from '../middleware/auth.middleware';
+import { TwoFactorController } from '../controllers/two-factor.controller';
+import { ApiKeyController } from '../controllers/api-key.controller';
+import { OidcController } from '../controllers/oidc.controller';
+import { validateBody, validateParams } from '../middleware/validation.middleware';
+import { authenticate, authenticateAllowingPendingDeletion, requirePermission, requireSession, forbidImpersonation } from '../middleware/auth.middleware';
+import { config } from '../config/env';
+import { RequestWithUser } from '../types/api.types';
+import { Permission } from '../types/permission.types';
 import {
   loginSchema,
   signupSchema,
   refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  unlockAccountSchema,
+  oidcCallbackSchema,
+  twoFactorLoginSchema,
+  twoFactorChallengeSchema,
+  twoFactorChallengeEnableSchema,
+  twoFactorCodeSchema,
+  twoFactorDisableSchema,
+  createApiKeySchema,
+  idParamSchema,
 } from '../utils/validation.utils';
 
 const router = Router();
 
+// Reset emails are limited per address, on top of the global per-IP limiter
+const passwordResetLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: config.passwordReset.maxRequestsPerHour,
+  keyGenerator: (req) => String(req.body.email).toLowerCase(),
+  message: {
+    success: false,
+    error: 'Too many password reset requests for this email, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
+const verificationEmailLimiter = rateLimit({
+  windowMs: 60 * 60 * 1000,
+  max: 5,
+  keyGenerator: (req) => (req as RequestWithUser).user?.userId || req.ip || '',
+  message: {
+    success: false,
+    error: 'Too many verification emails requested, please try again later.',
+  },
+  standardHeaders: true,
+  legacyHeaders: false,
+});
+
 // Public routes
 router.post('/login', validateBody(loginSchema), AuthController.login);
+router.post('/login/2fa', validateBody(twoFactorLoginSchema), TwoFactorController.verifyLogin);
+router.post('/login/2fa/setup', validateBody(twoFactorChallengeSchema), TwoFactorController.setupWithChallenge);
+router.post('/login/2fa/enable', validateBody(twoFactorChallengeEnableSchema), TwoFactorController.enableWithChallenge);
+router.get('/oidc/authorize', OidcController.authorize);
+router.post('/oidc/callback', validateBody(oidcCallbackSchema), OidcController.callback);
 router.post('/signup', validateBody(signupSchema), AuthController.signup);
 router.post('/refresh', validateBody(refreshTokenSchema), AuthController.refreshToken);
+router.post('/forgot-password', validateBody(forgotPasswordSchema), passwordResetLimiter, AuthController.forgotPassword);
+router.post('/reset-password', validateBody(resetPasswordSchema), AuthController.resetPassword);
+router.post('/verify-email', validateBody(verifyEmailSchema), AuthController.verifyEmail);
+router.post('/unlock-account', validateBody(unlockAccountSchema), AuthController.unlockAccount);
 
 // Protected routes
-router.get('/profile', authenticate, AuthController.getProfile);
-router.post('/logout', authenticate, AuthController.logout);
-router.post('/change-password', authenticate, AuthController.changePassword);
+router.get('/profile', authenticate, requirePermission(Permission.PROFILE_READ), AuthController.getProfile);
+router.post('/logout', authenticateAllowingPendingDeletion, requireSession, AuthController.logout);
+router.post('/change-password', authenticate, requireSession, forbidImpersonation, AuthController.changePassword);
+router.post('/resend-verification', authenticate, requireSession, verificationEmailLimiter, AuthController.resendVerification);
+
+// Session management (not available to API keys; impersonators can only look)
+router.get('/sessions', authenticate, requireSession, AuthController.getSessions);
+router.delete('/sessions', authenticate, requireSession, forbidImpersonation, AuthController.revokeOtherSessions);
+router.delete('/sessions/:id', authenticate, requireSession, forbidImpersonation, validateParams(idParamSchema), AuthController.revokeSession);
+
+// Two-factor authentication
+router.post('/2fa/setup', authenticate, requireSession, forbidImpersonation, TwoFactorController.setup);
+router.post('/2fa/enable', authenticate, requireSession, forbidImpersonation, validateBody(twoFactorCodeSchema), TwoFactorController.enable);
+router.post('/2fa/disable', authenticate, requireSession, forbidImpersonation, validateBody(twoFactorDisableSchema), TwoFactorController.disable);
+router.post('/2fa/recovery-codes', authenticate, requireSession, forbidImpersonation, validateBody(twoFactorCodeSchema), TwoFactorController.regenerateRecoveryCodes);
+
+// API keys for integrations; managing them requires the account holder's own login
+router.get('/api-keys', authenticate, requireSession, forbidImpersonation, ApiKeyController.listKeys);
+router.post('/api-keys', authenticate, requireSession, forbidImpersonation, validateBody(createApiKeySchema), ApiKeyController.createKey);
+router.delete('/api-keys/:id', authenticate, requireSession, forbidImpersonation, validateParams(idParamSchema), ApiKeyController.revokeKey);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { CourseReviewController } from '../controllers/course-review.controller';
+import { authenticate, requirePermission } from '../middleware/auth.middleware';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
+import {
+  reviewCourseSchema,
+  reviewCommentSchema,
+  courseReviewQuerySchema,
+  idParamSchema,
+} from '../utils/validation.utils';
+import { Permission } from '../types/permission.types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Reviewers and the course's instructor
+router.get('/:id', validateParams(idParamSchema), CourseReviewController.getSubmission);
+router.post('/:id/comments', validateParams(idParamSchema), validateBody(reviewCommentSchema), CourseReviewController.addComment);
+
+// Admin review queue
+router.get('/', requirePermission(Permission.COURSE_REVIEW), validateQuery(courseReviewQuerySchema), CourseReviewController.getQueue);
+router.post('/:id/approve', requirePermission(Permission.COURSE_REVIEW), validateParams(idParamSchema), validateBody(reviewCourseSchema), CourseReviewController.approveSubmission);
+router.post('/:id/reject', requirePermission(Permission.COURSE_REVIEW), validateParams(idParamSchema), validateBody(reviewCourseSchema), CourseReviewController.rejectSubmission);
+
+export default router;
\ No newline at end of file
@@ -1,36 +1,77 @@
 import { Router } from 'express';
 import { CourseController } from '../controllers/course.controller';
-import { authenticate, authorize, requireInstructorOrAdmin, optionalAuth } from '../middleware/auth.middleware';
+import { CurriculumController } from '../controllers/curriculum.controller';
+import { CourseRevisionController } from '../controllers/course-revision.controller';
+import { CourseReviewController } from '../controllers/course-review.controller';
+import { ReviewController } from '../controllers/review.controller';
+import { authenticate, requirePermission, optionalAuth, requireVerifiedEmail } from '../middleware/auth.middleware';
 import { validateBody, validateParams, validateQuery, validateFile } from '../middleware/validation.middleware';
-import { uploadThumbnail, handleUploadError } from '../middleware/upload.middleware';
+import { uploadThumbnail, uploadLessonFiles, lessonFileLimits, handleUploadError } from '../middleware/upload.middleware';
 import {
   createCourseSchema,
   updateCourseSchema,
   paginationSchema,
+  courseListQuerySchema,
+  courseSearchQuerySchema,
   idParamSchema,
+  moduleParamSchema,
+  lessonParamSchema,
+  resourceParamSchema,
+  createModuleSchema,
+  updateModuleSchema,
+  createLessonSchema,
+  updateLessonSchema,
+  reorderModulesSchema,
+  reorderLessonsSchema,
+  publishCourseSchema,
+  revisionParamSchema,
+  revisionDiffQuerySchema,
+  submitCourseSchema,
+  reviewParamSchema,
+  createReviewSchema,
+  updateReviewSchema,
+  reviewReplySchema,
+  moderateReviewSchema,
+  reviewQuerySchema,
 } from '../utils/validation.utils';
-import { UserRole } from '../types/auth.types';
+import { Permission } from '../types/permission.types';
 
 const router = Router();
 
 // Public routes (with optional authentication)
-router.get('/', optionalAuth, validateQuery(paginationSchema), CourseController.getAllCourses);
-router.get('/search', optionalAuth, validateQuery(paginationSchema), CourseController.searchCourses);
+router.get('/', optionalAuth, validateQuery(courseListQuerySchema), CourseController.getAllCourses);
+router.get('/search', optionalAuth, validateQuery(courseSearchQuerySchema), CourseController.searchCourses);
 router.get('/:id', optionalAuth, validateParams(idParamSchema), CourseController.getCourseById);
+router.get('/:id/modules', optionalAuth, validateParams(idParamSchema), CurriculumController.getModules);
+router.get('/:id/modules/:moduleId', optionalAuth, validateParams(moduleParamSchema), CurriculumController.getModule);
+router.get('/:id/modules/:moduleId/lessons/:lessonId', optionalAuth, validateParams(lessonParamSchema), CurriculumController.getLesson);
+router.get('/:id/reviews', optionalAuth, validateParams(idParamSchema), validateQuery(reviewQuerySchema), ReviewController.getReviews);
+router.get('/:id/reviews/summary', optionalAuth, validateParams(idParamSchema), ReviewController.getRatingSummary);
 
 // Protected routes - require authentication
 router.use(authenticate);
 
 // Student routes
-router.post('/:id/enroll', validateParams(idParamSchema), CourseController.enrollInCourse);
+router.post('/:id/enroll', requirePermission(Permission.COURSE_ENROLL), requireVerifiedEmail, validateParams(idParamSchema), CourseController.enrollInCourse);
+
+// Student reviews: enrolled students post one review per course, anyone signed in can vote it helpful
+router.get('/:id/reviews/mine', requirePermission(Permission.REVIEW_CREATE), validateParams(idParamSchema), ReviewController.getMyReview);
+router.post('/:id/reviews', requirePermission(Permission.REVIEW_CREATE), validateParams(idParamSchema), validateBody(createReviewSchema), ReviewController.createReview);
+router.put('/:id/reviews/:reviewId', requirePermission(Permission.REVIEW_UPDATE_OWN), validateParams(reviewParamSchema), validateBody(updateReviewSchema), ReviewController.updateReview);
+router.delete('/:id/reviews/:reviewId', requirePermission(Permission.REVIEW_DELETE_OWN), validateParams(reviewParamSchema), ReviewController.deleteReview);
+router.put('/:id/reviews/:reviewId/reply', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(reviewParamSchema), validateBody(reviewReplySchema), ReviewController.replyToReview);
+router.delete('/:id/reviews/:reviewId/reply', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(reviewParamSchema), ReviewController.deleteReply);
+router.post('/:id/reviews/:reviewId/helpful', requirePermission(Permission.REVIEW_VOTE), validateParams(reviewParamSchema), ReviewController.markHelpful);
+router.delete('/:id/reviews/:reviewId/helpful', requirePermission(Permission.REVIEW_VOTE), validateParams(reviewParamSchema), ReviewController.unmarkHelpful);
+router.post('/:id/reviews/:reviewId/moderate', requirePermission(Permission.REVIEW_MODERATE), validateParams(reviewParamSchema), validateBody(moderateReviewSchema), ReviewController.moderateReview);
 
 // Instructor/Admin routes
-router.post('/', requireInstructorOrAdmin, validateBody(createCourseSchema), CourseController.createCourse);
-router.put('/:id', requireInstructorOrAdmin, validateParams(idParamSchema), validateBody(updateCourseSchema), CourseController.updateCourse);
-router.delete('/:id', requireInstructorOrAdmin, validateParams(idParamSchema), CourseController.deleteCourse);
-router.post('/:id/publish', requireInstructorOrAdmin, validateParams(idParamSchema), CourseController.publishCourse);
+router.post('/', requirePermission(Permission.COURSE_CREATE), validateBody(createCourseSchema), CourseController.createCourse);
+router.put('/:id', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), validateBody(updateCourseSchema), CourseController.updateCourse);
+router.delete('/:id', requirePermission(Permission.COURSE_DELETE_OWN), validateParams(idParamSchema), CourseController.deleteCourse);
+router.post('/:id/publish', requirePermission(Permission.COURSE_PUBLISH_OWN), validateParams(idParamSchema), validateBody(publishCourseSchema), CourseController.publishCourse);
 router.post('/:id/thumbnail', 
-  requireInstructorOrAdmin, 
+  requirePermission(Permission.COURSE_UPDATE_OWN), 
   validateParams(idParamSchema), 
   uploadThumbnail, 
   validateFile({
@@ -43,7 +84,51 @@ router.post('/:id/thumbnail',
   CourseController.uploadCourseThumbnail
 );
 
+// Review: instructors submit the draft and publish once a reviewer has approved it
+router.post('/:id/submit', requirePermission(Permission.COURSE_PUBLISH_OWN), validateParams(idParamSchema), validateBody(submitCourseSchema), CourseReviewController.submitCourse);
+router.post('/:id/withdraw', requirePermission(Permission.COURSE_PUBLISH_OWN), validateParams(idParamSchema), CourseReviewController.withdrawSubmission);
+router.get('/:id/submissions', validateParams(idParamSchema), CourseReviewController.getCourseSubmissions);
+
+// Drafts and revision history; edits go to the draft and only reach students when published
+router.get('/:id/draft', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), CourseRevisionController.getDraft);
+router.get('/:id/draft/changes', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), CourseRevisionController.getDraftChanges);
+router.get('/:id/revisions', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), CourseRevisionController.getRevisions);
+router.get('/:id/revisions/:revision', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(revisionParamSchema), CourseRevisionController.getRevision);
+router.get('/:id/revisions/:revision/diff', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(revisionParamSchema), validateQuery(revisionDiffQuerySchema), CourseRevisionController.getRevisionDiff);
+router.post('/:id/revisions/:revision/rollback', requirePermission(Permission.COURSE_PUBLISH_OWN), validateParams(revisionParamSchema), validateBody(publishCourseSchema), CourseRevisionController.rollback);
+
+// Curriculum editing; the reorder routes come before /:moduleId and /:lessonId so "order" is not taken as an id
+router.post('/:id/modules', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), validateBody(createModuleSchema), CurriculumController.createModule);
+router.put('/:id/modules/order', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(idParamSchema), validateBody(reorderModulesSchema), CurriculumController.reorderModules);
+router.put('/:id/modules/:moduleId', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(moduleParamSchema), validateBody(updateModuleSchema), CurriculumController.updateModule);
+router.delete('/:id/modules/:moduleId', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(moduleParamSchema), CurriculumController.deleteModule);
+router.post('/:id/modules/:moduleId/lessons', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(moduleParamSchema), validateBody(createLessonSchema), CurriculumController.createLesson);
+router.put('/:id/modules/:moduleId/lessons/order', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(moduleParamSchema), validateBody(reorderLessonsSchema), CurriculumController.reorderLessons);
+router.put('/:id/modules/:moduleId/lessons/:lessonId', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(lessonParamSchema), validateBody(updateLessonSchema), CurriculumController.updateLesson);
+router.delete('/:id/modules/:moduleId/lessons/:lessonId', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(lessonParamSchema), CurriculumController.deleteLesson);
+
+// Lesson files; an uploaded video replaces the current one, resources are added to the list
+router.post('/:id/modules/:moduleId/lessons/:lessonId/files',
+  requirePermission(Permission.COURSE_UPDATE_OWN),
+  validateParams(lessonParamSchema),
+  uploadLessonFiles,
+  validateFile({
+    maxSize: lessonFileLimits.video,
+    allowedTypes: ['video/mp4', 'video/webm', 'video/quicktime'],
+    fieldName: 'video'
+  }),
+  validateFile({
+    maxSize: lessonFileLimits.resources,
+    allowedTypes: ['application/pdf', 'application/zip', 'text/plain', 'text/csv', 'text/markdown', 'image/jpeg', 'image/png'],
+    fieldName: 'resources'
+  }),
+  handleUploadError,
+  CurriculumController.uploadLessonFiles
+);
+router.delete('/:id/modules/:moduleId/lessons/:lessonId/video', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(lessonParamSchema), CurriculumController.removeLessonVideo);
+router.delete('/:id/modules/:moduleId/lessons/:lessonId/resources/:resourceId', requirePermission(Permission.COURSE_UPDATE_OWN), validateParams(resourceParamSchema), CurriculumController.removeLessonResource);
+
 // Instructor dashboard
-router.get('/instructor/courses', authorize(UserRole.INSTRUCTOR, UserRole.ADMIN), validateQuery(paginationSchema), CourseController.getInstructorCourses);
+router.get('/instructor/courses', requirePermission(Permission.COURSE_LIST_OWN), validateQuery(paginationSchema), CourseController.getInstructorCourses);
 
 export default router;
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { InstructorApplicationController } from '../controllers/instructor-application.controller';
+import { authenticate, requirePermission, requireVerifiedEmail } from '../middleware/auth.middleware';
+import { validateBody, validateParams, validateQuery } from '../middleware/validation.middleware';
+import {
+  instructorApplicationSchema,
+  reviewApplicationSchema,
+  applicationQuerySchema,
+  idParamSchema,
+} from '../utils/validation.utils';
+import { Permission } from '../types/permission.types';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Applicant routes
+router.post('/', requirePermission(Permission.INSTRUCTOR_APPLICATION_CREATE), requireVerifiedEmail, validateBody(instructorApplicationSchema), InstructorApplicationController.submitApplication);
+router.get('/mine', requirePermission(Permission.INSTRUCTOR_APPLICATION_READ_OWN), InstructorApplicationController.getMyApplications);
+
+// Admin review queue
+router.get('/', requirePermission(Permission.INSTRUCTOR_APPLICATION_REVIEW), validateQuery(applicationQuerySchema), InstructorApplicationController.getApplications);
+router.get('/:id', requirePermission(Permission.INSTRUCTOR_APPLICATION_REVIEW), validateParams(idParamSchema), InstructorApplicationController.getApplicationById);
+router.post('/:id/approve', requirePermission(Permission.INSTRUCTOR_APPLICATION_REVIEW), validateParams(idParamSchema), validateBody(reviewApplicationSchema), InstructorApplicationController.approveApplication);
+router.post('/:id/reject', requirePermission(Permission.INSTRUCTOR_APPLICATION_REVIEW), validateParams(idParamSchema), validateBody(reviewApplicationSchema), InstructorApplicationController.rejectApplication);
+
+export default router;
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { Router } from 'express';
 import { PaymentController } from '../controllers/payment.controller';
-import { authenticate, authorize } from '../middleware/auth.middleware';
+import { authenticate, requirePermission, requireVerifiedEmail, forbidImpersonation } from '../middleware/auth.middleware';
 import { validateBody, validateParams } from '../middleware/validation.middleware';
 import {
   createPaymentIntentSchema,
@@ -8,7 +8,7 @@ import {
   refundSchema,
   idParamSchema,
 } from '../utils/validation.utils';
-import { UserRole } from '../types/auth.types';
+import { Permission } from '../types/permission.types';
 
 const router = Router();
 
@@ -19,15 +19,15 @@ router.post('/webhook', PaymentController.handleWebhook);
 router.use(authenticate);
 
 // Payment processing routes
-router.post('/create-intent', validateBody(createPaymentIntentSchema), PaymentController.createPaymentIntent);
-router.post('/confirm', validateBody(confirmPaymentSchema), PaymentController.confirmPayment);
-router.post('/refund', validateBody(refundSchema), PaymentController.refundPayment);
+router.post('/create-intent', forbidImpersonation, requirePermission(Permission.PAYMENT_CREATE), requireVerifiedEmail, validateBody(createPaymentIntentSchema), PaymentController.createPaymentIntent);
+router.post('/confirm', forbidImpersonation, requirePermission(Permission.PAYMENT_CREATE), requireVerifiedEmail, validateBody(confirmPaymentSchema), PaymentController.confirmPayment);
+router.post('/refund', forbidImpersonation, requirePermission(Permission.PAYMENT_REFUND_OWN), validateBody(refundSchema), PaymentController.refundPayment);
 
 // Payment history and details
-router.get('/history', PaymentController.getPaymentHistory);
-router.get('/:id', validateParams(idParamSchema), PaymentController.getPaymentDetails);
+router.get('/history', requirePermission(Permission.PAYMENT_READ_OWN), PaymentController.getPaymentHistory);
+router.get('/:id', requirePermission(Permission.PAYMENT_READ_OWN), validateParams(idParamSchema), PaymentController.getPaymentDetails);
 
 // Payment stats (instructor/admin only)
-router.get('/stats/overview', authorize(UserRole.INSTRUCTOR, UserRole.ADMIN), PaymentController.getPaymentStats);
+router.get('/stats/overview', requirePermission(Permission.PAYMENT_STATS_OWN), PaymentController.getPaymentStats);
 
 export default router;
\ No newline at end of file
@@ -1,19 +1,39 @@
 import { Router } from 'express';
 import { UserController } from '../controllers/user.controller';
-import { authenticate, requireOwnership } from '../middleware/auth.middleware';
-import { validateBody, validateQuery, validateFile } from '../middleware/validation.middleware';
+import { DataExportController } from '../controllers/data-export.controller';
+import { authenticate, authenticateAllowingPendingDeletion, optionalAuth, requirePermission, requireSession, forbidImpersonation } from '../middleware/auth.middleware';
+import { validateBody, validateParams, validateQuery, validateFile } from '../middleware/validation.middleware';
 import { uploadAvatar, handleUploadError } from '../middleware/upload.middleware';
-import { updateUserSchema, paginationSchema } from '../utils/validation.utils';
+import {
+  updateUserSchema,
+  paginationSchema,
+  idParamSchema,
+  userListQuerySchema,
+  changeUserRoleSchema,
+  suspendUserSchema,
+  dataExportDownloadSchema,
+} from '../utils/validation.utils';
+import { Permission } from '../types/permission.types';
 
 const router = Router();
 
-// All routes require authentication
+// The emailed download link works without signing in; the token in it is the credential
+router.get('/export/:id/download', optionalAuth, forbidImpersonation, validateParams(idParamSchema), validateQuery(dataExportDownloadSchema), DataExportController.downloadExport);
+
+// An account awaiting deletion can still take its data with it and restore itself
+router.post('/export', authenticateAllowingPendingDeletion, requireSession, forbidImpersonation, DataExportController.requestExport);
+router.get('/export', authenticateAllowingPendingDeletion, requirePermission(Permission.DATA_EXPORT_READ), DataExportController.getExports);
+router.get('/export/:id', authenticateAllowingPendingDeletion, requirePermission(Permission.DATA_EXPORT_READ), validateParams(idParamSchema), DataExportController.getExport);
+router.post('/account/restore', authenticateAllowingPendingDeletion, requireSession, forbidImpersonation, UserController.restoreAccount);
+
+// All other routes require authentication
 router.use(authenticate);
 
 // User profile routes
-router.get('/profile', UserController.getProfile);
-router.put('/profile', validateBody(updateUserSchema), UserController.updateProfile);
+router.get('/profile', requirePermission(Permission.PROFILE_READ), UserController.getProfile);
+router.put('/profile', requireSession, validateBody(updateUserSchema), UserController.updateProfile);
 router.post('/avatar', 
+  requireSession,
   uploadAvatar, 
   validateFile({
     required: true,
@@ -26,15 +46,27 @@ router.post('/avatar',
 );
 
 // User progress and stats
-router.get('/progress', UserController.getProgress);
-router.put('/progress/:courseId', UserController.updateProgress);
-router.get('/stats', UserController.getStats);
+router.get('/progress', requirePermission(Permission.PROGRESS_READ), UserController.getProgress);
+router.put('/progress/:courseId', requirePermission(Permission.PROGRESS_UPDATE), UserController.updateProgress);
+router.get('/stats', requirePermission(Permission.PROGRESS_READ), UserController.getStats);
 
 // User courses and payments
-router.get('/courses', validateQuery(paginationSchema), UserController.getEnrolledCourses);
-router.get('/payments', validateQuery(paginationSchema), UserController.getPaymentHistory);
+router.get('/courses', requirePermission(Permission.PROGRESS_READ), validateQuery(paginationSchema), UserController.getEnrolledCourses);
+router.get('/payments', requirePermission(Permission.PAYMENT_READ_OWN), validateQuery(paginationSchema), UserController.getPaymentHistory);
 
 // Account management
-router.delete('/account', UserController.deleteAccount);
+router.delete('/account', requireSession, forbidImpersonation, UserController.deleteAccount);
+
+// Admin user management; registered after the /profile-style routes so :id cannot shadow them
+router.get('/', requirePermission(Permission.USER_READ_ANY), validateQuery(userListQuerySchema), UserController.listUsers);
+router.get('/:id', requirePermission(Permission.USER_READ_ANY), validateParams(idParamSchema), UserController.getUserById);
+router.get('/:id/enrollments', requirePermission(Permission.USER_READ_ANY), validateParams(idParamSchema), validateQuery(paginationSchema), UserController.getUserEnrollments);
+router.get('/:id/payments', requirePermission(Permission.USER_READ_ANY), validateParams(idParamSchema), validateQuery(paginationSchema), UserController.getUserPayments);
+router.patch('/:id/role', requirePermission(Permission.USER_UPDATE_ROLE_ANY), validateParams(idParamSchema), validateBody(changeUserRoleSchema), UserController.changeRole);
+router.post('/:id/suspend', requirePermission(Permission.USER_SUSPEND_ANY), validateParams(idParamSchema), validateBody(suspendUserSchema), UserController.suspendUser);
+router.post('/:id/reactivate', requirePermission(Permission.USER_SUSPEND_ANY), validateParams(idParamSchema), UserController.reactivateUser);
+router.post('/:id/password-reset', requirePermission(Permission.USER_RESET_PASSWORD_ANY), validateParams(idParamSchema), UserController.forcePasswordReset);
+router.post('/:id/impersonate', requireSession, requirePermission(Permission.USER_IMPERSONATE_ANY), validateParams(idParamSchema), UserController.impersonateUser);
+router.post('/:id/unlock', requirePermission(Permission.USER_UNLOCK_ANY), validateParams(idParamSchema), UserController.unlockUser);
 
 export default router;
\ No newline at end of file
@@ -1,10 +1,31 @@
 import app from './app';
 import { config } from './config/env';
+import { db } from './database';
+import { migrateUp } from './database/migrator';
+import { seedDemoData } from './database/seeds/demo.seed';
+import { startJobs } from './jobs';
 
 const PORT = config.server.port;
 
-const server = app.listen(PORT, () => {
-  console.log(`
+const start = async () => {
+  // Keep the schema current on every boot; seeding only happens when explicitly asked for
+  const applied = await migrateUp(db);
+  applied.forEach(m => console.log(`Applied migration ${m.version} ${m.name}`));
+
+  const seedDemoAccounts = config.database.seedDemoData && config.server.nodeEnv !== 'production';
+  if (seedDemoAccounts) {
+    await seedDemoData();
+  }
+
+  const demoAccounts = seedDemoAccounts ? `
+📖 Demo Accounts:
+   • Admin: admin@skillforge.com / password
+   • Instructor: instructor@skillforge.com / password
+   • Student: student@skillforge.com / password
+` : '';
+
+  const server = app.listen(PORT, () => {
+    console.log(`
 🚀 Skill Forge API Server is running!
 
 📍 Server Details:
@@ -26,31 +47,31 @@ const server = app.listen(PORT, () => {
    • OpenAI: ${config.openai.apiKey ? '✅ Configured' : '❌ Missing'}
    • Stripe: ${config.stripe.secretKey ? '✅ Configured' : '❌ Missing'}
    • AWS S3: ${config.aws.accessKeyId ? '✅ Configured' : '❌ Missing'}
-
-📖 Demo Accounts:
-   • Admin: admin@skillforge.com / password
-   • Instructor: instructor@skillforge.com / password
-   • Student: student@skillforge.com / password
-
+   • Database: ${db.driver}
+${demoAccounts}
 Ready to accept requests! 🎯
   `);
-});
-
-// Graceful shutdown
-process.on('SIGTERM', () => {
-  console.log('SIGTERM received. Shutting down gracefully...');
-  server.close(() => {
-    console.log('Process terminated');
-    process.exit(0);
   });
-});
 
-process.on('SIGINT', () => {
-  console.log('SIGINT received. Shutting down gracefully...');
-  server.close(() => {
-    console.log('Process terminated');
-    process.exit(0);
-  });
-});
+  // Background jobs; set JOBS_ENABLED=false on all but one instance when running several
+  const stopJobs = config.jobs.enabled ? startJobs() : () => {};
+
+  // Graceful shutdown
+  const shutdown = (signal: string) => {
+    console.log(`${signal} received. Shutting down gracefully...`);
+    stopJobs();
+    server.close(async () => {
+      await db.close();
+      console.log('Process terminated');
+      process.exit(0);
+    });
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
+};
 
-export default server;
\ No newline at end of file
+start().catch((error) => {
+  console.error('Failed to start server:', error);
+  process.exit(1);
+});
\ No newline at end of file
@@ -0,0 +1,165 @@
+import { config } from '../config/env';
+import { withTransaction } from '../database';
+import { UserModel } from '../models/User';
+import { CourseModel } from '../models/Course';
+import { PaymentModel } from '../models/Payment';
+import { SessionModel } from '../models/Session';
+import { ApiKeyModel } from '../models/ApiKey';
+import { UserTokenModel } from '../models/UserToken';
+import { AIChatMessageModel } from '../models/AIChatMessage';
+import { InstructorApplicationModel } from '../models/InstructorApplication';
+import { awsService } from './aws.service';
+import { auditService } from './audit.service';
+import { dataExportService } from './data-export.service';
+import { reviewService } from './review.service';
+import { mailService } from './mail.service';
+import { sessionService } from './session.service';
+import { diffFields } from '../utils/audit.utils';
+import { UserRole } from '../types/auth.types';
+import { AuditAction } from '../types/audit.types';
+import { SessionRevokedReason } from '../types/session.types';
+import { AccountDeletion, User } from '../types/user.types';
+
+class AccountDeletionService {
+  /**
+   * Starts the grace period: the user is signed out everywhere and their API
+   * keys stop working, but nothing is removed until the purge job runs after
+   * purgeAfter. Until then the account can only sign in to restore itself,
+   * fetch a data export or sign out; restoring cancels the request.
+   */
+  async schedule(user: User): Promise<AccountDeletion> {
+    const requestedAt = new Date();
+    const deletion: AccountDeletion = {
+      requestedAt,
+      purgeAfter: new Date(requestedAt.getTime() + config.accountDeletion.graceDays * 24 * 60 * 60 * 1000),
+    };
+
+    // A request that is only half recorded would leave the user signed out of an account that is not going anywhere
+    await withTransaction(async () => {
+      await UserModel.update(user.id, { deletion });
+      await sessionService.revokeAllForUser(user.id, SessionRevokedReason.ACCOUNT_DELETED);
+
+      const apiKeys = await ApiKeyModel.findActiveByUser(user.id);
+      for (const apiKey of apiKeys) {
+        await ApiKeyModel.update(apiKey.id, { revokedAt: requestedAt });
+      }
+    });
+
+    try {
+      await mailService.sendAccountDeletionScheduled(user.email, user.firstName, deletion.purgeAfter);
+    } catch (error) {
+      // The request stands; the confirmation email is a courtesy
+      console.error('Account deletion notification error:', error);
+    }
+
+    return deletion;
+  }
+
+  async restore(userId: string): Promise<User | null> {
+    const user = await UserModel.findById(userId);
+    if (!user?.deletion) return null;
+
+    return UserModel.cancelDeletion(user.id);
+  }
+
+  // Purges every account whose grace period has ended; returns how many were purged
+  async purgeDue(now: Date = new Date()): Promise<number> {
+    const due = await UserModel.findDueForPurge(now);
+
+    let purged = 0;
+    for (const user of due) {
+      try {
+        if (await this.purge(user.id, now)) purged++;
+      } catch (error) {
+        // One broken account must not stop the others; it is retried on the next run
+        console.error(`Account purge error (${user.id}):`, error);
+      }
+    }
+    return purged;
+  }
+
+  /**
+   * Removes the account and everything hanging off it. Payments are kept
+   * for accounting but anonymized, enrollment counts are given back, and
+   * courses the user taught move to the configured successor or are
+   * unpublished. Stored files go last, once the records are gone.
+   */
+  async purge(userId: string, now: Date = new Date()): Promise<boolean> {
+    const result = await withTransaction(async () => {
+      // Re-read inside the transaction: the user may have restored since the job started
+      const user = await UserModel.findById(userId);
+      if (!user?.deletion || user.deletion.purgeAfter > now) return null;
+
+      for (const progress of user.progress) {
+        await CourseModel.decrementEnrollment(progress.courseId);
+      }
+
+      // Their reviews leave the course ratings and their helpful votes are taken back
+      const reviews = await reviewService.deleteForUser(user.id);
+
+      const successor = await this.findCourseSuccessor(user.id);
+      const courses = await CourseModel.findByInstructor(user.id);
+      for (const course of courses) {
+        await CourseModel.update(course.id, successor
+          ? { instructorId: successor.id, instructorName: `${successor.firstName} ${successor.lastName}` }
+          : { isPublished: false });
+      }
+
+      const summary = {
+        paymentsAnonymized: await PaymentModel.anonymizeByUser(user.id),
+        enrollmentsRemoved: user.progress.length,
+        reviewsDeleted: reviews.reviewsDeleted,
+        reviewVotesDeleted: reviews.votesDeleted,
+        coursesReassigned: successor ? courses.length : 0,
+        coursesUnpublished: successor ? 0 : courses.length,
+        ...(successor && courses.length > 0 ? { courseSuccessorId: successor.id } : {}),
+        sessionsDeleted: await SessionModel.deleteByUser(user.id),
+        apiKeysDeleted: await ApiKeyModel.deleteByUser(user.id),
+        tokensDeleted: await UserTokenModel.deleteByUser(user.id),
+        chatMessagesDeleted: await AIChatMessageModel.deleteByUser(user.id),
+        applicationsDeleted: await InstructorApplicationModel.deleteByUser(user.id),
+      };
+
+      await UserModel.delete(user.id);
+      return { user, summary };
+    });
+
+    if (!result) return false;
+
+    const files = {
+      dataExportsDeleted: await dataExportService.deleteForUser(userId),
+      uploadedFilesDeleted: 0,
+    };
+    if (awsService.isConfigured()) {
+      try {
+        files.uploadedFilesDeleted = await awsService.deleteFolder(`users/${userId}/`);
+      } catch (error) {
+        // The account is already gone; leave a trail so the files can be removed by hand
+        console.error(`Account purge file cleanup error (users/${userId}/):`, error);
+      }
+    }
+
+    // Only the role is kept: recording the email would undo the point of deleting the account
+    await auditService.record({
+      action: AuditAction.USER_DELETED,
+      targetType: 'user',
+      targetId: userId,
+      changes: diffFields(result.user, null, ['role']),
+      metadata: { ...result.summary, ...files, requestedAt: result.user.deletion!.requestedAt },
+    });
+
+    return true;
+  }
+
+  private async findCourseSuccessor(purgedUserId: string): Promise<User | null> {
+    const successorId = config.accountDeletion.courseSuccessorId;
+    if (!successorId || successorId === purgedUserId) return null;
+
+    const successor = await UserModel.findById(successorId);
+    if (!successor || successor.deletion) return null;
+
+    return successor.role === UserRole.INSTRUCTOR || successor.role === UserRole.ADMIN ? successor : null;
+  }
+}
+
+export const accountDeletionService = new AccountDeletionService();
\ No newline at end of file
@@ -0,0 +1,106 @@
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { ApiKeyModel } from '../models/ApiKey';
+import { UserModel } from '../models/User';
+import { generateSecureToken, hashToken } from '../utils/token.utils';
+import { hasPermission } from '../utils/permission.utils';
+import { ApiKey, ApiKeySummary, CreateApiKeyRequest } from '../types/api-key.types';
+import { User } from '../types/user.types';
+
+// Keys look like sf_<prefix>_<secret>; the prefix is stored in the clear for lookup and display
+const KEY_PATTERN = /^sf_([0-9a-f]{8})_([A-Za-z0-9_-]{43})$/;
+
+// lastUsedAt is only rewritten when it is older than this, to avoid a write per request
+const USAGE_RESOLUTION_MS = 60 * 1000;
+
+export const isApiKey = (token: string): boolean => token.startsWith('sf_');
+
+const toSummary = (apiKey: ApiKey): ApiKeySummary => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  scopes: apiKey.scopes,
+  ...(apiKey.expiresAt ? { expiresAt: apiKey.expiresAt } : {}),
+  ...(apiKey.lastUsedAt ? { lastUsedAt: apiKey.lastUsedAt } : {}),
+  ...(apiKey.lastUsedIp ? { lastUsedIp: apiKey.lastUsedIp } : {}),
+  createdAt: apiKey.createdAt,
+});
+
+class ApiKeyService {
+  /**
+   * Issues a key limited to the given scopes, each of which the owner's role
+   * must already hold. The plaintext key is returned here and never again.
+   */
+  async create(
+    user: User,
+    request: CreateApiKeyRequest
+  ): Promise<{ apiKey: ApiKeySummary; key: string } | { error: string }> {
+    const subject = { userId: user.id, role: user.role };
+    const notGranted = request.scopes.filter(scope => !hasPermission(subject, scope));
+    if (notGranted.length > 0) {
+      return { error: `Your role does not grant: ${notGranted.join(', ')}` };
+    }
+
+    const activeKeys = await ApiKeyModel.findActiveByUser(user.id);
+    if (activeKeys.length >= config.apiKeys.maxPerUser) {
+      return { error: `You can have at most ${config.apiKeys.maxPerUser} active API keys` };
+    }
+
+    const prefix = crypto.randomBytes(4).toString('hex');
+    const key = `sf_${prefix}_${generateSecureToken()}`;
+
+    const apiKey = await ApiKeyModel.create({
+      userId: user.id,
+      name: request.name,
+      prefix,
+      keyHash: hashToken(key),
+      scopes: Array.from(new Set(request.scopes)),
+      ...(request.expiresInDays
+        ? { expiresAt: new Date(Date.now() + request.expiresInDays * 24 * 60 * 60 * 1000) }
+        : {}),
+    });
+
+    return { apiKey: toSummary(apiKey), key };
+  }
+
+  // Resolves a presented key to its owner, recording when and from where it was used
+  async authenticate(key: string, ipAddress: string): Promise<{ apiKey: ApiKey; user: User } | null> {
+    const match = KEY_PATTERN.exec(key);
+    if (!match) return null;
+
+    const apiKey = await ApiKeyModel.findByPrefix(match[1]!);
+    if (!apiKey || !ApiKeyModel.isActive(apiKey)) return null;
+
+    const expected = Buffer.from(apiKey.keyHash, 'hex');
+    const actual = Buffer.from(hashToken(key), 'hex');
+    if (!crypto.timingSafeEqual(expected, actual)) return null;
+
+    const user = await UserModel.findById(apiKey.userId);
+    if (!user) return null;
+
+    const stale = !apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > USAGE_RESOLUTION_MS;
+    if (stale || apiKey.lastUsedIp !== ipAddress) {
+      await ApiKeyModel.update(apiKey.id, { lastUsedAt: new Date(), lastUsedIp: ipAddress });
+    }
+
+    return { apiKey, user };
+  }
+
+  async listForUser(userId: string): Promise<ApiKeySummary[]> {
+    const apiKeys = await ApiKeyModel.findActiveByUser(userId);
+    return apiKeys
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(toSummary);
+  }
+
+  // Only the owner can revoke; returns false for unknown, foreign or already revoked keys
+  async revoke(userId: string, apiKeyId: string): Promise<boolean> {
+    const apiKey = await ApiKeyModel.findById(apiKeyId);
+    if (!apiKey || apiKey.userId !== userId || apiKey.revokedAt) return false;
+
+    await ApiKeyModel.update(apiKey.id, { revokedAt: new Date() });
+    return true;
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
\ No newline at end of file
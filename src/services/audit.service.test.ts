@@ -0,0 +1,49 @@
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { AuditEventModel } from '../models/AuditEvent';
+import { AuditAction, AuditEvent } from '../types/audit.types';
+import { auditService } from './audit.service';
+
+describe('auditService', () => {
+  const auditEvents = db.collection<AuditEvent>('audit_events');
+
+  beforeAll(async () => {
+    await migrateUp(db);
+  });
+
+  const record = () => auditService.record({ action: AuditAction.USER_SUSPENDED, targetType: 'user', targetId: 'user_audit' });
+
+  it('links each event to the one before it', async () => {
+    const first = await record();
+    const second = await record();
+
+    expect(second.sequence).toBe(first.sequence + 1);
+    expect(second.previousHash).toBe(first.hash);
+    expect(await AuditEventModel.findHead()).toEqual({ id: 'head', sequence: second.sequence, hash: second.hash });
+    expect(await auditService.verifyChain()).toEqual({ valid: true, events: second.sequence });
+  });
+
+  it('reports a modified event', async () => {
+    const event = await record();
+    await record();
+    await auditEvents.save({ ...event, metadata: { edited: true } });
+
+    expect(await auditService.verifyChain()).toMatchObject({ valid: false, brokenAt: event.sequence, reason: 'Event contents have been modified' });
+
+    await auditEvents.save(event);
+  });
+
+  it('reports events removed from the end of the chain', async () => {
+    const last = await record();
+    await auditEvents.delete(last.id);
+
+    expect(await auditService.verifyChain()).toEqual({
+      valid: false,
+      events: last.sequence - 1,
+      brokenAt: last.sequence,
+      reason: 'Events are missing from the end of the chain',
+    });
+
+    await auditEvents.save(last);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,73 @@
+import { AuditEventModel } from '../models/AuditEvent';
+import { withTransaction } from '../database';
+import { GENESIS_HASH, hashAuditEvent } from '../utils/audit.utils';
+import { getClientInfo, getRequestId } from '../utils/request.utils';
+import { AuditChainVerification, AuditEvent, AuditEventQuery, RecordAuditEventInput } from '../types/audit.types';
+import { RequestWithUser } from '../types/api.types';
+
+class AuditService {
+  async record(input: RecordAuditEventInput): Promise<AuditEvent> {
+    return withTransaction(() => AuditEventModel.append({ ...input, metadata: input.metadata || {} }));
+  }
+
+  /**
+   * Records an event for the current request, taking the actor, IP and
+   * request id from it. While impersonating, the admin is the actor and the
+   * impersonated user is noted in the metadata.
+   */
+  async recordRequest(
+    req: RequestWithUser,
+    input: Omit<RecordAuditEventInput, 'actorId' | 'ipAddress' | 'requestId'>
+  ): Promise<AuditEvent> {
+    const impersonatorId = req.user?.impersonatorId;
+    const actorId = impersonatorId || req.user?.userId;
+    const requestId = getRequestId(req);
+
+    return this.record({
+      ...input,
+      ...(actorId ? { actorId } : {}),
+      ipAddress: getClientInfo(req).ipAddress,
+      ...(requestId ? { requestId } : {}),
+      metadata: {
+        ...input.metadata,
+        ...(impersonatorId ? { impersonatedUserId: req.user!.userId } : {}),
+      },
+    });
+  }
+
+  async find(query: Omit<AuditEventQuery, 'page' | 'limit'>): Promise<AuditEvent[]> {
+    return AuditEventModel.findAll(query);
+  }
+
+  // Recomputes every hash from the start; reports the first event that does not fit the chain
+  async verifyChain(): Promise<AuditChainVerification> {
+    const events = await AuditEventModel.findChain();
+    const head = await AuditEventModel.findHead();
+
+    let previousHash = GENESIS_HASH;
+    for (const [index, event] of events.entries()) {
+      const { hash, ...rest } = event;
+
+      if (event.sequence !== index + 1) {
+        return { valid: false, events: events.length, brokenAt: index + 1, reason: 'Event is missing from the chain' };
+      }
+      if (event.previousHash !== previousHash) {
+        return { valid: false, events: events.length, brokenAt: event.sequence, reason: 'Previous hash does not match' };
+      }
+      if (hashAuditEvent(rest) !== hash) {
+        return { valid: false, events: events.length, brokenAt: event.sequence, reason: 'Event contents have been modified' };
+      }
+
+      previousHash = hash;
+    }
+
+    // Removing the newest events leaves a chain that checks out on its own; only the head record knows where it ended
+    if (head && (head.sequence !== events.length || head.hash !== previousHash)) {
+      return { valid: false, events: events.length, brokenAt: events.length + 1, reason: 'Events are missing from the end of the chain' };
+    }
+
+    return { valid: true, events: events.length };
+  }
+}
+
+export const auditService = new AuditService();
\ No newline at end of file
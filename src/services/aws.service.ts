@@ -20,6 +20,10 @@ class AWSService {
     }
   }
 
+  isConfigured(): boolean {
+    return !!this.s3;
+  }
+
   async uploadFile(
     file: Buffer,
     fileName: string,
@@ -72,6 +76,42 @@ class AWSService {
     }
   }
 
+  // Removes every object under a prefix, e.g. all files uploaded for one user; returns how many were deleted
+  async deleteFolder(prefix: string): Promise<number> {
+    if (!this.s3) {
+      throw new Error('AWS S3 service not configured');
+    }
+
+    try {
+      let deleted = 0;
+      let continuationToken: string | undefined;
+
+      do {
+        const page = await this.s3.listObjectsV2({
+          Bucket: config.aws.s3Bucket,
+          Prefix: prefix,
+          ...(continuationToken ? { ContinuationToken: continuationToken } : {}),
+        }).promise();
+
+        const keys = (page.Contents || []).map(object => ({ Key: object.Key! }));
+        if (keys.length > 0) {
+          await this.s3.deleteObjects({
+            Bucket: config.aws.s3Bucket,
+            Delete: { Objects: keys, Quiet: true },
+          }).promise();
+          deleted += keys.length;
+        }
+
+        continuationToken = page.IsTruncated ? page.NextContinuationToken : undefined;
+      } while (continuationToken);
+
+      return deleted;
+    } catch (error) {
+      console.error('AWS S3 delete folder error:', error);
+      throw new Error('Failed to delete files from S3');
+    }
+  }
+
   async getSignedUrl(key: string, expiresIn: number = 3600): Promise<string> {
     if (!this.s3) {
       throw new Error('AWS S3 service not configured');
@@ -94,9 +134,10 @@ class AWSService {
   async uploadCourseVideo(
     file: Buffer,
     fileName: string,
-    courseId: string
+    courseId: string,
+    mimeType: string = 'video/mp4'
   ): Promise<FileUploadResponse> {
-    return this.uploadFile(file, fileName, 'video/mp4', `courses/${courseId}/videos`);
+    return this.uploadFile(file, fileName, mimeType, `courses/${courseId}/videos`);
   }
 
   async uploadCourseThumbnail(
@@ -0,0 +1,58 @@
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+import { CourseModel } from '../models/Course';
+import { CourseSubmissionModel } from '../models/CourseSubmission';
+import { Course } from '../types/course.types';
+import { CourseSubmission, CourseSubmissionStatus } from '../types/course-review.types';
+import { courseRevisionService } from './course-revision.service';
+import { courseReviewService } from './course-review.service';
+
+describe('courseReviewService.publish without review', () => {
+  let course: Course;
+  let submission: CourseSubmission;
+
+  beforeAll(async () => {
+    await migrateUp(db);
+    await seedDemoData();
+  });
+
+  // An unpublished course with a submission waiting for a reviewer
+  beforeEach(async () => {
+    const [seeded] = await CourseModel.findAll();
+    const { id, createdAt, updatedAt, publishedRevision, ...data } = seeded!;
+    course = await CourseModel.create({
+      ...data,
+      title: 'Submitted course',
+      thumbnail: 'https://cdn.example.com/submitted-course.jpg',
+      isPublished: false,
+    });
+
+    const submitted = await courseReviewService.submit(course, course.instructorId);
+    if ('error' in submitted) throw new Error(submitted.error);
+    submission = submitted;
+  });
+
+  const publishDirectly = async () => {
+    await courseRevisionService.saveDraft(course, { title: 'Published by a reviewer' });
+    return courseReviewService.publish((await CourseModel.findById(course.id))!, 'reviewer', { skipReview: true });
+  };
+
+  it('supersedes the submission in review', async () => {
+    const published = await publishDirectly();
+
+    expect(published).toMatchObject({ course: { title: 'Published by a reviewer' } });
+    expect((await CourseSubmissionModel.findById(submission.id))!.status).toBe(CourseSubmissionStatus.SUPERSEDED);
+    expect(await CourseSubmissionModel.findActiveByCourse(course.id)).toBeNull();
+  });
+
+  it('keeps the superseded submission from being approved and published later', async () => {
+    await publishDirectly();
+
+    expect(await courseReviewService.decide(submission.id, 'reviewer', CourseSubmissionStatus.APPROVED))
+      .toEqual({ error: 'invalid_transition' });
+    expect(await courseReviewService.publish((await CourseModel.findById(course.id))!, course.instructorId, { skipReview: false }))
+      .toEqual({ error: 'not_approved' });
+    expect((await CourseModel.findById(course.id))!.title).toBe('Published by a reviewer');
+  });
+});
\ No newline at end of file
@@ -0,0 +1,273 @@
+import { config } from '../config/env';
+import { withTransaction } from '../database';
+import { CourseModel } from '../models/Course';
+import { CourseSubmissionModel } from '../models/CourseSubmission';
+import { courseRevisionService, diffCourseContent, hasContentChanges, toCourseContent, RevisionError } from './course-revision.service';
+import { Course, LessonType } from '../types/course.types';
+import { CourseContent, CourseRevision } from '../types/course-revision.types';
+import {
+  CoursePublishIssue,
+  CourseReviewComment,
+  CourseSubmission,
+  CourseSubmissionDetails,
+  CourseSubmissionStatus,
+  CourseSubmissionSummary,
+} from '../types/course-review.types';
+
+export type CourseReviewError =
+  | RevisionError
+  | 'submission_not_found'
+  | 'already_submitted'
+  | 'not_approved'
+  | 'not_ready'
+  | 'invalid_transition';
+
+// The only moves a submission can make; everything else is refused
+const TRANSITIONS: Record<CourseSubmissionStatus, CourseSubmissionStatus[]> = {
+  [CourseSubmissionStatus.IN_REVIEW]: [
+    CourseSubmissionStatus.APPROVED,
+    CourseSubmissionStatus.REJECTED,
+    CourseSubmissionStatus.WITHDRAWN,
+    CourseSubmissionStatus.SUPERSEDED,
+  ],
+  [CourseSubmissionStatus.APPROVED]: [
+    CourseSubmissionStatus.PUBLISHED,
+    CourseSubmissionStatus.WITHDRAWN,
+    CourseSubmissionStatus.SUPERSEDED,
+  ],
+  [CourseSubmissionStatus.REJECTED]: [],
+  [CourseSubmissionStatus.PUBLISHED]: [],
+  [CourseSubmissionStatus.WITHDRAWN]: [],
+  [CourseSubmissionStatus.SUPERSEDED]: [],
+};
+
+const issue = (field: string, code: string, message: string): CoursePublishIssue => ({ field, code, message });
+
+// Compares with a tolerance: 19.99 * 100 is 1998.9999999999998 in floating point
+const hasFractionalCents = (price: number) => Math.abs(Math.round(price * 100) - price * 100) > 1e-6;
+
+const toSummary = ({ content, ...summary }: CourseSubmission): CourseSubmissionSummary => summary;
+
+class CourseReviewService {
+  /**
+   * Automated pre-publish checks: the course has a curriculum, every lesson
+   * has the content its type needs, a thumbnail of its own and a valid
+   * price. An empty list means the content can be published.
+   */
+  check(content: CourseContent): CoursePublishIssue[] {
+    const issues: CoursePublishIssue[] = [];
+
+    if (content.modules.length === 0) {
+      issues.push(issue('modules', 'course.no_modules', 'Add at least one module'));
+    }
+
+    for (const module of content.modules) {
+      const moduleField = `modules.${module.id}`;
+      if (module.lessons.length === 0) {
+        issues.push(issue(moduleField, 'module.no_lessons', `Module "${module.title}" has no lessons`));
+      }
+
+      for (const lesson of module.lessons) {
+        const lessonField = `${moduleField}.lessons.${lesson.id}`;
+        if (lesson.type === LessonType.VIDEO && !lesson.content.videoUrl) {
+          issues.push(issue(lessonField, 'lesson.no_video', `Lesson "${lesson.title}" is a video lesson without a video`));
+        }
+        if (lesson.type === LessonType.TEXT && !lesson.content.textContent) {
+          issues.push(issue(lessonField, 'lesson.no_text', `Lesson "${lesson.title}" is a text lesson without any text`));
+        }
+        if (lesson.type === LessonType.ASSIGNMENT && !lesson.content.assignmentInstructions) {
+          issues.push(issue(lessonField, 'lesson.no_instructions', `Lesson "${lesson.title}" is an assignment without instructions`));
+        }
+      }
+    }
+
+    if (!content.thumbnail || content.thumbnail === config.coursePublishing.defaultThumbnail) {
+      issues.push(issue('thumbnail', 'course.no_thumbnail', 'Upload a thumbnail for the course'));
+    }
+
+    const { minPrice, maxPrice } = config.coursePublishing;
+    if (content.price !== 0 && (content.price < minPrice || content.price > maxPrice)) {
+      issues.push(issue('price', 'course.price_out_of_range', `Paid courses must cost between ${minPrice} and ${maxPrice}`));
+    } else if (hasFractionalCents(content.price)) {
+      issues.push(issue('price', 'course.price_precision', 'Prices can have at most two decimal places'));
+    }
+
+    return issues;
+  }
+
+  // Snapshots the draft for review; it must pass the automated checks and change something
+  async submit(
+    course: Course,
+    userId: string,
+    message?: string
+  ): Promise<CourseSubmission | { error: CourseReviewError; issues?: CoursePublishIssue[] }> {
+    return withTransaction(async () => {
+      if (await CourseSubmissionModel.findActiveByCourse(course.id)) {
+        return { error: 'already_submitted' as const };
+      }
+
+      const content = toCourseContent(await courseRevisionService.getWorkingCopy(course));
+      if (course.isPublished && !hasContentChanges(diffCourseContent(toCourseContent(course), content))) {
+        return { error: 'no_changes' as const };
+      }
+
+      const issues = this.check(content);
+      if (issues.length > 0) {
+        return { error: 'not_ready' as const, issues };
+      }
+
+      return CourseSubmissionModel.create({
+        courseId: course.id,
+        content,
+        submittedBy: userId,
+        ...(message ? { message } : {}),
+      });
+    });
+  }
+
+  async withdraw(courseId: string): Promise<CourseSubmission | { error: CourseReviewError }> {
+    return withTransaction(async () => {
+      const active = await CourseSubmissionModel.findActiveByCourse(courseId);
+      if (!active) return { error: 'submission_not_found' as const };
+
+      return this.transition(active, CourseSubmissionStatus.WITHDRAWN);
+    });
+  }
+
+  async decide(
+    submissionId: string,
+    reviewerId: string,
+    status: CourseSubmissionStatus.APPROVED | CourseSubmissionStatus.REJECTED,
+    note?: string
+  ): Promise<CourseSubmission | { error: CourseReviewError }> {
+    return withTransaction(async () => {
+      const submission = await CourseSubmissionModel.findById(submissionId);
+      if (!submission) return { error: 'submission_not_found' as const };
+
+      return this.transition(submission, status, {
+        reviewedBy: reviewerId,
+        reviewedAt: new Date(),
+        ...(note ? { reviewNote: note } : {}),
+      });
+    });
+  }
+
+  async addComment(
+    submissionId: string,
+    comment: Omit<CourseReviewComment, 'id' | 'createdAt'>
+  ): Promise<CourseReviewComment | { error: CourseReviewError }> {
+    return withTransaction(async () => {
+      const submission = await CourseSubmissionModel.findById(submissionId);
+      if (!submission) return { error: 'submission_not_found' as const };
+
+      const added: CourseReviewComment = {
+        id: `comment_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+        ...comment,
+        createdAt: new Date(),
+      };
+      await CourseSubmissionModel.update(submission.id, { comments: [...submission.comments, added] });
+      return added;
+    });
+  }
+
+  /**
+   * Instructors publish exactly what was approved, even if the draft has
+   * moved on since. Reviewers may publish the draft directly, which
+   * supersedes a submission still in review so it cannot later be
+   * published over the newer content; the automated checks apply either way.
+   */
+  async publish(
+    course: Course,
+    userId: string,
+    options: { note?: string; skipReview: boolean }
+  ): Promise<
+    | { course: Course; revision: CourseRevision; submission?: CourseSubmission }
+    | { error: CourseReviewError; issues?: CoursePublishIssue[] }
+  > {
+    return withTransaction(async () => {
+      const active = await CourseSubmissionModel.findActiveByCourse(course.id);
+      const submission = active?.status === CourseSubmissionStatus.APPROVED ? active : null;
+      if (!submission && !options.skipReview) {
+        return { error: 'not_approved' as const };
+      }
+
+      const content = submission
+        ? submission.content
+        : toCourseContent(await courseRevisionService.getWorkingCopy(course));
+
+      const issues = this.check(content);
+      if (issues.length > 0) {
+        return { error: 'not_ready' as const, issues };
+      }
+
+      const published = await courseRevisionService.publish(course.id, userId, options.note, content);
+      if ('error' in published) return published;
+
+      if (!submission) {
+        const superseded = active && await this.transition(active, CourseSubmissionStatus.SUPERSEDED);
+        return superseded && 'error' in superseded ? superseded : published;
+      }
+
+      const updated = await this.transition(submission, CourseSubmissionStatus.PUBLISHED, {
+        publishedRevision: published.revision.number,
+      });
+      return 'error' in updated ? updated : { ...published, submission: updated };
+    });
+  }
+
+  // Oldest first; defaults to what is waiting for a reviewer
+  async listQueue(status: CourseSubmissionStatus = CourseSubmissionStatus.IN_REVIEW): Promise<CourseSubmissionSummary[]> {
+    const submissions = await CourseSubmissionModel.findAll(status);
+    return submissions.map(toSummary);
+  }
+
+  async listForCourse(courseId: string): Promise<CourseSubmissionSummary[]> {
+    const submissions = await CourseSubmissionModel.findByCourse(courseId);
+    return submissions.map(toSummary);
+  }
+
+  async findActiveForCourse(courseId: string): Promise<CourseSubmissionSummary | null> {
+    const active = await CourseSubmissionModel.findActiveByCourse(courseId);
+    return active ? toSummary(active) : null;
+  }
+
+  // The submission with its course and what publishing it would change for students
+  async getDetails(submissionId: string): Promise<CourseSubmissionDetails | null> {
+    const submission = await CourseSubmissionModel.findById(submissionId);
+    if (!submission) return null;
+
+    const course = await CourseModel.findById(submission.courseId);
+    if (!course) return null;
+
+    return {
+      ...submission,
+      course: {
+        id: course.id,
+        instructorId: course.instructorId,
+        instructorName: course.instructorName,
+        isPublished: course.isPublished,
+        ...(course.publishedRevision !== undefined ? { publishedRevision: course.publishedRevision } : {}),
+      },
+      changes: diffCourseContent(course.isPublished ? toCourseContent(course) : null, submission.content),
+    };
+  }
+
+  async deleteForCourse(courseId: string): Promise<void> {
+    await CourseSubmissionModel.deleteByCourse(courseId);
+  }
+
+  private async transition(
+    submission: CourseSubmission,
+    to: CourseSubmissionStatus,
+    updates: Partial<CourseSubmission> = {}
+  ): Promise<CourseSubmission | { error: CourseReviewError }> {
+    if (!TRANSITIONS[submission.status].includes(to)) {
+      return { error: 'invalid_transition' };
+    }
+
+    const updated = await CourseSubmissionModel.update(submission.id, { ...updates, status: to });
+    return updated!;
+  }
+}
+
+export const courseReviewService = new CourseReviewService();
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { withTransaction } from '../database';
+import { CourseModel } from '../models/Course';
+import { CourseDraftModel } from '../models/CourseDraft';
+import { CourseRevisionModel } from '../models/CourseRevision';
+import { diffFields } from '../utils/audit.utils';
+import { Course, CourseModule, Lesson } from '../types/course.types';
+import {
+  CourseContent,
+  CourseContentDiff,
+  CourseRevision,
+  CourseRevisionSummary,
+  CurriculumDiff,
+  CurriculumItemRef,
+  LessonDiff,
+  ModuleDiff,
+} from '../types/course-revision.types';
+
+export type RevisionError = 'course_not_found' | 'revision_not_found' | 'no_changes';
+
+const CONTENT_FIELDS: (keyof CourseContent)[] = [
+  'title',
+  'description',
+  'shortDescription',
+  'category',
+  'subcategory',
+  'level',
+  'price',
+  'currency',
+  'thumbnail',
+  'previewVideo',
+  'duration',
+  'modules',
+  'requirements',
+  'learningOutcomes',
+  'tags',
+];
+
+// Modules and lessons are diffed item by item, so they are left out of the field comparisons
+const COURSE_DIFF_FIELDS = CONTENT_FIELDS.filter(field => field !== 'modules');
+const MODULE_DIFF_FIELDS: (keyof CourseModule & string)[] = ['title', 'description', 'order', 'duration', 'isPreview', 'quiz'];
+const LESSON_DIFF_FIELDS: (keyof Lesson & string)[] = ['title', 'description', 'order', 'type', 'content', 'duration', 'isPreview'];
+
+// Just the content fields of a course, draft or revision
+export const toCourseContent = (source: CourseContent): CourseContent => {
+  const content: Partial<Record<keyof CourseContent, unknown>> = {};
+  for (const field of CONTENT_FIELDS) {
+    if (source[field] !== undefined) content[field] = source[field];
+  }
+  return content as CourseContent;
+};
+
+const toRef = ({ id, title }: CurriculumItemRef): CurriculumItemRef => ({ id, title });
+
+// Matches items by id: new ids were added, missing ids removed, and describe() reports what changed in the rest
+const diffItems = <T extends CurriculumItemRef, D>(
+  before: T[],
+  after: T[],
+  describe: (previous: T, next: T) => D | null
+): CurriculumDiff<D> => {
+  const previousById = new Map(before.map(item => [item.id, item]));
+  const nextIds = new Set(after.map(item => item.id));
+
+  const changed: D[] = [];
+  for (const item of after) {
+    const previous = previousById.get(item.id);
+    const difference = previous ? describe(previous, item) : null;
+    if (difference) changed.push(difference);
+  }
+
+  return {
+    added: after.filter(item => !previousById.has(item.id)).map(toRef),
+    removed: before.filter(item => !nextIds.has(item.id)).map(toRef),
+    changed,
+  };
+};
+
+const isEmpty = <T>(diff: CurriculumDiff<T>) =>
+  diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+
+const diffLesson = (previous: Lesson, next: Lesson): LessonDiff | null => {
+  const changes = diffFields(previous, next, LESSON_DIFF_FIELDS);
+  return Object.keys(changes).length > 0 ? { ...toRef(next), changes } : null;
+};
+
+const diffModule = (previous: CourseModule, next: CourseModule): ModuleDiff | null => {
+  const changes = diffFields(previous, next, MODULE_DIFF_FIELDS);
+  const lessons = diffItems(previous.lessons, next.lessons, diffLesson);
+  return Object.keys(changes).length > 0 || !isEmpty(lessons) ? { ...toRef(next), changes, lessons } : null;
+};
+
+// Pass null as `before` to describe content from scratch (e.g. the first revision)
+export const diffCourseContent = (before: CourseContent | null, after: CourseContent): CourseContentDiff => ({
+  changes: diffFields(before, after, COURSE_DIFF_FIELDS),
+  modules: diffItems(before?.modules || [], after.modules, diffModule),
+});
+
+export const hasContentChanges = (diff: CourseContentDiff) =>
+  Object.keys(diff.changes).length > 0 || !isEmpty(diff.modules);
+
+const toSummary = ({ content, ...summary }: CourseRevision): CourseRevisionSummary => summary;
+
+class CourseRevisionService {
+  // The course as its editors see it: the live record with the draft's content on top
+  async getWorkingCopy(course: Course): Promise<Course> {
+    const draft = await CourseDraftModel.findByCourse(course.id);
+    if (!draft) return course;
+
+    const { id, updatedAt, ...content } = draft;
+    return { ...course, ...content };
+  }
+
+  /**
+   * Applies content changes to the draft. A published course keeps serving
+   * its live content until the draft is published; an unpublished one has
+   * nothing live, so the course record follows the draft directly.
+   * Returns the updated working copy.
+   */
+  async saveDraft(course: Course, updates: Partial<CourseContent>): Promise<Course> {
+    return withTransaction(async () => {
+      const working = await this.getWorkingCopy(course);
+      const content = toCourseContent({ ...working, ...updates });
+
+      await CourseDraftModel.save({ id: course.id, ...content, updatedAt: new Date() });
+
+      if (!course.isPublished) {
+        const updated = await CourseModel.update(course.id, content);
+        return updated!;
+      }
+      return { ...course, ...content };
+    });
+  }
+
+  // What publishing the draft would change for students
+  async diffDraft(course: Course): Promise<CourseContentDiff> {
+    const working = await this.getWorkingCopy(course);
+    return diffCourseContent(toCourseContent(course), toCourseContent(working));
+  }
+
+  /**
+   * Publishes the draft, or the given content (e.g. an approved snapshot of
+   * it): it becomes a new revision and goes live. Republishing a live course
+   * with nothing changed is refused rather than adding an empty revision.
+   */
+  async publish(
+    courseId: string,
+    userId: string,
+    note?: string,
+    content?: CourseContent
+  ): Promise<{ course: Course; revision: CourseRevision } | { error: RevisionError }> {
+    return withTransaction(async () => {
+      const course = await CourseModel.findById(courseId);
+      if (!course) return { error: 'course_not_found' as const };
+
+      return this.goLive(course, content || toCourseContent(await this.getWorkingCopy(course)), userId, note);
+    });
+  }
+
+  /**
+   * Puts an earlier revision's content live again as a new revision, so the
+   * history only ever grows. The draft is left alone: whatever the
+   * instructor was working on is still there to fix and publish.
+   */
+  async rollback(
+    courseId: string,
+    number: number,
+    userId: string,
+    note?: string
+  ): Promise<{ course: Course; revision: CourseRevision } | { error: RevisionError }> {
+    return withTransaction(async () => {
+      const course = await CourseModel.findById(courseId);
+      if (!course) return { error: 'course_not_found' as const };
+
+      const target = await CourseRevisionModel.findByNumber(course.id, number);
+      if (!target) return { error: 'revision_not_found' as const };
+
+      return this.goLive(course, target.content, userId, note, target.number);
+    });
+  }
+
+  async listRevisions(courseId: string): Promise<CourseRevisionSummary[]> {
+    const revisions = await CourseRevisionModel.findByCourse(courseId);
+    return revisions.map(toSummary);
+  }
+
+  async getRevision(courseId: string, number: number): Promise<CourseRevision | null> {
+    return CourseRevisionModel.findByNumber(courseId, number);
+  }
+
+  // Compares a revision with `against`, or with the one before it; the first revision is compared with nothing
+  async diffRevision(
+    courseId: string,
+    number: number,
+    against?: number
+  ): Promise<{ from: number | null; to: number; diff: CourseContentDiff } | { error: RevisionError }> {
+    const revision = await CourseRevisionModel.findByNumber(courseId, number);
+    if (!revision) return { error: 'revision_not_found' };
+
+    const baseNumber = against ?? number - 1;
+    const base = baseNumber > 0 ? await CourseRevisionModel.findByNumber(courseId, baseNumber) : null;
+    if (against !== undefined && !base) return { error: 'revision_not_found' };
+
+    return {
+      from: base ? base.number : null,
+      to: revision.number,
+      diff: diffCourseContent(base ? base.content : null, revision.content),
+    };
+  }
+
+  // Drafts and revisions go with the course
+  async deleteForCourse(courseId: string): Promise<void> {
+    await CourseDraftModel.deleteByCourse(courseId);
+    await CourseRevisionModel.deleteByCourse(courseId);
+  }
+
+  private async goLive(
+    course: Course,
+    content: CourseContent,
+    userId: string,
+    note?: string,
+    restoredFrom?: number
+  ): Promise<{ course: Course; revision: CourseRevision } | { error: RevisionError }> {
+    if (course.isPublished && !hasContentChanges(diffCourseContent(toCourseContent(course), content))) {
+      return { error: 'no_changes' };
+    }
+
+    const latest = await CourseRevisionModel.findLatest(course.id);
+    const revision = await CourseRevisionModel.create({
+      courseId: course.id,
+      number: (latest?.number ?? 0) + 1,
+      content,
+      publishedBy: userId,
+      ...(note ? { note } : {}),
+      ...(restoredFrom !== undefined ? { restoredFrom } : {}),
+    });
+
+    const updated = await CourseModel.update(course.id, {
+      ...content,
+      isPublished: true,
+      publishedRevision: revision.number,
+    });
+
+    return { course: updated!, revision };
+  }
+}
+
+export const courseRevisionService = new CourseRevisionService();
\ No newline at end of file
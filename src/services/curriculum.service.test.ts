@@ -0,0 +1,82 @@
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+import { CourseModel } from '../models/Course';
+import { Course, StoredFile } from '../types/course.types';
+import { CourseSubmissionStatus } from '../types/course-review.types';
+import { courseReviewService } from './course-review.service';
+import { curriculumService } from './curriculum.service';
+
+describe('curriculumService.unreferencedFiles', () => {
+  let course: Course;
+
+  beforeAll(async () => {
+    await migrateUp(db);
+    await seedDemoData();
+  });
+
+  // An unpublished course with the demo curriculum and no revisions yet
+  beforeEach(async () => {
+    const [seeded] = await CourseModel.findAll();
+    const { id, createdAt, updatedAt, publishedRevision, ...data } = seeded!;
+    course = await CourseModel.create({
+      ...data,
+      title: 'Unreferenced files',
+      thumbnail: 'https://cdn.example.com/unreferenced-files.jpg',
+      isPublished: false,
+    });
+  });
+
+  const video = (key: string): StoredFile => ({
+    key,
+    size: 1024,
+    mimeType: 'video/mp4',
+    originalName: `${key}.mp4`,
+    uploadedAt: new Date(),
+  });
+
+  // Uploads a new video for the first demo lesson and returns the one it replaced
+  const replaceVideo = async (file: StoredFile) => {
+    const result = await curriculumService.attachFiles(course.id, 'module_1', 'lesson_1', {
+      video: { url: `https://cdn.example.com/${file.key}`, file },
+      resources: [],
+    });
+    if ('error' in result) throw new Error(result.error);
+    return result.replaced;
+  };
+
+  it('releases a video only the draft used', async () => {
+    await replaceVideo(video('first'));
+    const replaced = await replaceVideo(video('second'));
+
+    expect(await curriculumService.unreferencedFiles(course.id, [replaced!])).toEqual([replaced]);
+  });
+
+  it('keeps a video the approved submission uses until it is published', async () => {
+    await replaceVideo(video('approved'));
+    const submission = await courseReviewService.submit(course, course.instructorId);
+    if ('error' in submission) throw new Error(submission.error);
+    await courseReviewService.decide(submission.id, 'reviewer', CourseSubmissionStatus.APPROVED);
+
+    const replaced = await replaceVideo(video('newer'));
+    expect(await curriculumService.unreferencedFiles(course.id, [replaced!])).toEqual([]);
+
+    const published = await courseReviewService.publish((await CourseModel.findById(course.id))!, course.instructorId, { skipReview: false });
+    if ('error' in published) throw new Error(published.error);
+
+    const lesson = published.course.modules[0]!.lessons.find(candidate => candidate.id === 'lesson_1')!;
+    expect(lesson.content.video?.key).toBe('approved');
+    expect(await curriculumService.unreferencedFiles(course.id, [replaced!])).toEqual([]);
+  });
+
+  it('releases a video once the submission using it is withdrawn', async () => {
+    await replaceVideo(video('withdrawn'));
+    const submission = await courseReviewService.submit(course, course.instructorId);
+    if ('error' in submission) throw new Error(submission.error);
+    const replaced = await replaceVideo(video('newer'));
+
+    await courseReviewService.withdraw(course.id);
+
+    expect(await curriculumService.unreferencedFiles(course.id, [replaced!])).toEqual([replaced]);
+  });
+});
\ No newline at end of file
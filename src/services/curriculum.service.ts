@@ -0,0 +1,313 @@
+import { withTransaction } from '../database';
+import { CourseModel } from '../models/Course';
+import { CourseRevisionModel } from '../models/CourseRevision';
+import { CourseSubmissionModel } from '../models/CourseSubmission';
+import { courseRevisionService } from './course-revision.service';
+import {
+  Course,
+  CourseModule,
+  CreateLessonRequest,
+  CreateModuleRequest,
+  Lesson,
+  Resource,
+  StoredFile,
+  UpdateLessonRequest,
+  UpdateModuleRequest,
+} from '../types/course.types';
+
+export type CurriculumError =
+  | 'course_not_found'
+  | 'module_not_found'
+  | 'lesson_not_found'
+  | 'resource_not_found'
+  | 'invalid_order';
+
+const generateId = (prefix: string) => `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+// Orders are kept as 1..n in list order so clients never see gaps after a delete
+const renumber = <T extends { order: number }>(items: T[]): T[] =>
+  items.map((item, index) => ({ ...item, order: index + 1 }));
+
+// A module lasts as long as its lessons, and a course as long as its modules
+const withDurations = (modules: CourseModule[]): { modules: CourseModule[]; duration: number } => {
+  const withModuleDurations = modules.map(module => ({
+    ...module,
+    duration: module.lessons.reduce((total, lesson) => total + lesson.duration, 0),
+  }));
+
+  return {
+    modules: withModuleDurations,
+    duration: withModuleDurations.reduce((total, module) => total + module.duration, 0),
+  };
+};
+
+// Ids must be a permutation of the current ones: nothing missing, nothing unknown, no repeats
+const isPermutation = (current: string[], proposed: string[]) =>
+  proposed.length === current.length &&
+  new Set(proposed).size === proposed.length &&
+  proposed.every(id => current.includes(id));
+
+const sortByOrder = <T extends { order: number }>(items: T[]): T[] => [...items].sort((a, b) => a.order - b.order);
+
+const findModule = (course: Course, moduleId: string) => course.modules.find(module => module.id === moduleId)!;
+
+class CurriculumService {
+  getModules(course: Course): CourseModule[] {
+    return sortByOrder(course.modules).map(module => ({ ...module, lessons: sortByOrder(module.lessons) }));
+  }
+
+  async createModule(courseId: string, request: CreateModuleRequest): Promise<CourseModule | { error: CurriculumError }> {
+    const moduleId = generateId('module');
+
+    const course = await this.change(courseId, modules => [...modules, {
+      id: moduleId,
+      title: request.title,
+      description: request.description || '',
+      order: modules.length + 1,
+      duration: 0,
+      lessons: [],
+      isPreview: request.isPreview ?? false,
+    }]);
+    return 'error' in course ? course : findModule(course, moduleId);
+  }
+
+  async updateModule(
+    courseId: string,
+    moduleId: string,
+    request: UpdateModuleRequest
+  ): Promise<CourseModule | { error: CurriculumError }> {
+    const course = await this.change(courseId, modules => {
+      if (!modules.some(module => module.id === moduleId)) return { error: 'module_not_found' };
+      return modules.map(module => module.id === moduleId ? { ...module, ...request } : module);
+    });
+    return 'error' in course ? course : findModule(course, moduleId);
+  }
+
+  async deleteModule(courseId: string, moduleId: string): Promise<CourseModule[] | { error: CurriculumError }> {
+    const course = await this.change(courseId, modules => {
+      if (!modules.some(module => module.id === moduleId)) return { error: 'module_not_found' };
+      return renumber(modules.filter(module => module.id !== moduleId));
+    });
+    return 'error' in course ? course : course.modules;
+  }
+
+  async reorderModules(courseId: string, moduleIds: string[]): Promise<CourseModule[] | { error: CurriculumError }> {
+    const course = await this.change(courseId, modules => {
+      if (!isPermutation(modules.map(module => module.id), moduleIds)) return { error: 'invalid_order' };
+
+      const byId = new Map(modules.map(module => [module.id, module]));
+      return renumber(moduleIds.map(id => byId.get(id)!));
+    });
+    return 'error' in course ? course : course.modules;
+  }
+
+  async createLesson(
+    courseId: string,
+    moduleId: string,
+    request: CreateLessonRequest
+  ): Promise<Lesson | { error: CurriculumError }> {
+    const lessonId = generateId('lesson');
+
+    const module = await this.changeLessons(courseId, moduleId, lessons => [...lessons, {
+      id: lessonId,
+      title: request.title,
+      description: request.description || '',
+      order: lessons.length + 1,
+      type: request.type,
+      content: { ...request.content },
+      duration: request.duration,
+      isPreview: request.isPreview ?? false,
+    }]);
+    return 'error' in module ? module : module.lessons.find(lesson => lesson.id === lessonId)!;
+  }
+
+  async updateLesson(
+    courseId: string,
+    moduleId: string,
+    lessonId: string,
+    request: UpdateLessonRequest
+  ): Promise<Lesson | { error: CurriculumError }> {
+    const module = await this.changeLessons(courseId, moduleId, lessons => {
+      const existing = lessons.find(lesson => lesson.id === lessonId);
+      if (!existing) return { error: 'lesson_not_found' };
+
+      // Content is merged so updating the text does not drop attached resources
+      const { content, ...fields } = request;
+      const updated: Lesson = {
+        ...existing,
+        ...fields,
+        content: content ? { ...existing.content, ...content } : existing.content,
+      };
+      return lessons.map(lesson => lesson.id === lessonId ? updated : lesson);
+    });
+    return 'error' in module ? module : module.lessons.find(lesson => lesson.id === lessonId)!;
+  }
+
+  async deleteLesson(courseId: string, moduleId: string, lessonId: string): Promise<CourseModule | { error: CurriculumError }> {
+    return this.changeLessons(courseId, moduleId, lessons => {
+      if (!lessons.some(lesson => lesson.id === lessonId)) return { error: 'lesson_not_found' };
+      return renumber(lessons.filter(lesson => lesson.id !== lessonId));
+    });
+  }
+
+  async reorderLessons(courseId: string, moduleId: string, lessonIds: string[]): Promise<CourseModule | { error: CurriculumError }> {
+    return this.changeLessons(courseId, moduleId, lessons => {
+      if (!isPermutation(lessons.map(lesson => lesson.id), lessonIds)) return { error: 'invalid_order' };
+
+      const byId = new Map(lessons.map(lesson => [lesson.id, lesson]));
+      return renumber(lessonIds.map(id => byId.get(id)!));
+    });
+  }
+
+  // Uploaded files referenced by lessons, e.g. to delete them from storage along with the lessons
+  filesOf(lessons: Lesson[]): StoredFile[] {
+    return lessons.flatMap(lesson => [
+      ...(lesson.content.video ? [lesson.content.video] : []),
+      ...(lesson.content.resources || []).flatMap(resource => resource.file ? [resource.file] : []),
+    ]);
+  }
+
+  /**
+   * Files neither the live course, any revision nor the open submission uses.
+   * Revisions keep theirs so rollbacks still work, and a submission in review
+   * or approved keeps its snapshot's files until it is published over them.
+   */
+  async unreferencedFiles(courseId: string, files: StoredFile[]): Promise<StoredFile[]> {
+    const course = await CourseModel.findById(courseId);
+    const revisions = await CourseRevisionModel.findByCourse(courseId);
+    // A course has at most one open submission
+    const submission = await CourseSubmissionModel.findActiveByCourse(courseId);
+
+    const modules = [
+      ...(course?.modules || []),
+      ...revisions.flatMap(revision => revision.content.modules),
+      ...(submission?.content.modules || []),
+    ];
+    const referenced = new Set(this.filesOf(modules.flatMap(module => module.lessons)).map(file => file.key));
+    return files.filter(file => !referenced.has(file.key));
+  }
+
+  /**
+   * Attaches uploaded files to a lesson in one change: a new video replaces
+   * the current one, resources are appended. The replaced video (if any) is
+   * returned for the caller to delete from storage.
+   */
+  async attachFiles(
+    courseId: string,
+    moduleId: string,
+    lessonId: string,
+    files: { video?: { url: string; file: StoredFile }; resources: Resource[] }
+  ): Promise<{ lesson: Lesson; replaced?: StoredFile } | { error: CurriculumError }> {
+    let replaced: StoredFile | undefined;
+
+    const lesson = await this.changeLesson(courseId, moduleId, lessonId, existing => {
+      const content = { ...existing.content, resources: [...(existing.content.resources || []), ...files.resources] };
+      if (files.video) {
+        replaced = existing.content.video;
+        content.videoUrl = files.video.url;
+        content.video = files.video.file;
+      }
+      return { ...existing, content };
+    });
+    if ('error' in lesson) return lesson;
+
+    return { lesson, ...(replaced ? { replaced } : {}) };
+  }
+
+  async removeVideo(
+    courseId: string,
+    moduleId: string,
+    lessonId: string
+  ): Promise<{ lesson: Lesson; removed?: StoredFile } | { error: CurriculumError }> {
+    let removed: StoredFile | undefined;
+
+    const lesson = await this.changeLesson(courseId, moduleId, lessonId, existing => {
+      const { videoUrl, video, ...content } = existing.content;
+      removed = video;
+      return { ...existing, content };
+    });
+    if ('error' in lesson) return lesson;
+
+    return { lesson, ...(removed ? { removed } : {}) };
+  }
+
+  async removeResource(
+    courseId: string,
+    moduleId: string,
+    lessonId: string,
+    resourceId: string
+  ): Promise<{ lesson: Lesson; removed: Resource } | { error: CurriculumError }> {
+    let removed: Resource | undefined;
+
+    const lesson = await this.changeLesson(courseId, moduleId, lessonId, existing => {
+      const resources = existing.content.resources || [];
+      removed = resources.find(resource => resource.id === resourceId);
+      if (!removed) return { error: 'resource_not_found' };
+
+      return { ...existing, content: { ...existing.content, resources: resources.filter(resource => resource.id !== resourceId) } };
+    });
+    if ('error' in lesson) return lesson;
+
+    return { lesson, removed: removed! };
+  }
+
+  private async changeLesson(
+    courseId: string,
+    moduleId: string,
+    lessonId: string,
+    change: (lesson: Lesson) => Lesson | { error: CurriculumError }
+  ): Promise<Lesson | { error: CurriculumError }> {
+    const module = await this.changeLessons(courseId, moduleId, lessons => {
+      const existing = lessons.find(lesson => lesson.id === lessonId);
+      if (!existing) return { error: 'lesson_not_found' };
+
+      const changed = change(existing);
+      if ('error' in changed) return changed;
+
+      return lessons.map(lesson => lesson.id === lessonId ? changed : lesson);
+    });
+    return 'error' in module ? module : module.lessons.find(lesson => lesson.id === lessonId)!;
+  }
+
+  // Applies a change to one module's (ordered) lessons and returns the saved module
+  private async changeLessons(
+    courseId: string,
+    moduleId: string,
+    change: (lessons: Lesson[]) => Lesson[] | { error: CurriculumError }
+  ): Promise<CourseModule | { error: CurriculumError }> {
+    const course = await this.change(courseId, modules => {
+      const module = modules.find(candidate => candidate.id === moduleId);
+      if (!module) return { error: 'module_not_found' };
+
+      const lessons = change(module.lessons);
+      if ('error' in lessons) return lessons;
+
+      return modules.map(candidate => candidate.id === moduleId ? { ...candidate, lessons } : candidate);
+    });
+    return 'error' in course ? course : findModule(course, moduleId);
+  }
+
+  /**
+   * Reads the course draft, applies a change to its ordered modules and saves
+   * the result with recomputed durations, all in one transaction so
+   * concurrent edits cannot interleave. Returns the working copy.
+   */
+  private async change(
+    courseId: string,
+    change: (modules: CourseModule[]) => CourseModule[] | { error: CurriculumError }
+  ): Promise<Course | { error: CurriculumError }> {
+    return withTransaction(async () => {
+      const course = await CourseModel.findById(courseId);
+      if (!course) return { error: 'course_not_found' as const };
+
+      const working = await courseRevisionService.getWorkingCopy(course);
+      const modules = change(this.getModules(working));
+      if ('error' in modules) return modules;
+
+      const updated = await courseRevisionService.saveDraft(course, withDurations(modules));
+      return { ...updated, modules: this.getModules(updated) };
+    });
+  }
+}
+
+export const curriculumService = new CurriculumService();
\ No newline at end of file
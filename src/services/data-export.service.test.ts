@@ -0,0 +1,26 @@
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+import { DataExportModel } from '../models/DataExport';
+import { UserModel } from '../models/User';
+import { dataExportService } from './data-export.service';
+
+describe('dataExportService.request', () => {
+  beforeAll(async () => {
+    await migrateUp(db);
+    await seedDemoData();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('queues one export when two requests arrive together', async () => {
+    // Only the queueing is under test; the archive is never built
+    jest.spyOn(dataExportService, 'process').mockResolvedValue();
+    const user = (await UserModel.findByEmail('student@skillforge.com'))!;
+
+    const results = await Promise.all([dataExportService.request(user), dataExportService.request(user)]);
+
+    expect(results.filter(result => 'error' in result)).toEqual([{ error: 'An export is already being prepared' }]);
+    expect(await DataExportModel.findByUser(user.id)).toHaveLength(1);
+  });
+});
\ No newline at end of file
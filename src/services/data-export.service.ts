@@ -0,0 +1,233 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { withTransaction } from '../database';
+import { DataExportModel } from '../models/DataExport';
+import { UserModel } from '../models/User';
+import { CourseModel } from '../models/Course';
+import { PaymentModel } from '../models/Payment';
+import { AIChatMessageModel } from '../models/AIChatMessage';
+import { InstructorApplicationModel } from '../models/InstructorApplication';
+import { ReviewModel } from '../models/Review';
+import { apiKeyService } from './api-key.service';
+import { sessionService } from './session.service';
+import { mailService } from './mail.service';
+import { generateSecureToken, hashToken } from '../utils/token.utils';
+import { createZip, ZipEntry } from '../utils/zip.utils';
+import { DataExport, DataExportStatus, DataExportSummary } from '../types/data-export.types';
+import { User } from '../types/user.types';
+
+// An export still pending after this long belonged to a job that died (e.g. a restart) and no longer blocks a new one
+const STALE_AFTER_MS = 60 * 60 * 1000;
+
+const toSummary = (dataExport: DataExport): DataExportSummary => ({
+  id: dataExport.id,
+  status: dataExport.status,
+  ...(dataExport.sizeBytes !== undefined ? { sizeBytes: dataExport.sizeBytes } : {}),
+  ...(dataExport.expiresAt ? { expiresAt: dataExport.expiresAt } : {}),
+  ...(dataExport.completedAt ? { completedAt: dataExport.completedAt } : {}),
+  ...(dataExport.error ? { error: dataExport.error } : {}),
+  createdAt: dataExport.createdAt,
+});
+
+const archivePath = (exportId: string) => path.resolve(config.dataExport.dir, `${exportId}.zip`);
+
+const toJson = (value: unknown) => JSON.stringify(value, null, 2);
+
+class DataExportService {
+  /**
+   * Queues an export of everything stored about the user. Only one export
+   * can be in progress per user, so the check and the create share a
+   * transaction; the archive is built after the response.
+   */
+  async request(user: User): Promise<DataExportSummary | { error: string }> {
+    const dataExport = await withTransaction(async () => {
+      const inProgress = await DataExportModel.findInProgressByUser(user.id, new Date(Date.now() - STALE_AFTER_MS));
+      if (inProgress) return null;
+
+      return DataExportModel.create({ userId: user.id, status: DataExportStatus.PENDING });
+    });
+    if (!dataExport) {
+      return { error: 'An export is already being prepared' };
+    }
+
+    setImmediate(() => {
+      this.process(dataExport.id).catch(error => console.error('Data export job error:', error));
+    });
+
+    return toSummary(dataExport);
+  }
+
+  // Builds and stores the archive, then emails the user a download link that expires
+  async process(exportId: string): Promise<void> {
+    const dataExport = await DataExportModel.findById(exportId);
+    if (!dataExport || dataExport.status !== DataExportStatus.PENDING) return;
+
+    await DataExportModel.update(exportId, { status: DataExportStatus.PROCESSING });
+
+    const user = await UserModel.findById(dataExport.userId);
+    if (!user) {
+      await DataExportModel.update(exportId, { status: DataExportStatus.FAILED, error: 'User no longer exists' });
+      return;
+    }
+
+    let archive: Buffer;
+    try {
+      archive = createZip(await this.collect(user, dataExport));
+      await fs.promises.mkdir(path.resolve(config.dataExport.dir), { recursive: true });
+      await fs.promises.writeFile(archivePath(exportId), archive);
+    } catch (error) {
+      console.error('Data export build error:', error);
+      await DataExportModel.update(exportId, { status: DataExportStatus.FAILED, error: 'Failed to build the export' });
+      return;
+    }
+
+    const token = generateSecureToken();
+    const completed = await DataExportModel.update(exportId, {
+      status: DataExportStatus.COMPLETED,
+      sizeBytes: archive.length,
+      downloadTokenHash: hashToken(token),
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + config.dataExport.linkTtlHours * 60 * 60 * 1000),
+    });
+
+    try {
+      await mailService.sendDataExportReady(user.email, user.firstName, exportId, token, completed!.expiresAt!);
+    } catch (error) {
+      // The archive can still be downloaded from the account while signed in
+      console.error('Data export notification error:', error);
+    }
+  }
+
+  // One JSON file per kind of data, plus a manifest describing the export
+  async collect(user: User, dataExport: DataExport): Promise<ZipEntry[]> {
+    const [payments, chatHistory, sessions, apiKeys, applications, courses, reviews] = await Promise.all([
+      PaymentModel.findByUser(user.id),
+      AIChatMessageModel.findByUser(user.id),
+      sessionService.listForUser(user.id, ''),
+      apiKeyService.listForUser(user.id),
+      InstructorApplicationModel.findByUser(user.id),
+      CourseModel.findByInstructor(user.id),
+      ReviewModel.findByUser(user.id),
+    ]);
+
+    const profile = {
+      id: user.id,
+      email: user.email,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      emailVerifiedAt: user.emailVerifiedAt,
+      bio: user.bio,
+      skills: user.skills,
+      twoFactorEnabled: !!user.twoFactor?.enabled,
+      linkedIdentities: (user.externalIdentities || []).map(({ issuer, email, linkedAt }) => ({ issuer, email, linkedAt })),
+      createdAt: user.createdAt,
+      updatedAt: user.updatedAt,
+    };
+
+    // Uploaded files are exported as references; the files themselves stay in storage
+    const files = [
+      ...(user.avatar ? [{ type: 'avatar', url: user.avatar }] : []),
+      ...courses
+        .filter(course => course.thumbnail)
+        .map(course => ({ type: 'course_thumbnail', courseId: course.id, url: course.thumbnail })),
+    ];
+
+    const entries: ZipEntry[] = [
+      { name: 'profile.json', content: toJson(profile) },
+      { name: 'preferences.json', content: toJson(user.preferences) },
+      { name: 'progress.json', content: toJson(user.progress) },
+      { name: 'payments.json', content: toJson(payments) },
+      { name: 'reviews.json', content: toJson(reviews) },
+      { name: 'ai-chat-history.json', content: toJson(chatHistory) },
+      { name: 'files.json', content: toJson(files) },
+      { name: 'sessions.json', content: toJson(sessions) },
+      { name: 'api-keys.json', content: toJson(apiKeys) },
+      { name: 'instructor-applications.json', content: toJson(applications) },
+    ];
+
+    const manifest = {
+      exportId: dataExport.id,
+      userId: user.id,
+      generatedAt: new Date(),
+      files: entries.map(entry => entry.name),
+    };
+
+    return [{ name: 'export.json', content: toJson(manifest) }, ...entries];
+  }
+
+  async listForUser(userId: string): Promise<DataExportSummary[]> {
+    const exports = await DataExportModel.findByUser(userId);
+    return exports.map(toSummary);
+  }
+
+  async getForUser(userId: string, exportId: string): Promise<DataExportSummary | null> {
+    const dataExport = await DataExportModel.findById(exportId);
+    if (!dataExport || dataExport.userId !== userId) return null;
+    return toSummary(dataExport);
+  }
+
+  /**
+   * Resolves an archive for download by its owner (signed in) or by anyone
+   * holding the emailed link. Expired archives are deleted on first access.
+   */
+  async openDownload(
+    exportId: string,
+    access: { userId?: string; token?: string }
+  ): Promise<{ filePath: string; fileName: string } | { error: 'not_found' | 'not_ready' | 'expired' }> {
+    const dataExport = await DataExportModel.findById(exportId);
+    if (!dataExport) return { error: 'not_found' };
+
+    const isOwner = !!access.userId && access.userId === dataExport.userId;
+    const hasToken = !!access.token && !!dataExport.downloadTokenHash &&
+      crypto.timingSafeEqual(Buffer.from(hashToken(access.token), 'hex'), Buffer.from(dataExport.downloadTokenHash, 'hex'));
+    // Strangers get the same answer as for an unknown export
+    if (!isOwner && !hasToken) return { error: 'not_found' };
+
+    if (dataExport.status === DataExportStatus.EXPIRED) return { error: 'expired' };
+    if (dataExport.status !== DataExportStatus.COMPLETED) return { error: 'not_ready' };
+
+    if (dataExport.expiresAt && dataExport.expiresAt <= new Date()) {
+      await this.expire(dataExport);
+      return { error: 'expired' };
+    }
+
+    return { filePath: archivePath(dataExport.id), fileName: `skill-forge-export-${dataExport.id}.zip` };
+  }
+
+  // Deletes the archives of every export whose link has expired; returns how many were expired
+  async expireDue(now: Date = new Date()): Promise<number> {
+    const due = await DataExportModel.findExpired(now);
+
+    let expired = 0;
+    for (const dataExport of due) {
+      try {
+        await this.expire(dataExport);
+        expired++;
+      } catch (error) {
+        // Left as completed, so the next run tries again
+        console.error(`Data export expiry error (${dataExport.id}):`, error);
+      }
+    }
+    return expired;
+  }
+
+  // Removes every export of a user, archives included, when the account is purged
+  async deleteForUser(userId: string): Promise<number> {
+    const exports = await DataExportModel.findByUser(userId);
+    for (const dataExport of exports) {
+      await fs.promises.rm(archivePath(dataExport.id), { force: true });
+    }
+    return DataExportModel.deleteByUser(userId);
+  }
+
+  private async expire(dataExport: DataExport): Promise<void> {
+    await fs.promises.rm(archivePath(dataExport.id), { force: true });
+    await DataExportModel.update(dataExport.id, { status: DataExportStatus.EXPIRED });
+  }
+}
+
+export const dataExportService = new DataExportService();
\ No newline at end of file
@@ -0,0 +1,185 @@
+import { config } from '../config/env';
+import { LoginThrottleModel } from '../models/LoginThrottle';
+import { UserModel } from '../models/User';
+import { UserTokenModel } from '../models/UserToken';
+import { withTransaction } from '../database';
+import { auditService } from './audit.service';
+import { mailService } from './mail.service';
+import { generateSecureToken, hashToken } from '../utils/token.utils';
+import { LoginCheckResult, LoginThrottle, ThrottleScope, UserTokenType } from '../types/auth.types';
+import { AuditAction } from '../types/audit.types';
+
+interface ThrottlePolicy {
+  backoffAfter: number;
+  lockAfter: number;
+  lockMinutes: number;
+}
+
+const policies: Record<ThrottleScope, ThrottlePolicy> = {
+  [ThrottleScope.ACCOUNT]: config.loginProtection.account,
+  [ThrottleScope.IP]: config.loginProtection.ip,
+};
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const secondsUntil = (date: Date, now: Date) => Math.max(1, Math.ceil((date.getTime() - now.getTime()) / 1000));
+
+/**
+ * Drops records that no longer say anything: an expired lock, or failures
+ * older than the window. Callers then treat the key as having a clean slate.
+ */
+const current = (throttle: LoginThrottle | null, now: Date): LoginThrottle | null => {
+  if (!throttle) return null;
+
+  if (throttle.lockedUntil) {
+    return throttle.lockedUntil > now ? throttle : null;
+  }
+
+  const windowStart = now.getTime() - config.loginProtection.windowMinutes * 60 * 1000;
+  return throttle.lastFailureAt.getTime() > windowStart ? throttle : null;
+};
+
+// Exponential backoff once a key passes its soft threshold: 1s, 2s, 4s ... capped
+const backoffUntil = (throttle: LoginThrottle): Date | null => {
+  const { backoffAfter } = policies[throttle.scope];
+  if (throttle.failures < backoffAfter) return null;
+
+  const { baseDelaySeconds, maxDelaySeconds } = config.loginProtection;
+  const delaySeconds = Math.min(baseDelaySeconds * 2 ** (throttle.failures - backoffAfter), maxDelaySeconds);
+  return new Date(throttle.lastFailureAt.getTime() + delaySeconds * 1000);
+};
+
+class LoginProtectionService {
+  // Runs before the password is checked, so a locked account cannot be used as a password oracle
+  async check(email: string, ipAddress: string): Promise<LoginCheckResult> {
+    const now = new Date();
+    const ip = current(await LoginThrottleModel.find(ThrottleScope.IP, ipAddress), now);
+    const account = current(await LoginThrottleModel.find(ThrottleScope.ACCOUNT, normalizeEmail(email)), now);
+
+    if (ip?.lockedUntil) {
+      return { allowed: false, reason: 'ip_blocked', retryAfterSeconds: secondsUntil(ip.lockedUntil, now) };
+    }
+
+    if (account?.lockedUntil) {
+      return { allowed: false, reason: 'account_locked', retryAfterSeconds: secondsUntil(account.lockedUntil, now) };
+    }
+
+    const waits = [ip, account]
+      .map(throttle => throttle && backoffUntil(throttle))
+      .filter((until): until is Date => !!until && until > now);
+    if (waits.length > 0) {
+      const latest = new Date(Math.max(...waits.map(until => until.getTime())));
+      return { allowed: false, reason: 'backoff', retryAfterSeconds: secondsUntil(latest, now) };
+    }
+
+    return { allowed: true };
+  }
+
+  async recordFailure(email: string, ipAddress: string): Promise<void> {
+    const key = normalizeEmail(email);
+
+    const { accountLocked, ipBlocked } = await withTransaction(async () => {
+      const account = await this.increment(ThrottleScope.ACCOUNT, key);
+      const ip = await this.increment(ThrottleScope.IP, ipAddress);
+      return { accountLocked: account, ipBlocked: ip };
+    });
+
+    if (ipBlocked) {
+      await auditService.record({
+        action: AuditAction.IP_BLOCKED,
+        ipAddress,
+        metadata: { failures: ipBlocked.failures, lockedUntil: ipBlocked.lockedUntil },
+      });
+    }
+
+    if (accountLocked) {
+      const user = await UserModel.findByEmail(email);
+      await auditService.record({
+        action: AuditAction.ACCOUNT_LOCKED,
+        ...(user ? { targetType: 'user' as const, targetId: user.id } : {}),
+        ipAddress,
+        metadata: { email: key, failures: accountLocked.failures, lockedUntil: accountLocked.lockedUntil },
+      });
+
+      if (user) {
+        try {
+          await this.sendUnlockEmail(user.id, user.email, user.firstName);
+        } catch (error) {
+          console.error('Account unlock email error:', error);
+        }
+      }
+    }
+  }
+
+  // A successful sign-in clears the account's history but not the IP's
+  async recordSuccess(email: string): Promise<void> {
+    await LoginThrottleModel.clear(ThrottleScope.ACCOUNT, normalizeEmail(email));
+  }
+
+  async isLocked(email: string): Promise<boolean> {
+    const throttle = current(await LoginThrottleModel.find(ThrottleScope.ACCOUNT, normalizeEmail(email)), new Date());
+    return !!throttle?.lockedUntil;
+  }
+
+  // Returns false when there was nothing to unlock
+  async unlock(userId: string, unlockedBy: { actorId?: string; method: 'email' | 'admin' | 'password_reset' }): Promise<boolean> {
+    const user = await UserModel.findById(userId);
+    if (!user) return false;
+
+    const wasLocked = await this.isLocked(user.email);
+    await LoginThrottleModel.clear(ThrottleScope.ACCOUNT, normalizeEmail(user.email));
+    await UserTokenModel.invalidateForUser(user.id, UserTokenType.ACCOUNT_UNLOCK);
+
+    if (wasLocked) {
+      await auditService.record({
+        action: AuditAction.ACCOUNT_UNLOCKED,
+        ...(unlockedBy.actorId ? { actorId: unlockedBy.actorId } : {}),
+        targetType: 'user',
+        targetId: user.id,
+        metadata: { method: unlockedBy.method },
+      });
+    }
+
+    return wasLocked;
+  }
+
+  // Returns the record only when this failure is the one that locked the key
+  private async increment(scope: ThrottleScope, key: string): Promise<LoginThrottle | null> {
+    const now = new Date();
+    const existing = current(await LoginThrottleModel.find(scope, key), now);
+    const policy = policies[scope];
+
+    const failures = (existing?.failures || 0) + 1;
+    const shouldLock = !existing?.lockedUntil && failures >= policy.lockAfter;
+
+    const throttle = await LoginThrottleModel.save({
+      scope,
+      key,
+      failures,
+      firstFailureAt: existing?.firstFailureAt || now,
+      lastFailureAt: now,
+      ...(existing?.lockedUntil ? { lockedUntil: existing.lockedUntil } : {}),
+      ...(shouldLock ? { lockedUntil: new Date(now.getTime() + policy.lockMinutes * 60 * 1000) } : {}),
+    });
+
+    return shouldLock ? throttle : null;
+  }
+
+  private async sendUnlockEmail(userId: string, email: string, firstName: string): Promise<void> {
+    const token = generateSecureToken();
+
+    await withTransaction(async () => {
+      await UserTokenModel.invalidateForUser(userId, UserTokenType.ACCOUNT_UNLOCK);
+      await UserTokenModel.create({
+        userId,
+        type: UserTokenType.ACCOUNT_UNLOCK,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + config.loginProtection.unlockTokenTtlMinutes * 60 * 1000),
+      });
+    });
+
+    await mailService.sendAccountLocked(email, firstName, token);
+  }
+}
+
+export const loginProtectionService = new LoginProtectionService();
\ No newline at end of file
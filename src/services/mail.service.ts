@@ -0,0 +1,214 @@
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config/env';
+import { MailMessage, MailTransport } from '../types/mail.types';
+
+// Prints messages to stdout - the default for local development
+class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    console.log(`
+📧 Mail to ${message.to}
+   Subject: ${message.subject}
+
+${message.text}
+`);
+  }
+}
+
+// Writes each message to its own JSON file so tests and tooling can read them back
+class FileTransport implements MailTransport {
+  readonly name = 'file';
+
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${Date.now()}-${Math.random().toString(36).substr(2, 9)}.json`;
+    await fs.promises.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify({ ...message, sentAt: new Date() }, null, 2)
+    );
+  }
+}
+
+// Posts each message as JSON to a mail relay or provider endpoint - the transport for production
+class HttpTransport implements MailTransport {
+  readonly name = 'http';
+
+  constructor(private url: string, private token: string) {}
+
+  async send(message: MailMessage & { from: string }): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(this.token ? { authorization: `Bearer ${this.token}` } : {}),
+      },
+      body: JSON.stringify(message),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mail endpoint responded with ${response.status}`);
+    }
+  }
+}
+
+const createTransport = (name: string): MailTransport => {
+  switch (name) {
+    case 'http':
+      return new HttpTransport(config.mail.httpUrl, config.mail.httpToken);
+    case 'file':
+      return new FileTransport(path.resolve(config.mail.fileDir));
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(name ? `Unknown MAIL_TRANSPORT: ${name}` : 'MAIL_TRANSPORT is not set');
+  }
+};
+
+class MailService {
+  private transport: MailTransport;
+
+  constructor() {
+    this.transport = createTransport(config.mail.transport);
+  }
+
+  // Swap in another delivery mechanism (SMTP, a provider API, a test double)
+  setTransport(transport: MailTransport): void {
+    this.transport = transport;
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    try {
+      await this.transport.send({ ...message, from: config.mail.from });
+    } catch (error) {
+      console.error(`Mail delivery error (${this.transport.name}):`, error);
+      throw new Error('Failed to send email');
+    }
+  }
+
+  async sendPasswordReset(to: string, firstName: string, token: string): Promise<void> {
+    const link = `${config.client.url}/reset-password?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Reset your Skill Forge password',
+      text: `Hi ${firstName},
+
+We received a request to reset your password. Use the link below to choose a new one:
+
+${link}
+
+This link expires in ${config.passwordReset.tokenTtlMinutes} minutes and can only be used once.
+If you did not ask for this, you can ignore this email.`,
+    });
+  }
+
+  async sendEmailVerification(to: string, firstName: string, token: string): Promise<void> {
+    const link = `${config.client.url}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Verify your Skill Forge email address',
+      text: `Hi ${firstName},
+
+Welcome to Skill Forge! Please confirm your email address by opening the link below:
+
+${link}
+
+This link expires in ${config.emailVerification.tokenTtlHours} hours.`,
+    });
+  }
+
+  async sendAccountLocked(to: string, firstName: string, token: string): Promise<void> {
+    const link = `${config.client.url}/unlock-account?token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Your Skill Forge account has been locked',
+      text: `Hi ${firstName},
+
+We locked your account after several failed sign-in attempts. If this was you, you can unlock it now:
+
+${link}
+
+Otherwise the lock lifts on its own in ${config.loginProtection.account.lockMinutes} minutes. If you did not try to sign in, consider resetting your password.`,
+    });
+  }
+
+  async sendAccountDeletionScheduled(to: string, firstName: string, purgeAfter: Date): Promise<void> {
+    await this.send({
+      to,
+      subject: 'Your Skill Forge account is scheduled for deletion',
+      text: `Hi ${firstName},
+
+We received your request to delete your Skill Forge account. It will be permanently deleted on ${purgeAfter.toUTCString()}, together with your progress, sessions and uploaded files.
+
+Changed your mind? Sign in before then and restore your account:
+
+${config.client.url}/account/restore`,
+    });
+  }
+
+  async sendDataExportReady(to: string, firstName: string, exportId: string, token: string, expiresAt: Date): Promise<void> {
+    const link = `${config.client.url}/data-export?id=${encodeURIComponent(exportId)}&token=${encodeURIComponent(token)}`;
+
+    await this.send({
+      to,
+      subject: 'Your Skill Forge data export is ready',
+      text: `Hi ${firstName},
+
+The copy of your Skill Forge data you asked for is ready to download:
+
+${link}
+
+This link expires on ${expiresAt.toUTCString()}. After that the archive is deleted and you can request a new export from your account settings.`,
+    });
+  }
+
+  async sendInstructorApplicationDecision(to: string, firstName: string, approved: boolean, note?: string): Promise<void> {
+    const outcome = approved
+      ? `Good news - your application to teach on Skill Forge has been approved. Sign in again to start creating courses:
+
+${config.client.url}/login`
+      : 'Thank you for applying to teach on Skill Forge. After reviewing your application we are unable to approve it at this time.';
+
+    await this.send({
+      to,
+      subject: approved ? 'Your instructor application was approved' : 'Update on your instructor application',
+      text: `Hi ${firstName},
+
+${outcome}${note ? `
+
+Reviewer note: ${note}` : ''}`,
+    });
+  }
+
+  async sendCourseReviewDecision(
+    to: string,
+    firstName: string,
+    courseTitle: string,
+    approved: boolean,
+    note?: string
+  ): Promise<void> {
+    const outcome = approved
+      ? `"${courseTitle}" has been approved. You can publish it from your dashboard whenever you are ready:
+
+${config.client.url}/instructor/courses`
+      : `"${courseTitle}" was reviewed and needs some changes before it can be published. Update the course and submit it again when it is ready.`;
+
+    await this.send({
+      to,
+      subject: approved ? `Your course "${courseTitle}" was approved` : `Changes requested for "${courseTitle}"`,
+      text: `Hi ${firstName},
+
+${outcome}${note ? `
+
+Reviewer note: ${note}` : ''}`,
+    });
+  }
+}
+
+export const mailService = new MailService();
\ No newline at end of file
@@ -0,0 +1,263 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt from 'jsonwebtoken';
+import { config } from '../config/env';
+import { OidcLoginStateModel } from '../models/OidcLoginState';
+import { UserModel } from '../models/User';
+import { withTransaction } from '../database';
+import { generateSecureToken } from '../utils/token.utils';
+import { UserRole } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { OidcDiscoveryDocument, OidcIdTokenClaims } from '../types/oidc.types';
+
+type Jwk = crypto.JsonWebKey & { kid?: string };
+
+// Discovery documents rarely change; keys are refetched early when an unknown kid shows up
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+
+// ID tokens are unauthenticated input until verified, so an unknown kid reloads
+// the key set at most once per interval, and a kid the reloaded set still lacks
+// is refused without another reload for a while
+const JWKS_REFETCH_INTERVAL_MS = 60 * 1000;
+const JWKS_MISS_TTL_MS = 10 * 60 * 1000;
+
+const base64UrlSha256 = (value: string) => crypto.createHash('sha256').update(value).digest('base64url');
+
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  if (!response.ok) {
+    throw new Error(`OIDC request to ${url} failed with status ${response.status}`);
+  }
+  return response.json() as Promise<T>;
+};
+
+class OidcService {
+  private discovery: { document: OidcDiscoveryDocument; fetchedAt: number } | null = null;
+  private keys = new Map<string, crypto.KeyObject>();
+  private keysFetchedAt = 0;
+  private keysLoading: Promise<void> | null = null;
+  private missingKids = new Map<string, number>();
+
+  isEnabled(): boolean {
+    return !!(config.oidc.issuer && config.oidc.clientId);
+  }
+
+  async getDiscoveryDocument(): Promise<OidcDiscoveryDocument> {
+    if (this.discovery && Date.now() - this.discovery.fetchedAt < DISCOVERY_TTL_MS) {
+      return this.discovery.document;
+    }
+
+    const issuer = config.oidc.issuer.replace(/\/$/, '');
+    const document = await fetchJson<OidcDiscoveryDocument>(`${issuer}/.well-known/openid-configuration`);
+    if (document.issuer.replace(/\/$/, '') !== issuer) {
+      throw new Error(`OIDC discovery issuer mismatch: expected ${issuer}, got ${document.issuer}`);
+    }
+
+    this.discovery = { document, fetchedAt: Date.now() };
+    return document;
+  }
+
+  /**
+   * Builds the provider URL the browser is sent to. The PKCE verifier and
+   * nonce stay on the server, keyed by the random state the provider echoes
+   * back to the callback.
+   */
+  async createAuthorizationRequest(): Promise<{ authorizationUrl: string; state: string }> {
+    const discovery = await this.getDiscoveryDocument();
+
+    const state = generateSecureToken();
+    const nonce = generateSecureToken();
+    const codeVerifier = generateSecureToken(48);
+
+    await OidcLoginStateModel.deleteExpired();
+    await OidcLoginStateModel.create({
+      id: state,
+      codeVerifier,
+      nonce,
+      expiresAt: new Date(Date.now() + config.oidc.stateTtlMinutes * 60 * 1000),
+    });
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.oidc.clientId,
+      redirect_uri: config.oidc.redirectUri,
+      scope: config.oidc.scopes,
+      state,
+      nonce,
+      code_challenge: base64UrlSha256(codeVerifier),
+      code_challenge_method: 'S256',
+    });
+
+    return { authorizationUrl: `${discovery.authorization_endpoint}?${params.toString()}`, state };
+  }
+
+  /**
+   * Completes the flow: spends the state, exchanges the code (with the PKCE
+   * verifier) and returns the validated ID token claims.
+   */
+  async handleCallback(code: string, state: string): Promise<OidcIdTokenClaims | { error: string }> {
+    const loginState = await OidcLoginStateModel.consume(state);
+    if (!loginState) {
+      return { error: 'Invalid or expired login state' };
+    }
+
+    const discovery = await this.getDiscoveryDocument();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.oidc.redirectUri,
+      client_id: config.oidc.clientId,
+      code_verifier: loginState.codeVerifier,
+    });
+    const headers: Record<string, string> = { 'content-type': 'application/x-www-form-urlencoded' };
+    if (config.oidc.clientSecret) {
+      const credentials = `${encodeURIComponent(config.oidc.clientId)}:${encodeURIComponent(config.oidc.clientSecret)}`;
+      headers['authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    }
+
+    const response = await fetch(discovery.token_endpoint, { method: 'POST', headers, body });
+    if (!response.ok) {
+      return { error: 'Authorization code was rejected by the identity provider' };
+    }
+
+    const tokens = await response.json() as { id_token?: string };
+    if (!tokens.id_token) {
+      return { error: 'Identity provider did not return an ID token' };
+    }
+
+    return this.verifyIdToken(tokens.id_token, loginState.nonce);
+  }
+
+  async verifyIdToken(idToken: string, expectedNonce: string): Promise<OidcIdTokenClaims | { error: string }> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      return { error: 'Malformed ID token' };
+    }
+
+    const key = await this.getSigningKey(decoded.header.kid);
+    if (!key) {
+      return { error: 'ID token is signed with an unknown key' };
+    }
+
+    const discovery = await this.getDiscoveryDocument();
+
+    let claims: OidcIdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, key, {
+        algorithms: ['RS256', 'ES256'],
+        issuer: discovery.issuer,
+        audience: config.oidc.clientId,
+      }) as OidcIdTokenClaims;
+    } catch (error) {
+      return { error: 'ID token failed validation' };
+    }
+
+    if (claims.nonce !== expectedNonce) {
+      return { error: 'ID token nonce mismatch' };
+    }
+
+    return claims;
+  }
+
+  /**
+   * Finds the user for a set of validated claims: an already linked identity
+   * first, then an account with the same (provider-verified) email, which gets
+   * linked. Unknown people get a new student account when auto-creation is on.
+   */
+  async resolveUser(claims: OidcIdTokenClaims): Promise<User | { error: string }> {
+    const issuer = claims.iss;
+
+    return withTransaction(async () => {
+      const linked = await UserModel.findByExternalIdentity(issuer, claims.sub);
+      if (linked) return linked;
+
+      if (!claims.email || claims.email_verified !== true) {
+        return { error: 'Your identity provider account has no verified email address' };
+      }
+
+      const email = claims.email;
+      const identity = { issuer, subject: claims.sub, email, linkedAt: new Date() };
+
+      const existing = await UserModel.findByEmail(email);
+      if (existing) {
+        // Linking into an unverified account would hand it to whoever registered the address first
+        if (!existing.emailVerified) {
+          return { error: 'An account with this email exists but is not verified. Sign in with your password and verify it first' };
+        }
+
+        const updated = await UserModel.update(existing.id, {
+          externalIdentities: [...(existing.externalIdentities || []), identity],
+        });
+        return updated!;
+      }
+
+      if (!config.oidc.autoCreateUsers) {
+        return { error: 'No Skill Forge account exists for this email address' };
+      }
+
+      // Accounts created here have no usable password until the user sets one via reset
+      const [firstName = 'New', ...rest] = (claims.name || '').split(' ').filter(Boolean);
+      return UserModel.create({
+        email,
+        password: await bcrypt.hash(generateSecureToken(), 12),
+        firstName: claims.given_name || firstName,
+        lastName: claims.family_name || rest.join(' ') || 'User',
+        role: UserRole.STUDENT,
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+        bio: '',
+        skills: [],
+        preferences: UserModel.getDefaultPreferences(),
+        progress: [],
+        externalIdentities: [identity],
+      });
+    });
+  }
+
+  private async getSigningKey(kid: string | undefined): Promise<crypto.KeyObject | null> {
+    const cacheKey = kid || 'default';
+    const cached = this.keys.get(cacheKey);
+    if (cached) return cached;
+
+    const missedAt = this.missingKids.get(cacheKey);
+    if (missedAt !== undefined && Date.now() - missedAt < JWKS_MISS_TTL_MS) return null;
+
+    // Unknown kid: the provider may have rotated keys, so reload the set (concurrent callers share one reload)
+    if (!this.keysLoading) {
+      if (Date.now() - this.keysFetchedAt < JWKS_REFETCH_INTERVAL_MS) return null;
+      this.keysLoading = this.loadKeys().finally(() => {
+        this.keysLoading = null;
+      });
+    }
+    await this.keysLoading;
+
+    const key = this.keys.get(cacheKey);
+    if (!key) {
+      this.missingKids.set(cacheKey, Date.now());
+    }
+    return key || null;
+  }
+
+  private async loadKeys(): Promise<void> {
+    // Counted from the attempt, so a failing provider is not hammered either
+    this.keysFetchedAt = Date.now();
+
+    const discovery = await this.getDiscoveryDocument();
+    const { keys } = await fetchJson<{ keys: Jwk[] }>(discovery.jwks_uri);
+
+    this.keys.clear();
+    for (const jwk of keys) {
+      if (jwk['use'] && jwk['use'] !== 'sig') continue;
+      this.keys.set(jwk.kid || 'default', crypto.createPublicKey({ key: jwk, format: 'jwk' }));
+    }
+
+    for (const [kid, missedAt] of this.missingKids) {
+      if (this.keys.has(kid) || Date.now() - missedAt >= JWKS_MISS_TTL_MS) {
+        this.missingKids.delete(kid);
+      }
+    }
+  }
+}
+
+export const oidcService = new OidcService();
\ No newline at end of file
@@ -0,0 +1,201 @@
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+import { CourseModel } from '../models/Course';
+import { ReviewModel } from '../models/Review';
+import { UserModel } from '../models/User';
+import { Course } from '../types/course.types';
+import { Rating, Review, ReviewStatus } from '../types/review.types';
+import { User } from '../types/user.types';
+import { reviewService } from './review.service';
+
+describe('reviewService', () => {
+  let course: Course;
+  let userCount = 0;
+
+  beforeAll(async () => {
+    await migrateUp(db);
+    await seedDemoData();
+  });
+
+  // A course without reviews, so every test starts from an empty histogram
+  beforeEach(async () => {
+    const [seeded] = await CourseModel.findAll();
+    const { id, createdAt, updatedAt, ratingHistogram, ...data } = seeded!;
+    course = await CourseModel.create({ ...data, rating: 0, reviewCount: 0 });
+  });
+
+  const enrolledStudent = async (): Promise<User> => {
+    const { id, createdAt, updatedAt, ...student } = (await UserModel.findByEmail('student@skillforge.com'))!;
+    const now = new Date();
+    return UserModel.create({
+      ...student,
+      email: `review-student-${++userCount}@example.com`,
+      progress: [{ courseId: course.id, enrolledAt: now, completedModules: [], progressPercentage: 0, lastAccessedAt: now }],
+    });
+  };
+
+  const review = async (rating: Rating): Promise<Review> => {
+    const result = await reviewService.create(course, await enrolledStudent(), { rating, body: 'A thorough course' });
+    if ('error' in result) throw new Error(result.error);
+    return result;
+  };
+
+  const summary = async () => reviewService.getSummary((await CourseModel.findById(course.id))!);
+
+  describe('course rating', () => {
+    it('counts new reviews', async () => {
+      await review(5);
+      await review(4);
+      await review(4);
+
+      expect(await summary()).toEqual({ rating: 4.33, reviewCount: 3, histogram: { 1: 0, 2: 0, 3: 0, 4: 2, 5: 1 } });
+    });
+
+    it('moves a review to its new rating when it is edited', async () => {
+      const edited = await review(5);
+      await review(3);
+
+      await reviewService.update(edited, { rating: 1 });
+
+      expect(await summary()).toEqual({ rating: 2, reviewCount: 2, histogram: { 1: 1, 2: 0, 3: 1, 4: 0, 5: 0 } });
+    });
+
+    it('leaves the rating alone when an edit keeps the rating', async () => {
+      const edited = await review(4);
+
+      await reviewService.update(edited, { body: 'Still a thorough course' });
+
+      expect(await summary()).toEqual({ rating: 4, reviewCount: 1, histogram: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 } });
+    });
+
+    it('uses the stored rating when the caller holds a stale copy', async () => {
+      const stale = await review(5);
+      await reviewService.update(stale, { rating: 2 });
+
+      await reviewService.update(stale, { rating: 3 });
+
+      expect(await summary()).toEqual({ rating: 3, reviewCount: 1, histogram: { 1: 0, 2: 0, 3: 1, 4: 0, 5: 0 } });
+    });
+
+    it('drops hidden reviews and counts them again once republished', async () => {
+      const moderated = await review(1);
+      await review(5);
+
+      const hidden = await reviewService.moderate(moderated, 'moderator', ReviewStatus.HIDDEN, 'Off-topic');
+      expect(await summary()).toEqual({ rating: 5, reviewCount: 1, histogram: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 1 } });
+
+      // Hiding twice takes nothing more away
+      await reviewService.moderate(moderated, 'moderator', ReviewStatus.HIDDEN);
+      expect((await summary()).reviewCount).toBe(1);
+
+      await reviewService.moderate(hidden as Review, 'moderator', ReviewStatus.PUBLISHED);
+      expect(await summary()).toEqual({ rating: 3, reviewCount: 2, histogram: { 1: 1, 2: 0, 3: 0, 4: 0, 5: 1 } });
+    });
+
+    it('ignores rating edits to a hidden review', async () => {
+      const moderated = await review(2);
+      await reviewService.moderate(moderated, 'moderator', ReviewStatus.HIDDEN);
+
+      await reviewService.update(moderated, { rating: 5 });
+
+      expect((await summary()).reviewCount).toBe(0);
+    });
+
+    it('takes deleted reviews out of the rating', async () => {
+      const deleted = await review(2);
+      await review(4);
+
+      await reviewService.delete(deleted);
+
+      expect(await summary()).toEqual({ rating: 4, reviewCount: 1, histogram: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 } });
+    });
+
+    it('leaves the rating alone when a hidden review is deleted', async () => {
+      const deleted = await review(2);
+      await review(4);
+      await reviewService.moderate(deleted, 'moderator', ReviewStatus.HIDDEN);
+
+      await reviewService.delete(deleted);
+
+      expect(await summary()).toEqual({ rating: 4, reviewCount: 1, histogram: { 1: 0, 2: 0, 3: 0, 4: 1, 5: 0 } });
+    });
+
+    it('counts a review deleted twice only once', async () => {
+      const deleted = await review(2);
+      await review(4);
+
+      await reviewService.delete(deleted);
+      await reviewService.delete(deleted);
+
+      expect((await summary()).reviewCount).toBe(1);
+    });
+  });
+
+  describe('helpful votes', () => {
+    let voted: Review;
+    let voter: User;
+
+    beforeEach(async () => {
+      voted = await review(4);
+      voter = await enrolledStudent();
+    });
+
+    const helpfulCount = async () => (await ReviewModel.findById(voted.id))!.helpfulCount;
+
+    it('counts one vote per user', async () => {
+      expect(await reviewService.vote(voted.id, voter.id)).toMatchObject({ helpfulCount: 1 });
+      expect(await reviewService.vote(voted.id, voter.id)).toEqual({ error: 'already_voted' });
+      expect(await reviewService.vote(voted.id, (await enrolledStudent()).id)).toMatchObject({ helpfulCount: 2 });
+    });
+
+    it('refuses a vote on the author\'s own review', async () => {
+      expect(await reviewService.vote(voted.id, voted.userId)).toEqual({ error: 'own_review' });
+      expect(await helpfulCount()).toBe(0);
+    });
+
+    it('takes a vote back only once', async () => {
+      await reviewService.vote(voted.id, voter.id);
+
+      expect(await reviewService.unvote(voted.id, voter.id)).toMatchObject({ helpfulCount: 0 });
+      expect(await reviewService.unvote(voted.id, voter.id)).toEqual({ error: 'not_voted' });
+      expect(await helpfulCount()).toBe(0);
+    });
+
+    it('refuses votes on hidden reviews', async () => {
+      await reviewService.moderate(voted, 'moderator', ReviewStatus.HIDDEN);
+
+      expect(await reviewService.vote(voted.id, voter.id)).toEqual({ error: 'review_not_found' });
+    });
+
+    it('lets a user vote again once their vote was taken back', async () => {
+      await reviewService.vote(voted.id, voter.id);
+      await reviewService.unvote(voted.id, voter.id);
+
+      expect(await reviewService.vote(voted.id, voter.id)).toMatchObject({ helpfulCount: 1 });
+    });
+  });
+
+  describe('a review deleted in the meantime', () => {
+    let deleted: Review;
+
+    beforeEach(async () => {
+      deleted = await review(3);
+      await reviewService.delete(deleted);
+    });
+
+    it('is reported as not found', async () => {
+      expect(await reviewService.update(deleted, { rating: 5 })).toEqual({ error: 'review_not_found' });
+      expect(await reviewService.reply(deleted, course.instructorId, 'Thanks!')).toEqual({ error: 'review_not_found' });
+      expect(await reviewService.removeReply(deleted)).toEqual({ error: 'review_not_found' });
+      expect(await reviewService.moderate(deleted, 'moderator', ReviewStatus.HIDDEN)).toEqual({ error: 'review_not_found' });
+    });
+
+    it('leaves the rating alone', async () => {
+      await reviewService.update(deleted, { rating: 5 });
+      await reviewService.moderate(deleted, 'moderator', ReviewStatus.PUBLISHED);
+
+      expect((await summary()).reviewCount).toBe(0);
+    });
+  });
+});
\ No newline at end of file
@@ -0,0 +1,235 @@
+import { withTransaction } from '../database';
+import { CourseModel } from '../models/Course';
+import { ReviewModel } from '../models/Review';
+import { ReviewVoteModel } from '../models/ReviewVote';
+import { Course } from '../types/course.types';
+import { User } from '../types/user.types';
+import {
+  CreateReviewRequest,
+  Rating,
+  RatingHistogram,
+  RatingSummary,
+  Review,
+  ReviewQuery,
+  ReviewSort,
+  ReviewStatus,
+  UpdateReviewRequest,
+} from '../types/review.types';
+
+export type ReviewError =
+  | 'not_enrolled'
+  | 'own_course'
+  | 'already_reviewed'
+  | 'review_not_found'
+  | 'own_review'
+  | 'already_voted'
+  | 'not_voted';
+
+const RATINGS: Rating[] = [1, 2, 3, 4, 5];
+
+const emptyHistogram = (): RatingHistogram => ({ 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 });
+
+// The average is kept to two decimals; a course without reviews has a rating of 0
+const summarize = (histogram: RatingHistogram): RatingSummary => {
+  const reviewCount = RATINGS.reduce((total, rating) => total + histogram[rating], 0);
+  const stars = RATINGS.reduce((total, rating) => total + rating * histogram[rating], 0);
+
+  return {
+    rating: reviewCount > 0 ? Math.round((stars / reviewCount) * 100) / 100 : 0,
+    reviewCount,
+    histogram,
+  };
+};
+
+// Only published reviews count towards the course rating
+const counts = (review: Review) => review.status === ReviewStatus.PUBLISHED;
+
+const SORTS: Record<ReviewSort, (a: Review, b: Review) => number> = {
+  recent: (a, b) => b.createdAt.getTime() - a.createdAt.getTime(),
+  helpful: (a, b) => b.helpfulCount - a.helpfulCount || b.createdAt.getTime() - a.createdAt.getTime(),
+  highest: (a, b) => b.rating - a.rating || b.createdAt.getTime() - a.createdAt.getTime(),
+  lowest: (a, b) => a.rating - b.rating || b.createdAt.getTime() - a.createdAt.getTime(),
+};
+
+// "Ada Lovelace" is shown as "Ada L."
+const toAuthorName = (user: User) => `${user.firstName} ${user.lastName.charAt(0)}.`.trim();
+
+class ReviewService {
+  getSummary(course: Course): RatingSummary {
+    return summarize(course.ratingHistogram || emptyHistogram());
+  }
+
+  async list(courseId: string, query: ReviewQuery): Promise<Review[]> {
+    const reviews = await ReviewModel.findByCourse(courseId, query.status || ReviewStatus.PUBLISHED);
+    return reviews
+      .filter(review => !query.rating || review.rating === query.rating)
+      .sort(SORTS[query.sort || 'recent']);
+  }
+
+  async findForCourse(courseId: string, reviewId: string): Promise<Review | null> {
+    const review = await ReviewModel.findById(reviewId);
+    return review && review.courseId === courseId ? review : null;
+  }
+
+  async findMine(courseId: string, userId: string): Promise<Review | null> {
+    return ReviewModel.findByCourseAndUser(courseId, userId);
+  }
+
+  // Students enrolled in the course may review it once; the instructor may not review their own course
+  async create(course: Course, user: User, request: CreateReviewRequest): Promise<Review | { error: ReviewError }> {
+    if (course.instructorId === user.id) return { error: 'own_course' };
+    if (!user.progress.some(progress => progress.courseId === course.id)) return { error: 'not_enrolled' };
+
+    return withTransaction(async () => {
+      if (await ReviewModel.findByCourseAndUser(course.id, user.id)) {
+        return { error: 'already_reviewed' as const };
+      }
+
+      const review = await ReviewModel.create({
+        courseId: course.id,
+        userId: user.id,
+        authorName: toAuthorName(user),
+        rating: request.rating,
+        ...(request.title ? { title: request.title } : {}),
+        body: request.body,
+      });
+
+      await this.adjustRating(course.id, { added: review });
+      return review;
+    });
+  }
+
+  // The rating change is worked out against the stored review, which may have changed since the caller loaded it
+  async update(review: Review, request: UpdateReviewRequest): Promise<Review | { error: ReviewError }> {
+    return withTransaction(async () => {
+      const current = await ReviewModel.findById(review.id);
+      const updated = current && await ReviewModel.update(review.id, { ...request, editedAt: new Date() });
+      if (!current || !updated) return { error: 'review_not_found' as const };
+
+      if (updated.rating !== current.rating) {
+        await this.adjustRating(current.courseId, { removed: current, added: updated });
+      }
+      return updated;
+    });
+  }
+
+  async delete(review: Review): Promise<void> {
+    await withTransaction(async () => {
+      const current = await ReviewModel.findById(review.id);
+      if (!current) return;
+
+      await ReviewModel.delete(current.id);
+      await ReviewVoteModel.deleteByReview(current.id);
+      await this.adjustRating(current.courseId, { removed: current });
+    });
+  }
+
+  // Creates or replaces the instructor's reply; the original reply date is kept
+  async reply(review: Review, authorId: string, body: string): Promise<Review | { error: ReviewError }> {
+    const now = new Date();
+    const updated = await ReviewModel.update(review.id, {
+      reply: { authorId, body, createdAt: review.reply?.createdAt || now, updatedAt: now },
+    });
+    return updated || { error: 'review_not_found' };
+  }
+
+  async removeReply(review: Review): Promise<Review | { error: ReviewError }> {
+    const updated = await ReviewModel.removeReply(review.id);
+    return updated || { error: 'review_not_found' };
+  }
+
+  async vote(reviewId: string, userId: string): Promise<Review | { error: ReviewError }> {
+    return withTransaction(async () => {
+      const review = await ReviewModel.findById(reviewId);
+      if (!review || !counts(review)) return { error: 'review_not_found' as const };
+      if (review.userId === userId) return { error: 'own_review' as const };
+      if (await ReviewVoteModel.find(review.id, userId)) return { error: 'already_voted' as const };
+
+      await ReviewVoteModel.create(review.id, userId);
+      const updated = await ReviewModel.update(review.id, { helpfulCount: review.helpfulCount + 1 });
+      return updated || { error: 'review_not_found' as const };
+    });
+  }
+
+  async unvote(reviewId: string, userId: string): Promise<Review | { error: ReviewError }> {
+    return withTransaction(async () => {
+      const review = await ReviewModel.findById(reviewId);
+      if (!review) return { error: 'review_not_found' as const };
+      if (!(await ReviewVoteModel.delete(review.id, userId))) return { error: 'not_voted' as const };
+
+      const updated = await ReviewModel.update(review.id, { helpfulCount: Math.max(0, review.helpfulCount - 1) });
+      return updated || { error: 'review_not_found' as const };
+    });
+  }
+
+  // Hiding takes a review out of listings and the course rating; publishing it again puts it back
+  async moderate(review: Review, moderatorId: string, status: ReviewStatus, reason?: string): Promise<Review | { error: ReviewError }> {
+    return withTransaction(async () => {
+      const current = await ReviewModel.findById(review.id);
+      const updated = current && await ReviewModel.update(review.id, {
+        status,
+        moderation: { moderatedBy: moderatorId, moderatedAt: new Date(), ...(reason ? { reason } : {}) },
+      });
+      if (!current || !updated) return { error: 'review_not_found' as const };
+
+      if (counts(current) !== counts(updated)) {
+        await this.adjustRating(current.courseId, counts(updated) ? { added: updated } : { removed: current });
+      }
+      return updated;
+    });
+  }
+
+  // For account purges: the user's reviews go (ratings adjusted) and their helpful votes are taken back
+  async deleteForUser(userId: string): Promise<{ reviewsDeleted: number; votesDeleted: number }> {
+    return withTransaction(async () => {
+      const reviews = await ReviewModel.findByUser(userId);
+      for (const review of reviews) {
+        await this.delete(review);
+      }
+
+      const votes = await ReviewVoteModel.findByUser(userId);
+      for (const vote of votes) {
+        await ReviewVoteModel.delete(vote.reviewId, userId);
+        const review = await ReviewModel.findById(vote.reviewId);
+        if (review) {
+          await ReviewModel.update(review.id, { helpfulCount: Math.max(0, review.helpfulCount - 1) });
+        }
+      }
+
+      return { reviewsDeleted: reviews.length, votesDeleted: votes.length };
+    });
+  }
+
+  // The course itself is gone, so there is no rating left to adjust
+  async deleteForCourse(courseId: string): Promise<void> {
+    await withTransaction(async () => {
+      for (const review of await ReviewModel.findByCourse(courseId)) {
+        await ReviewModel.delete(review.id);
+        await ReviewVoteModel.deleteByReview(review.id);
+      }
+    });
+  }
+
+  /**
+   * Applies one review change to the course's histogram and recomputes the
+   * rating from it, so the aggregate never needs a scan of all reviews.
+   * Reviews that do not count (hidden ones) leave it untouched.
+   */
+  private async adjustRating(courseId: string, change: { added?: Review; removed?: Review }): Promise<void> {
+    const course = await CourseModel.findById(courseId);
+    if (!course) return;
+
+    const histogram = { ...(course.ratingHistogram || emptyHistogram()) };
+    if (change.removed && counts(change.removed)) {
+      histogram[change.removed.rating] = Math.max(0, histogram[change.removed.rating] - 1);
+    }
+    if (change.added && counts(change.added)) {
+      histogram[change.added.rating] += 1;
+    }
+
+    const summary = summarize(histogram);
+    await CourseModel.updateRating(course.id, summary.rating, summary.reviewCount, histogram);
+  }
+}
+
+export const reviewService = new ReviewService();
\ No newline at end of file
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import { SessionModel } from '../models/Session';
+import { UserModel } from '../models/User';
+import { withTransaction } from '../database';
+import { generateImpersonationToken, generateTokenPair, getTokenExpiry, verifyRefreshToken } from '../utils/jwt.utils';
+import { TokenPair } from '../types/auth.types';
+import { User } from '../types/user.types';
+import { ClientInfo, Session, SessionRevokedReason, SessionSummary } from '../types/session.types';
+
+// lastUsedAt is only rewritten when it is older than this, to avoid a write per request
+const ACTIVITY_RESOLUTION_MS = 60 * 1000;
+
+class SessionService {
+  /**
+   * Opens a new server-side session for a successful login and issues its
+   * first token pair. The refresh token's jti is the only one the session
+   * will accept until it is rotated.
+   */
+  async startSession(user: User, client: ClientInfo): Promise<TokenPair> {
+    return withTransaction(async () => {
+      const refreshTokenId = crypto.randomUUID();
+      const session = await SessionModel.create({
+        userId: user.id,
+        refreshTokenId,
+        device: client.device,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(),
+      });
+
+      const tokens = generateTokenPair({
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        sessionId: session.id,
+      }, refreshTokenId);
+
+      await SessionModel.update(session.id, { expiresAt: getTokenExpiry(tokens.refreshToken) });
+      return tokens;
+    });
+  }
+
+  /**
+   * Opens a session in which an admin acts as another user. It carries the
+   * admin's id so authenticate can re-check them on every request, and it
+   * ends when its single access token expires.
+   */
+  async startImpersonation(
+    impersonator: User,
+    target: User,
+    client: ClientInfo
+  ): Promise<{ accessToken: string; sessionId: string; expiresAt: Date }> {
+    return withTransaction(async () => {
+      const session = await SessionModel.create({
+        userId: target.id,
+        impersonatorId: impersonator.id,
+        refreshTokenId: crypto.randomUUID(),
+        device: client.device,
+        ipAddress: client.ipAddress,
+        expiresAt: new Date(),
+      });
+
+      const accessToken = generateImpersonationToken({
+        userId: target.id,
+        email: target.email,
+        role: target.role,
+        sessionId: session.id,
+        impersonatorId: impersonator.id,
+      });
+
+      const expiresAt = getTokenExpiry(accessToken);
+      await SessionModel.update(session.id, { expiresAt });
+      return { accessToken, sessionId: session.id, expiresAt };
+    });
+  }
+
+  /**
+   * Exchanges a refresh token for a new pair. Each refresh token works once:
+   * presenting one that was already rotated means it leaked, so the whole
+   * session is revoked and every token descended from it stops working.
+   */
+  async rotate(refreshToken: string, client: ClientInfo): Promise<TokenPair> {
+    const payload = verifyRefreshToken(refreshToken);
+
+    const result = await withTransaction(async () => {
+      const session = payload.sessionId ? await SessionModel.findById(payload.sessionId) : null;
+      if (!session || session.userId !== payload.userId || !SessionModel.isActive(session)) {
+        return { error: 'Session is no longer active' };
+      }
+
+      if (payload.jti !== session.refreshTokenId) {
+        await SessionModel.revoke(session.id, SessionRevokedReason.TOKEN_REUSE);
+        console.warn(`Refresh token reuse detected for session ${session.id} (user ${session.userId}, ip ${client.ipAddress})`);
+        return { error: 'Refresh token has already been used' };
+      }
+
+      const user = await UserModel.findById(session.userId);
+      if (!user) {
+        return { error: 'User not found' };
+      }
+
+      const refreshTokenId = crypto.randomUUID();
+      const tokens = generateTokenPair({
+        userId: user.id,
+        email: user.email,
+        role: user.role,
+        sessionId: session.id,
+      }, refreshTokenId);
+
+      await SessionModel.update(session.id, {
+        refreshTokenId,
+        ipAddress: client.ipAddress,
+        lastUsedAt: new Date(),
+        expiresAt: getTokenExpiry(tokens.refreshToken),
+      });
+
+      return { tokens };
+    });
+
+    // Thrown outside the transaction so a reuse revocation is still committed
+    if (!result.tokens) {
+      throw new Error(result.error);
+    }
+    return result.tokens;
+  }
+
+  // Returns the session if it is still active, recording the request as activity on it
+  async recordActivity(sessionId: string): Promise<Session | null> {
+    const session = await SessionModel.findById(sessionId);
+    if (!session || !SessionModel.isActive(session)) {
+      return null;
+    }
+
+    if (Date.now() - session.lastUsedAt.getTime() > ACTIVITY_RESOLUTION_MS) {
+      await SessionModel.update(session.id, { lastUsedAt: new Date() });
+    }
+    return session;
+  }
+
+  async listForUser(userId: string, currentSessionId: string): Promise<SessionSummary[]> {
+    const sessions = await SessionModel.findActiveByUser(userId);
+
+    return sessions
+      .sort((a, b) => b.lastUsedAt.getTime() - a.lastUsedAt.getTime())
+      .map(session => ({
+        id: session.id,
+        device: session.device,
+        ipAddress: session.ipAddress,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        isCurrent: session.id === currentSessionId,
+        impersonated: !!session.impersonatorId,
+      }));
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokedReason): Promise<boolean> {
+    return SessionModel.revoke(sessionId, reason);
+  }
+
+  async revokeAllForUser(userId: string, reason: SessionRevokedReason, exceptSessionId?: string): Promise<number> {
+    return withTransaction(async () => {
+      const sessions = await SessionModel.findActiveByUser(userId);
+      const toRevoke = sessions.filter(session => session.id !== exceptSessionId);
+
+      for (const session of toRevoke) {
+        await SessionModel.revoke(session.id, reason);
+      }
+      return toRevoke.length;
+    });
+  }
+}
+
+export const sessionService = new SessionService();
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { config } from '../config/env';
+import { UserModel } from '../models/User';
+import { withTransaction } from '../database';
+import { hashToken } from '../utils/token.utils';
+import {
+  buildOtpauthUri,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  verifyTotp,
+} from '../utils/totp.utils';
+import { User } from '../types/user.types';
+
+export interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+class TwoFactorService {
+  // Per-role policy: roles listed in TWO_FACTOR_REQUIRED_ROLES cannot sign in without 2FA
+  isRequiredFor(role: string): boolean {
+    return config.twoFactor.requiredRoles.includes(role);
+  }
+
+  /**
+   * Starts enrollment by generating a secret that stays pending until the
+   * user proves their authenticator has it. Returns the otpauth:// URI that
+   * clients render as a QR code.
+   */
+  async beginSetup(user: User): Promise<{ secret: string; otpauthUri: string }> {
+    const secret = generateTotpSecret();
+
+    await UserModel.update(user.id, {
+      twoFactor: {
+        enabled: false,
+        pendingSecret: secret,
+        recoveryCodes: [],
+      },
+    });
+
+    return {
+      secret,
+      otpauthUri: buildOtpauthUri(secret, user.email, config.twoFactor.issuer),
+    };
+  }
+
+  // Confirms the pending secret and returns plaintext recovery codes; they are never shown again
+  async enable(userId: string, code: string): Promise<string[] | null> {
+    return withTransaction(async () => {
+      const user = await UserModel.findById(userId);
+      const pendingSecret = user?.twoFactor?.pendingSecret;
+      if (!user || !pendingSecret) return null;
+
+      const step = verifyTotp(pendingSecret, code);
+      if (step === null) return null;
+
+      const recoveryCodes = generateRecoveryCodes();
+      await UserModel.update(user.id, {
+        twoFactor: {
+          enabled: true,
+          secret: pendingSecret,
+          recoveryCodes: recoveryCodes.map(hashToken),
+          lastUsedStep: step,
+          enabledAt: new Date(),
+        },
+      });
+
+      return recoveryCodes;
+    });
+  }
+
+  /**
+   * Checks a TOTP code or a recovery code. Accepted TOTP steps and used
+   * recovery codes are recorded so neither can be replayed.
+   */
+  async verify(userId: string, factor: SecondFactor): Promise<boolean> {
+    return withTransaction(async () => {
+      const user = await UserModel.findById(userId);
+      const settings = user?.twoFactor;
+      if (!user || !settings?.enabled || !settings.secret) return false;
+
+      if (factor.code) {
+        const step = verifyTotp(settings.secret, factor.code);
+        if (step === null || (settings.lastUsedStep !== undefined && step <= settings.lastUsedStep)) {
+          return false;
+        }
+
+        await UserModel.update(user.id, { twoFactor: { ...settings, lastUsedStep: step } });
+        return true;
+      }
+
+      if (factor.recoveryCode) {
+        const codeHash = hashToken(factor.recoveryCode.trim().toLowerCase());
+        if (!settings.recoveryCodes.includes(codeHash)) {
+          return false;
+        }
+
+        await UserModel.update(user.id, {
+          twoFactor: {
+            ...settings,
+            recoveryCodes: settings.recoveryCodes.filter(hash => hash !== codeHash),
+          },
+        });
+        return true;
+      }
+
+      return false;
+    });
+  }
+
+  async regenerateRecoveryCodes(userId: string): Promise<string[] | null> {
+    const user = await UserModel.findById(userId);
+    if (!user?.twoFactor?.enabled) return null;
+
+    const recoveryCodes = generateRecoveryCodes();
+    await UserModel.update(user.id, {
+      twoFactor: { ...user.twoFactor, recoveryCodes: recoveryCodes.map(hashToken) },
+    });
+
+    return recoveryCodes;
+  }
+
+  async disable(userId: string): Promise<void> {
+    await UserModel.update(userId, { twoFactor: { enabled: false, recoveryCodes: [] } });
+  }
+}
+
+export const twoFactorService = new TwoFactorService();
\ No newline at end of file
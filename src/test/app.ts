@@ -0,0 +1,78 @@
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import app from '../app';
+import { db } from '../database';
+import { migrateUp } from '../database/migrator';
+import { seedDemoData } from '../database/seeds/demo.seed';
+
+export const ADMIN_EMAIL = 'admin@skillforge.com';
+export const INSTRUCTOR_EMAIL = 'instructor@skillforge.com';
+export const STUDENT_EMAIL = 'student@skillforge.com';
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface RequestOptions {
+  body?: unknown;
+  token?: string;
+  headers?: Record<string, string>;
+}
+
+export interface TestApp {
+  request(method: string, path: string, options?: RequestOptions): Promise<TestResponse>;
+  login(email: string, password?: string): Promise<string>;
+  close(): Promise<void>;
+}
+
+/**
+ * Migrates and seeds the in-memory store, then serves the app on a free
+ * port. Each test file gets its own store, so suites cannot see each
+ * other's data.
+ */
+export const startTestApp = async (): Promise<TestApp> => {
+  await migrateUp(db);
+  await seedDemoData();
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  const { port } = server.address() as AddressInfo;
+
+  const request = async (method: string, path: string, options: RequestOptions = {}): Promise<TestResponse> => {
+    const response = await fetch(`http://127.0.0.1:${port}${path}`, {
+      method,
+      headers: {
+        'content-type': 'application/json',
+        ...(options.token ? { authorization: `Bearer ${options.token}` } : {}),
+        ...options.headers,
+      },
+      ...(options.body !== undefined ? { body: JSON.stringify(options.body) } : {}),
+    });
+
+    const text = await response.text();
+    let body: any = text;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // not JSON (CSV exports, downloads)
+    }
+    return { status: response.status, body };
+  };
+
+  // Returns an access token for one of the seeded accounts
+  const login = async (email: string, password = 'password'): Promise<string> => {
+    const response = await request('POST', '/api/auth/login', { body: { email, password } });
+    if (response.status !== 200) {
+      throw new Error(`Login as ${email} failed with ${response.status}`);
+    }
+    return response.body.data.accessToken;
+  };
+
+  const close = () => new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+
+  return { request, login, close };
+};
\ No newline at end of file
@@ -0,0 +1,187 @@
+import crypto from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import { OidcDiscoveryDocument } from '../types/oidc.types';
+
+export const MOCK_IDP_CLIENT_ID = 'skill-forge-test';
+
+// The person who signs in at the provider
+export interface MockIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  name?: string;
+}
+
+export interface MockIdp {
+  issuer: string;
+  // How often the JWKS endpoint was fetched
+  jwksRequests(): number;
+  /**
+   * Plays the browser and the user: opens the authorization URL, signs in as
+   * the identity and returns the code and state from the redirect back.
+   */
+  authorize(authorizationUrl: string, identity: MockIdentity): Promise<{ code: string; state: string }>;
+  // Signs arbitrary claims with the current key, or with a key the JWKS does not publish
+  signIdToken(claims: object, options?: { unpublishedKey?: boolean }): string;
+  // Replaces the signing key, as a provider does on rotation
+  rotateKey(): void;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce: string;
+  identity: MockIdentity;
+}
+
+interface SigningKey {
+  kid: string;
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.KeyObject;
+}
+
+const createSigningKey = (): SigningKey => {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  return { kid: crypto.randomBytes(8).toString('hex'), privateKey, publicKey };
+};
+
+const readBody = (req: http.IncomingMessage): Promise<string> => new Promise((resolve, reject) => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+  req.on('error', reject);
+});
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * A minimal OpenID provider on a free local port: discovery, JWKS, an
+ * authorization endpoint that signs in whoever `authorize` names, and a token
+ * endpoint that checks the PKCE verifier before issuing an RS256 ID token.
+ * Codes are single-use, like a real provider's.
+ */
+export const startMockIdp = async (): Promise<MockIdp> => {
+  let signingKey = createSigningKey();
+  const unpublishedKey = createSigningKey();
+  const codes = new Map<string, PendingCode>();
+  let nextIdentity: MockIdentity | null = null;
+  let jwksRequests = 0;
+  let issuer = '';
+
+  const signIdToken = (claims: object, options: { unpublishedKey?: boolean } = {}): string => {
+    const key = options.unpublishedKey ? unpublishedKey : signingKey;
+    return jwt.sign(claims, key.privateKey, { algorithm: 'RS256', keyid: key.kid, expiresIn: '5m' });
+  };
+
+  const handleAuthorize = (url: URL, res: http.ServerResponse) => {
+    const params = url.searchParams;
+    const identity = nextIdentity;
+    nextIdentity = null;
+
+    if (!identity || params.get('response_type') !== 'code' || params.get('code_challenge_method') !== 'S256') {
+      return sendJson(res, 400, { error: 'invalid_request' });
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      clientId: params.get('client_id') || '',
+      redirectUri: params.get('redirect_uri') || '',
+      codeChallenge: params.get('code_challenge') || '',
+      nonce: params.get('nonce') || '',
+      identity,
+    });
+
+    const redirect = new URL(params.get('redirect_uri') || '');
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', params.get('state') || '');
+    res.writeHead(302, { location: redirect.toString() });
+    res.end();
+  };
+
+  const handleToken = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const params = new URLSearchParams(await readBody(req));
+    const code = params.get('code') || '';
+    const pending = codes.get(code);
+    codes.delete(code);
+
+    const verifier = params.get('code_verifier') || '';
+    const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+    if (
+      !pending ||
+      params.get('grant_type') !== 'authorization_code' ||
+      params.get('client_id') !== pending.clientId ||
+      params.get('redirect_uri') !== pending.redirectUri ||
+      challenge !== pending.codeChallenge
+    ) {
+      return sendJson(res, 400, { error: 'invalid_grant' });
+    }
+
+    const idToken = signIdToken({ ...pending.identity, iss: issuer, aud: pending.clientId, nonce: pending.nonce });
+    return sendJson(res, 200, { access_token: 'mock-access-token', token_type: 'Bearer', id_token: idToken });
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', issuer);
+
+    if (req.method === 'GET' && url.pathname === '/.well-known/openid-configuration') {
+      const document: OidcDiscoveryDocument = {
+        issuer,
+        authorization_endpoint: `${issuer}/authorize`,
+        token_endpoint: `${issuer}/token`,
+        jwks_uri: `${issuer}/jwks`,
+        code_challenge_methods_supported: ['S256'],
+      };
+      return sendJson(res, 200, document);
+    }
+    if (req.method === 'GET' && url.pathname === '/jwks') {
+      jwksRequests++;
+      const jwk = signingKey.publicKey.export({ format: 'jwk' });
+      return sendJson(res, 200, { keys: [{ ...jwk, kid: signingKey.kid, use: 'sig', alg: 'RS256' }] });
+    }
+    if (req.method === 'GET' && url.pathname === '/authorize') {
+      return handleAuthorize(url, res);
+    }
+    if (req.method === 'POST' && url.pathname === '/token') {
+      handleToken(req, res).catch(() => sendJson(res, 500, { error: 'server_error' }));
+      return;
+    }
+    return sendJson(res, 404, { error: 'not_found' });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const authorize = async (authorizationUrl: string, identity: MockIdentity) => {
+    nextIdentity = identity;
+    const response = await fetch(authorizationUrl, { redirect: 'manual' });
+    const location = response.headers.get('location');
+    if (response.status !== 302 || !location) {
+      throw new Error(`Mock IdP refused the authorization request with ${response.status}`);
+    }
+
+    const redirect = new URL(location);
+    return { code: redirect.searchParams.get('code') || '', state: redirect.searchParams.get('state') || '' };
+  };
+
+  const close = () => new Promise<void>((resolve, reject) => {
+    server.close(error => (error ? reject(error) : resolve()));
+  });
+
+  return {
+    issuer,
+    jwksRequests: () => jwksRequests,
+    authorize,
+    signIdToken,
+    rotateKey: () => {
+      signingKey = createSigningKey();
+    },
+    close,
+  };
+};
\ No newline at end of file
@@ -0,0 +1,14 @@
+import os from 'os';
+import path from 'path';
+
+// Runs before each test file: a fresh in-memory store, no background jobs,
+// and no rate limit or admin 2FA requirement getting in the way of the suites
+process.env['NODE_ENV'] = 'test';
+process.env['DATABASE_URL'] = '';
+process.env['JWT_SECRET'] = 'test-secret';
+process.env['JWT_REFRESH_SECRET'] = 'test-refresh-secret';
+process.env['JOBS_ENABLED'] = 'false';
+process.env['RATE_LIMIT_MAX_REQUESTS'] = '100000';
+process.env['TWO_FACTOR_REQUIRED_ROLES'] = 'none';
+process.env['MAIL_TRANSPORT'] = 'console';
+process.env['DATA_EXPORT_DIR'] = path.join(os.tmpdir(), 'skillforge-test-exports');
\ No newline at end of file
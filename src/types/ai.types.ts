@@ -13,6 +13,18 @@ export interface TutorResponse {
   confidence: number;
 }
 
+// A tutor question and its answer, kept so users can review (and export) their history
+export interface AIChatMessage {
+  id: string;
+  userId: string;
+  courseId: string;
+  moduleId?: string;
+  lessonId?: string;
+  question: string;
+  answer: string;
+  createdAt: Date;
+}
+
 export interface ResumeAnalysisRequest {
   resumeText: string;
   targetRole?: string;
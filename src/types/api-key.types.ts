@@ -0,0 +1,33 @@
+import { Permission } from './permission.types';
+
+export interface ApiKey {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string; // public part of the key, shown in listings and used for lookup
+  keyHash: string; // sha256 of the full key; the key itself is only shown once
+  scopes: Permission[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: Permission[];
+  expiresInDays?: number;
+}
+
+export interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: Permission[];
+  expiresAt?: Date;
+  lastUsedAt?: Date;
+  lastUsedIp?: string;
+  createdAt: Date;
+}
\ No newline at end of file
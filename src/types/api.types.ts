@@ -1,3 +1,7 @@
+import { Request } from 'express';
+import { ParamsDictionary } from 'express-serve-static-core';
+import { Permission } from './permission.types';
+
 export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
@@ -41,11 +45,16 @@ export interface FilterQuery {
   [key: string]: any;
 }
 
-export interface RequestWithUser extends Request {
+// P types the route parameters, e.g. RequestWithUser<{ id: string }> for '/:id'
+export interface RequestWithUser<P = ParamsDictionary> extends Request<P> {
   user?: {
     userId: string;
     email: string;
     role: string;
+    sessionId?: string; // set for interactive logins (JWT)
+    apiKeyId?: string; // set when the request authenticated with an API key
+    scopes?: Permission[]; // an API key's permissions; absent means the role's full set
+    impersonatorId?: string; // the admin acting as this user
   };
 }
 
@@ -0,0 +1,81 @@
+export enum AuditAction {
+  ACCOUNT_LOCKED = 'account.locked',
+  ACCOUNT_UNLOCKED = 'account.unlocked',
+  IP_BLOCKED = 'ip.blocked',
+  USER_ROLE_CHANGED = 'user.role_changed',
+  USER_SUSPENDED = 'user.suspended',
+  USER_REACTIVATED = 'user.reactivated',
+  USER_DELETION_SCHEDULED = 'user.deletion_scheduled',
+  USER_DELETION_CANCELLED = 'user.deletion_cancelled',
+  USER_DELETED = 'user.deleted',
+  PASSWORD_RESET_FORCED = 'user.password_reset_forced',
+  IMPERSONATION_STARTED = 'impersonation.started',
+  IMPERSONATION_ENDED = 'impersonation.ended',
+  IMPERSONATED_REQUEST = 'impersonation.request',
+  COURSE_PUBLISHED = 'course.published',
+  COURSE_ROLLED_BACK = 'course.rolled_back',
+  COURSE_REVIEW_APPROVED = 'course.review_approved',
+  COURSE_REVIEW_REJECTED = 'course.review_rejected',
+  COURSE_DELETED = 'course.deleted',
+  REVIEW_MODERATED = 'review.moderated',
+  REVIEW_DELETED = 'review.deleted',
+  PAYMENT_REFUNDED = 'payment.refunded',
+}
+
+export type AuditTargetType = 'user' | 'course' | 'payment' | 'review';
+
+export interface AuditChange {
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Audit events are append-only and hash-chained: each event's hash covers
+ * its own fields and the previous event's hash, so editing or removing any
+ * stored event breaks every hash after it.
+ */
+export interface AuditEvent {
+  id: string;
+  sequence: number; // position in the chain, starting at 1
+  action: AuditAction;
+  actorId?: string; // user who caused the event, when there is one
+  targetType?: AuditTargetType;
+  targetId?: string;
+  changes?: Record<string, AuditChange>; // field-level before/after values
+  ipAddress?: string;
+  requestId?: string;
+  metadata: Record<string, unknown>;
+  createdAt: Date;
+  previousHash: string;
+  hash: string;
+}
+
+// The newest event in the chain, kept in its own record so an append need not scan the log
+export interface AuditChainHead {
+  id: 'head';
+  sequence: number;
+  hash: string;
+}
+
+export type RecordAuditEventInput = Omit<
+  AuditEvent,
+  'id' | 'sequence' | 'createdAt' | 'metadata' | 'previousHash' | 'hash'
+> & {
+  metadata?: Record<string, unknown>;
+};
+
+export interface AuditEventQuery {
+  page?: number;
+  limit?: number;
+  action?: AuditAction;
+  actorId?: string;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export type AuditChainVerification =
+  | { valid: true; events: number }
+  | { valid: false; events: number; brokenAt: number; reason: string };
\ No newline at end of file
@@ -14,7 +14,24 @@ export interface SignupRequest {
   password: string;
   firstName: string;
   lastName: string;
-  role?: UserRole;
+}
+
+export enum ChallengePurpose {
+  VERIFY = 'two_factor_verify', // user has 2FA and must enter a code
+  SETUP = 'two_factor_setup', // user's role requires 2FA but it is not enrolled yet
+}
+
+export interface ChallengePayload {
+  userId: string;
+  purpose: ChallengePurpose;
+  iat?: number;
+  exp?: number;
+}
+
+export interface TwoFactorLoginRequest {
+  challengeToken: string;
+  code?: string;
+  recoveryCode?: string;
 }
 
 export interface RefreshTokenRequest {
@@ -25,10 +42,20 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role: UserRole;
+  sessionId: string;
+  impersonatorId?: string; // set on act-as-user tokens: the admin making the request
+  jti?: string;
   iat?: number;
   exp?: number;
 }
 
+export type TokenClaims = Omit<JWTPayload, 'jti' | 'iat' | 'exp'>;
+
+export interface TokenPair {
+  accessToken: string;
+  refreshToken: string;
+}
+
 export interface AuthResponse {
   user: UserProfile;
   accessToken: string;
@@ -41,6 +68,7 @@ export interface UserProfile {
   firstName: string;
   lastName: string;
   role: UserRole;
+  emailVerified: boolean;
   avatar?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -49,4 +77,58 @@ export interface UserProfile {
 export interface ChangePasswordRequest {
   currentPassword: string;
   newPassword: string;
-}
\ No newline at end of file
+}
+
+export interface ForgotPasswordRequest {
+  email: string;
+}
+
+export interface ResetPasswordRequest {
+  token: string;
+  newPassword: string;
+}
+
+export interface VerifyEmailRequest {
+  token: string;
+}
+
+export enum UserTokenType {
+  PASSWORD_RESET = 'password_reset',
+  EMAIL_VERIFICATION = 'email_verification',
+  ACCOUNT_UNLOCK = 'account_unlock',
+}
+
+// Single-use token sent to the user by email; only the hash is persisted
+export interface UserToken {
+  id: string;
+  userId: string;
+  type: UserTokenType;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date;
+  createdAt: Date;
+}
+
+export interface UnlockAccountRequest {
+  token: string;
+}
+
+export enum ThrottleScope {
+  ACCOUNT = 'account', // keyed by normalized email, so unknown addresses are throttled the same way
+  IP = 'ip',
+}
+
+// Failed login attempts for one account or one client IP within the current window
+export interface LoginThrottle {
+  id: string; // `${scope}:${key}`
+  scope: ThrottleScope;
+  key: string;
+  failures: number;
+  firstFailureAt: Date;
+  lastFailureAt: Date;
+  lockedUntil?: Date;
+}
+
+export type LoginCheckResult =
+  | { allowed: true }
+  | { allowed: false; reason: 'account_locked' | 'ip_blocked' | 'backoff'; retryAfterSeconds: number };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { CourseContent, CourseContentDiff } from './course-revision.types';
+
+/**
+ * A course with no active submission is a draft. Submitting moves it to
+ * in_review; a reviewer approves or rejects it, and an approved submission
+ * is published by the instructor. Rejected and withdrawn submissions are
+ * final: the instructor edits the draft and submits again. A submission
+ * still open when a reviewer publishes the draft directly is superseded.
+ */
+export enum CourseSubmissionStatus {
+  IN_REVIEW = 'in_review',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  PUBLISHED = 'published',
+  WITHDRAWN = 'withdrawn',
+  SUPERSEDED = 'superseded',
+}
+
+export interface CourseReviewComment {
+  id: string;
+  authorId: string;
+  body: string;
+  moduleId?: string; // comments can point at a module or lesson of the submitted content
+  lessonId?: string;
+  createdAt: Date;
+}
+
+// A snapshot of the draft as submitted; approval covers exactly this content
+export interface CourseSubmission {
+  id: string;
+  courseId: string;
+  status: CourseSubmissionStatus;
+  content: CourseContent;
+  submittedBy: string;
+  message?: string; // the instructor's note to reviewers
+  comments: CourseReviewComment[];
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  publishedRevision?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type CourseSubmissionSummary = Omit<CourseSubmission, 'content'>;
+
+// Same shape as request validation errors, so clients can show both the same way
+export interface CoursePublishIssue {
+  field: string;
+  message: string;
+  code: string;
+}
+
+export interface SubmitCourseRequest {
+  message?: string;
+}
+
+export interface ReviewCourseRequest {
+  note?: string;
+}
+
+export interface AddReviewCommentRequest {
+  body: string;
+  moduleId?: string;
+  lessonId?: string;
+}
+
+export interface CourseReviewQuery {
+  page?: number;
+  limit?: number;
+  status?: CourseSubmissionStatus;
+}
+
+// What reviewers see: the submission, its course, and what publishing it would change
+export interface CourseSubmissionDetails extends CourseSubmission {
+  course: { id: string; instructorId: string; instructorName: string; isPublished: boolean; publishedRevision?: number };
+  changes: CourseContentDiff;
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { AuditChange } from './audit.types';
+import { Course } from './course.types';
+
+// What instructors edit and what a revision captures; ownership and stats (rating, enrollments) stay on the course
+export type CourseContent = Pick<Course,
+  | 'title'
+  | 'description'
+  | 'shortDescription'
+  | 'category'
+  | 'subcategory'
+  | 'level'
+  | 'price'
+  | 'currency'
+  | 'thumbnail'
+  | 'previewVideo'
+  | 'duration'
+  | 'modules'
+  | 'requirements'
+  | 'learningOutcomes'
+  | 'tags'
+>;
+
+/**
+ * The working copy of a course. Edits land here and only reach students
+ * when the draft is published; while a course is unpublished the course
+ * record mirrors it. Stored under the course's id, one per course.
+ */
+export interface CourseDraft extends CourseContent {
+  id: string; // the course id
+  updatedBy?: string;
+  updatedAt: Date;
+}
+
+// An immutable snapshot of what was live; numbered from 1 per course
+export interface CourseRevision {
+  id: string;
+  courseId: string;
+  number: number;
+  content: CourseContent;
+  publishedBy: string;
+  publishedAt: Date;
+  note?: string;
+  restoredFrom?: number; // set when the revision was created by rolling back
+}
+
+export type CourseRevisionSummary = Omit<CourseRevision, 'content'>;
+
+export interface PublishCourseRequest {
+  note?: string;
+}
+
+export type RollbackCourseRequest = PublishCourseRequest;
+
+export interface RevisionParams {
+  id: string;
+  revision: number;
+}
+
+export interface RevisionDiffQuery {
+  against?: number; // defaults to the previous revision
+}
+
+export interface CurriculumItemRef {
+  id: string;
+  title: string;
+}
+
+export interface LessonDiff extends CurriculumItemRef {
+  changes: Record<string, AuditChange>;
+}
+
+export interface ModuleDiff extends CurriculumItemRef {
+  changes: Record<string, AuditChange>;
+  lessons: CurriculumDiff<LessonDiff>;
+}
+
+export interface CurriculumDiff<T> {
+  added: CurriculumItemRef[];
+  removed: CurriculumItemRef[];
+  changed: T[];
+}
+
+// Course fields that differ, plus modules and lessons matched by id
+export interface CourseContentDiff {
+  changes: Record<string, AuditChange>;
+  modules: CurriculumDiff<ModuleDiff>;
+}
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { RatingHistogram } from './review.types';
+
 export interface Course {
   id: string;
   title: string;
@@ -19,8 +21,10 @@ export interface Course {
   tags: string[];
   rating: number;
   reviewCount: number;
+  ratingHistogram?: RatingHistogram; // how many reviews gave each rating; rating and reviewCount are derived from it
   enrollmentCount: number;
   isPublished: boolean;
+  publishedRevision?: number; // the revision that is live, once published through revisions
   createdAt: Date;
   updatedAt: Date;
 }
@@ -63,6 +67,8 @@ export enum LessonType {
 
 export interface LessonContent {
   videoUrl?: string;
+  video?: StoredFile; // set when the video was uploaded rather than linked
+
   textContent?: string;
   interactiveContent?: any;
   assignmentInstructions?: string;
@@ -75,6 +81,16 @@ export interface Resource {
   type: 'pdf' | 'link' | 'download';
   url: string;
   size?: number;
+  file?: StoredFile; // uploaded resources only; links have none
+}
+
+// An object uploaded to storage; the key is what gets deleted when the file is removed
+export interface StoredFile {
+  key: string;
+  size: number;
+  mimeType: string;
+  originalName: string;
+  uploadedAt: Date;
 }
 
 export interface Quiz {
@@ -122,24 +138,103 @@ export interface UpdateCourseRequest {
   tags?: string[];
 }
 
+export interface CreateModuleRequest {
+  title: string;
+  description?: string;
+  isPreview?: boolean;
+}
+
+export type UpdateModuleRequest = Partial<CreateModuleRequest>;
+
+export interface CreateLessonRequest {
+  title: string;
+  description?: string;
+  type: LessonType;
+  content?: Omit<LessonContent, 'resources'>;
+  duration: number;
+  isPreview?: boolean;
+}
+
+export type UpdateLessonRequest = Partial<CreateLessonRequest>;
+
+// The complete new order; every existing id must appear exactly once
+export interface ReorderModulesRequest {
+  moduleIds: string[];
+}
+
+export interface ReorderLessonsRequest {
+  lessonIds: string[];
+}
+
 export interface EnrollmentRequest {
   courseId: string;
   paymentIntentId?: string;
 }
 
+// Course length bands used for filtering and facets
+export type CourseDurationBand = 'under_1h' | '1_3h' | '3_6h' | '6_17h' | 'over_17h';
+
+export type CoursePriceBand = 'free' | 'under_20' | '20_50' | '50_100' | '100_plus';
+
 export interface CourseFilters {
   category?: string;
   subcategory?: string;
   level?: CourseLevel;
   priceMin?: number;
   priceMax?: number;
-  rating?: number;
-  duration?: number;
-  tags?: string[];
+  rating?: number; // minimum average rating
+  duration?: CourseDurationBand;
+  tags?: string[]; // courses must have every tag; matched case-insensitively
   search?: string;
 }
 
+export interface FacetBucket<V = string> {
+  value: V;
+  count: number;
+}
+
+// Selected by passing its priceMin/priceMax as filters
+export interface PriceFacetBucket extends FacetBucket<CoursePriceBand> {
+  priceMin?: number;
+  priceMax?: number;
+}
+
+/**
+ * How many courses each filter value would return. Facets are counted with
+ * all other filters applied but not their own, so picking one category
+ * still shows how many courses the other categories have. Tags are the
+ * exception: selected tags narrow each other, so they stay applied.
+ */
+export interface CourseFacets {
+  category: FacetBucket[];
+  subcategory: FacetBucket[];
+  level: FacetBucket<CourseLevel>[];
+  price: PriceFacetBucket[];
+  rating: FacetBucket<number>[]; // courses rated at least value
+  duration: FacetBucket<CourseDurationBand>[];
+  tags: FacetBucket[];
+}
+
+// A search match; relevance is only comparable between results of the same query
+export interface CourseSearchResult extends Course {
+  relevance: number;
+  matchedFields: string[];
+}
+
 export interface CourseSortOptions {
-  sortBy: 'title' | 'price' | 'rating' | 'enrollmentCount' | 'createdAt';
+  sortBy: 'relevance' | 'title' | 'price' | 'rating' | 'enrollmentCount' | 'createdAt';
   sortOrder: 'asc' | 'desc';
+}
+
+// Query of GET /courses: filters plus paging and sorting
+export interface CourseListQuery extends CourseFilters, Partial<CourseSortOptions> {
+  page?: number;
+  limit?: number;
+}
+
+// Query of GET /courses/search
+export interface CourseSearchQuery {
+  q?: string; // required by validation; checked again by the handler
+  page?: number;
+  limit?: number;
 }
\ No newline at end of file
@@ -0,0 +1,35 @@
+export enum DataExportStatus {
+  PENDING = 'pending',
+  PROCESSING = 'processing',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  EXPIRED = 'expired',
+}
+
+export interface DataExport {
+  id: string;
+  userId: string;
+  status: DataExportStatus;
+  sizeBytes?: number;
+  downloadTokenHash?: string; // sha256 of the token in the emailed download link
+  expiresAt?: Date; // set on completion; the archive is deleted after this
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// What users see of an export; never includes the token hash
+export interface DataExportSummary {
+  id: string;
+  status: DataExportStatus;
+  sizeBytes?: number;
+  expiresAt?: Date;
+  completedAt?: Date;
+  error?: string;
+  createdAt: Date;
+}
+
+export interface DataExportDownloadQuery {
+  token?: string;
+}
\ No newline at end of file
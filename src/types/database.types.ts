@@ -0,0 +1,50 @@
+export interface Entity {
+  id: string;
+}
+
+export type Predicate<T> = (entity: T) => boolean;
+
+export interface Repository<T extends Entity> {
+  findById(id: string): Promise<T | null>;
+  findOne(predicate: Predicate<T>): Promise<T | null>;
+  find(predicate?: Predicate<T>): Promise<T[]>;
+  count(predicate?: Predicate<T>): Promise<number>;
+  save(entity: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type DatabaseDriver = 'memory' | 'file';
+
+// Told about each committed write to a collection; a null entity is a delete
+export type CommitListener<T extends Entity> = (id: string, entity: T | null) => void;
+
+export interface DataStore {
+  readonly driver: DatabaseDriver;
+  collection<T extends Entity>(name: string): Repository<T>;
+  listCollections(): Promise<string[]>;
+  createCollection(name: string): Promise<void>;
+  dropCollection(name: string): Promise<void>;
+  transaction<R>(work: () => Promise<R>): Promise<R>;
+  // Runs after a write is committed, never for one a transaction discarded
+  onCommit<T extends Entity>(collection: string, listener: CommitListener<T>): void;
+  close(): Promise<void>;
+}
+
+export interface Migration {
+  version: number;
+  name: string;
+  up(db: DataStore): Promise<void>;
+  down(db: DataStore): Promise<void>;
+}
+
+export interface MigrationRecord extends Entity {
+  version: number;
+  name: string;
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  appliedAt?: Date;
+}
\ No newline at end of file
@@ -0,0 +1,37 @@
+export enum InstructorApplicationStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+}
+
+export interface InstructorApplication {
+  id: string;
+  userId: string;
+  bio: string;
+  expertise: string[];
+  experience: string;
+  portfolioUrl?: string;
+  status: InstructorApplicationStatus;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SubmitInstructorApplicationRequest {
+  bio: string;
+  expertise: string[];
+  experience: string;
+  portfolioUrl?: string;
+}
+
+export interface ReviewInstructorApplicationRequest {
+  note?: string;
+}
+
+export interface InstructorApplicationQuery {
+  page?: number;
+  limit?: number;
+  status?: InstructorApplicationStatus;
+}
\ No newline at end of file
@@ -0,0 +1,6 @@
+// A recurring background task run in-process by the job scheduler (see jobs/index.ts)
+export interface Job {
+  name: string;
+  intervalMs: number;
+  run(): Promise<unknown>;
+}
\ No newline at end of file
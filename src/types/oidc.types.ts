@@ -0,0 +1,34 @@
+// The subset of the provider's /.well-known/openid-configuration we rely on
+export interface OidcDiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  code_challenge_methods_supported?: string[];
+}
+
+// Server-side half of an authorization request, looked up by its `state`
+export interface OidcLoginState {
+  id: string; // the state parameter
+  codeVerifier: string;
+  nonce: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface OidcIdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean;
+  given_name?: string;
+  family_name?: string;
+  name?: string;
+}
+
+export interface OidcCallbackRequest {
+  code: string;
+  state: string;
+}
\ No newline at end of file
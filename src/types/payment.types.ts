@@ -6,10 +6,14 @@ export interface PaymentIntent {
   courseId: string;
   userId: string;
   stripePaymentIntentId: string;
+  anonymizedAt?: Date; // the paying account was deleted; userId no longer identifies anyone
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Stands in for the payer on payments kept for accounting after their account is purged
+export const ANONYMIZED_USER_ID = 'deleted_user';
+
 export enum PaymentStatus {
   PENDING = 'pending',
   SUCCEEDED = 'succeeded',
@@ -0,0 +1,61 @@
+/**
+ * Permissions are `resource:action`, optionally with a scope. `:own` grants
+ * the action on resources the user owns, `:any` on every resource.
+ */
+export enum Permission {
+  COURSE_CREATE = 'course:create',
+  COURSE_VIEW_DRAFT_OWN = 'course:view_draft:own',
+  COURSE_VIEW_DRAFT_ANY = 'course:view_draft:any',
+  COURSE_UPDATE_OWN = 'course:update:own',
+  COURSE_UPDATE_ANY = 'course:update:any',
+  COURSE_DELETE_OWN = 'course:delete:own',
+  COURSE_DELETE_ANY = 'course:delete:any',
+  COURSE_PUBLISH_OWN = 'course:publish:own',
+  COURSE_PUBLISH_ANY = 'course:publish:any',
+  COURSE_REVIEW = 'course:review',
+  COURSE_LIST_OWN = 'course:list:own',
+  COURSE_ENROLL = 'course:enroll',
+
+  PROFILE_READ = 'profile:read',
+  PROGRESS_READ = 'progress:read',
+  PROGRESS_UPDATE = 'progress:update',
+  DATA_EXPORT_READ = 'data_export:read',
+
+  REVIEW_CREATE = 'review:create',
+  REVIEW_UPDATE_OWN = 'review:update:own',
+  REVIEW_DELETE_OWN = 'review:delete:own',
+  REVIEW_DELETE_ANY = 'review:delete:any',
+  REVIEW_VOTE = 'review:vote',
+  REVIEW_MODERATE = 'review:moderate',
+
+  PAYMENT_CREATE = 'payment:create',
+  PAYMENT_READ_OWN = 'payment:read:own',
+  PAYMENT_READ_ANY = 'payment:read:any',
+  PAYMENT_REFUND_OWN = 'payment:refund:own',
+  PAYMENT_REFUND_ANY = 'payment:refund:any',
+  PAYMENT_STATS_OWN = 'payment:stats:own',
+  PAYMENT_STATS_ANY = 'payment:stats:any',
+
+  AI_USE = 'ai:use',
+  AI_USAGE_READ = 'ai:usage:read',
+
+  INSTRUCTOR_APPLICATION_CREATE = 'instructor_application:create',
+  INSTRUCTOR_APPLICATION_READ_OWN = 'instructor_application:read:own',
+  INSTRUCTOR_APPLICATION_REVIEW = 'instructor_application:review',
+
+  USER_READ_ANY = 'user:read:any',
+  USER_UPDATE_ROLE_ANY = 'user:update_role:any',
+  USER_SUSPEND_ANY = 'user:suspend:any',
+  USER_RESET_PASSWORD_ANY = 'user:reset_password:any',
+  USER_UNLOCK_ANY = 'user:unlock:any',
+  USER_IMPERSONATE_ANY = 'user:impersonate:any',
+
+  AUDIT_READ = 'audit:read',
+}
+
+// The subset of the authenticated user a policy decision needs
+export interface PermissionSubject {
+  userId: string;
+  role: string;
+  scopes?: Permission[]; // set for API key requests
+}
\ No newline at end of file
@@ -0,0 +1,81 @@
+// Ratings are whole stars from 1 to 5
+export type Rating = 1 | 2 | 3 | 4 | 5;
+
+// How many visible reviews gave each rating; kept on the course and updated with every review change
+export type RatingHistogram = Record<Rating, number>;
+
+export enum ReviewStatus {
+  PUBLISHED = 'published',
+  HIDDEN = 'hidden', // removed from view by a moderator; not counted in the course rating
+}
+
+export interface ReviewReply {
+  authorId: string;
+  body: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReviewModeration {
+  moderatedBy: string;
+  moderatedAt: Date;
+  reason?: string;
+}
+
+// One per student per course
+export interface Review {
+  id: string;
+  courseId: string;
+  userId: string;
+  authorName: string; // shown publicly instead of the full name
+  rating: Rating;
+  title?: string;
+  body: string;
+  status: ReviewStatus;
+  helpfulCount: number;
+  reply?: ReviewReply; // the instructor's response
+  moderation?: ReviewModeration;
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReviewVote {
+  id: string; // `${reviewId}:${userId}`, so a user can vote once per review
+  reviewId: string;
+  userId: string;
+  createdAt: Date;
+}
+
+export interface CreateReviewRequest {
+  rating: Rating;
+  title?: string;
+  body: string;
+}
+
+export type UpdateReviewRequest = Partial<CreateReviewRequest>;
+
+export interface ReviewReplyRequest {
+  body: string;
+}
+
+export interface ModerateReviewRequest {
+  status: ReviewStatus;
+  reason?: string;
+}
+
+export type ReviewSort = 'recent' | 'helpful' | 'highest' | 'lowest';
+
+export interface ReviewQuery {
+  page?: number;
+  limit?: number;
+  rating?: Rating;
+  sort?: ReviewSort;
+  status?: ReviewStatus; // moderators only; everyone else sees published reviews
+}
+
+export interface RatingSummary {
+  rating: number;
+  reviewCount: number;
+  histogram: RatingHistogram;
+}
\ No newline at end of file
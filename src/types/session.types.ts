@@ -0,0 +1,40 @@
+export interface Session {
+  id: string;
+  userId: string;
+  refreshTokenId: string; // jti of the only refresh token that may still be exchanged
+  impersonatorId?: string; // admin acting as this user; such sessions never get a refresh token
+  device: string;
+  ipAddress: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokedReason;
+  updatedAt: Date;
+}
+
+export enum SessionRevokedReason {
+  LOGOUT = 'logout',
+  TOKEN_REUSE = 'token_reuse',
+  REVOKED_BY_USER = 'revoked_by_user',
+  PASSWORD_RESET = 'password_reset',
+  ACCOUNT_SUSPENDED = 'account_suspended',
+  ADMIN_PASSWORD_RESET = 'admin_password_reset',
+  IMPERSONATION_ENDED = 'impersonation_ended',
+  ACCOUNT_DELETED = 'account_deleted',
+}
+
+export interface SessionSummary {
+  id: string;
+  device: string;
+  ipAddress: string;
+  createdAt: Date;
+  lastUsedAt: Date;
+  isCurrent: boolean;
+  impersonated: boolean;
+}
+
+export interface ClientInfo {
+  device: string;
+  ipAddress: string;
+}
\ No newline at end of file
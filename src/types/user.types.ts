@@ -7,15 +7,52 @@ export interface User {
   firstName: string;
   lastName: string;
   role: UserRole;
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
   avatar?: string;
   bio?: string;
   skills: string[];
   preferences: UserPreferences;
   progress: CourseProgress[];
+  twoFactor?: TwoFactorSettings;
+  externalIdentities?: ExternalIdentity[];
+  suspension?: AccountSuspension;
+  passwordResetRequired?: boolean; // set by an admin; sign-in is refused until the password is reset
+  deletion?: AccountDeletion;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Present while an admin has suspended the account; every credential is refused
+export interface AccountSuspension {
+  suspendedAt: Date;
+  suspendedBy: string;
+  reason?: string;
+}
+
+// Present while the user's deletion request is in its grace period; the account is purged after purgeAfter
+export interface AccountDeletion {
+  requestedAt: Date;
+  purgeAfter: Date;
+}
+
+// An account at an external identity provider that can sign in as this user
+export interface ExternalIdentity {
+  issuer: string;
+  subject: string; // the provider's stable user id (`sub`)
+  email: string;
+  linkedAt: Date;
+}
+
+export interface TwoFactorSettings {
+  enabled: boolean;
+  secret?: string;
+  pendingSecret?: string; // generated during setup, promoted to secret once a code confirms it
+  recoveryCodes: string[]; // sha256 hashes; each is removed when used
+  lastUsedStep?: number; // TOTP time step of the last accepted code, to stop replays
+  enabledAt?: Date;
+}
+
 export interface UserPreferences {
   notifications: {
     email: boolean;
@@ -61,4 +98,22 @@ export interface UserStats {
   certificatesEarned: number;
   currentStreak: number;
   longestStreak: number;
+}
+
+export type UserAccountStatus = 'active' | 'suspended' | 'pending_deletion';
+
+export interface UserListQuery {
+  page?: number;
+  limit?: number;
+  role?: UserRole;
+  search?: string;
+  status?: UserAccountStatus;
+}
+
+export interface ChangeUserRoleRequest {
+  role: UserRole;
+}
+
+export interface SuspendUserRequest {
+  reason?: string;
 }
\ No newline at end of file
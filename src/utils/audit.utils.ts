@@ -0,0 +1,45 @@
+import crypto from 'crypto';
+import { AuditChange, AuditEvent } from '../types/audit.types';
+
+// previousHash of the first event in the chain
+export const GENESIS_HASH = '0'.repeat(64);
+
+// JSON with object keys sorted, so an event hashes the same however it was stored
+const canonicalize = (value: unknown): string => {
+  return JSON.stringify(value, (_key, nested) => {
+    if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+      return Object.keys(nested).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = nested[key];
+        return sorted;
+      }, {});
+    }
+    return nested;
+  });
+};
+
+export const hashAuditEvent = (event: Omit<AuditEvent, 'hash'>): string => {
+  return crypto.createHash('sha256').update(event.previousHash + canonicalize(event)).digest('hex');
+};
+
+/**
+ * Lists the given fields whose values differ between two versions of a
+ * record. Only named fields are compared, so secrets never reach the log;
+ * pass null for a record that was created or deleted.
+ */
+export const diffFields = <T extends object>(
+  before: T | null,
+  after: T | null,
+  fields: (keyof T & string)[]
+): Record<string, AuditChange> => {
+  const changes: Record<string, AuditChange> = {};
+
+  for (const field of fields) {
+    const previous = before ? before[field] ?? null : null;
+    const next = after ? after[field] ?? null : null;
+    if (canonicalize(previous) !== canonicalize(next)) {
+      changes[field] = { before: previous, after: next };
+    }
+  }
+
+  return changes;
+};
\ No newline at end of file
@@ -0,0 +1,156 @@
+import {
+  Course,
+  CourseDurationBand,
+  CourseFacets,
+  CourseFilters,
+  CourseLevel,
+  CoursePriceBand,
+  FacetBucket,
+  PriceFacetBucket,
+} from '../types/course.types';
+
+// Price bounds are inclusive, matching the priceMin/priceMax filters
+const PRICE_BANDS: { value: CoursePriceBand; priceMin?: number; priceMax?: number }[] = [
+  { value: 'free', priceMax: 0 },
+  { value: 'under_20', priceMin: 0.01, priceMax: 19.99 },
+  { value: '20_50', priceMin: 20, priceMax: 49.99 },
+  { value: '50_100', priceMin: 50, priceMax: 99.99 },
+  { value: '100_plus', priceMin: 100 },
+];
+
+// Course durations are in minutes; a band includes its lower bound
+const DURATION_BANDS: { value: CourseDurationBand; min: number; max: number }[] = [
+  { value: 'under_1h', min: 0, max: 60 },
+  { value: '1_3h', min: 60, max: 180 },
+  { value: '3_6h', min: 180, max: 360 },
+  { value: '6_17h', min: 360, max: 1020 },
+  { value: 'over_17h', min: 1020, max: Infinity },
+];
+
+const RATING_THRESHOLDS = [4.5, 4, 3.5, 3];
+
+// Only the most common tags are returned as a facet
+const TAG_FACET_LIMIT = 20;
+
+export const DURATION_BAND_VALUES = DURATION_BANDS.map(band => band.value);
+
+type FilterGroup = 'category' | 'subcategory' | 'level' | 'price' | 'rating' | 'duration' | 'tags' | 'other';
+
+export type CatalogFilters = CourseFilters & { instructorId?: string; includeUnpublished?: boolean };
+
+const inPriceRange = (price: number, priceMin?: number, priceMax?: number) =>
+  (priceMin === undefined || price >= priceMin) && (priceMax === undefined || price <= priceMax);
+
+const inDurationBand = (duration: number, value: CourseDurationBand) => {
+  const band = DURATION_BANDS.find(candidate => candidate.value === value);
+  return !!band && duration >= band.min && duration < band.max;
+};
+
+// The active filters, each labelled with the facet it belongs to
+const predicates = (filters: CatalogFilters): [FilterGroup, (course: Course) => boolean][] => {
+  const active: [FilterGroup, (course: Course) => boolean][] = [];
+
+  if (filters.category) {
+    active.push(['category', course => course.category === filters.category]);
+  }
+  if (filters.subcategory) {
+    active.push(['subcategory', course => course.subcategory === filters.subcategory]);
+  }
+  if (filters.level) {
+    active.push(['level', course => course.level === filters.level]);
+  }
+  if (filters.priceMin !== undefined || filters.priceMax !== undefined) {
+    active.push(['price', course => inPriceRange(course.price, filters.priceMin, filters.priceMax)]);
+  }
+  if (filters.rating) {
+    active.push(['rating', course => course.rating >= filters.rating!]);
+  }
+  if (filters.duration) {
+    active.push(['duration', course => inDurationBand(course.duration, filters.duration!)]);
+  }
+  if (filters.tags && filters.tags.length > 0) {
+    const wanted = filters.tags.map(tag => tag.toLowerCase());
+    active.push(['tags', course => {
+      const tags = course.tags.map(tag => tag.toLowerCase());
+      return wanted.every(tag => tags.includes(tag));
+    }]);
+  }
+  if (filters.instructorId) {
+    active.push(['other', course => course.instructorId === filters.instructorId]);
+  }
+  // Only show published courses for non-instructors
+  if (!filters.includeUnpublished) {
+    active.push(['other', course => course.isPublished]);
+  }
+
+  return active;
+};
+
+// Courses matching every filter, except those of the given facet
+export const filterCourses = <T extends Course>(courses: T[], filters: CatalogFilters = {}, except?: FilterGroup): T[] => {
+  const active = predicates(filters).filter(([group]) => group !== except);
+  return courses.filter(course => active.every(([, matches]) => matches(course)));
+};
+
+// Most common first, then alphabetically
+const countValues = (values: string[]): FacetBucket[] => {
+  const counts = new Map<string, number>();
+  for (const value of values) {
+    counts.set(value, (counts.get(value) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+// Tags are grouped case-insensitively and shown as first seen
+const countTags = (courses: Course[]): FacetBucket[] => {
+  const labels = new Map<string, string>();
+  const keys = courses.flatMap(course => [...new Set(course.tags.map(tag => {
+    const key = tag.toLowerCase();
+    if (!labels.has(key)) labels.set(key, tag);
+    return key;
+  }))]);
+
+  return countValues(keys)
+    .slice(0, TAG_FACET_LIMIT)
+    .map(bucket => ({ value: labels.get(bucket.value)!, count: bucket.count }));
+};
+
+/**
+ * Counts for every facet over the given courses (everything the caller may
+ * see, narrowed by the search query if there is one). See CourseFacets for
+ * which filters apply to which facet.
+ */
+export const countFacets = (courses: Course[], filters: CatalogFilters = {}): CourseFacets => {
+  const without = (group: FilterGroup) => filterCourses(courses, filters, group);
+
+  const byPrice = without('price');
+  const byRating = without('rating');
+  const byDuration = without('duration');
+  const byLevel = without('level');
+
+  return {
+    category: countValues(without('category').map(course => course.category)),
+    subcategory: countValues(without('subcategory').map(course => course.subcategory).filter(Boolean)),
+    level: Object.values(CourseLevel).map(value => ({
+      value,
+      count: byLevel.filter(course => course.level === value).length,
+    })),
+    price: PRICE_BANDS.map(({ value, priceMin, priceMax }): PriceFacetBucket => ({
+      value,
+      count: byPrice.filter(course => inPriceRange(course.price, priceMin, priceMax)).length,
+      ...(priceMin !== undefined ? { priceMin } : {}),
+      ...(priceMax !== undefined ? { priceMax } : {}),
+    })),
+    rating: RATING_THRESHOLDS.map(value => ({
+      value,
+      count: byRating.filter(course => course.rating >= value).length,
+    })),
+    duration: DURATION_BANDS.map(({ value }) => ({
+      value,
+      count: byDuration.filter(course => inDurationBand(course.duration, value)).length,
+    })),
+    tags: countTags(filterCourses(courses, filters)),
+  };
+};
\ No newline at end of file
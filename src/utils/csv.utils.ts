@@ -0,0 +1,25 @@
+/**
+ * Quotes a field when it contains a delimiter, quote or line break (RFC 4180).
+ * Text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+const escapeCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) return '';
+
+  let text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (columns: string[], rows: Record<string, unknown>[]): string => {
+  const lines = [columns.map(escapeCsvField).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map(column => escapeCsvField(row[column])).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
\ No newline at end of file
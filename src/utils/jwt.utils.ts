@@ -1,16 +1,31 @@
-import jwt from 'jsonwebtoken';
+import jwt, { SignOptions } from 'jsonwebtoken';
 import { config } from '../config/env';
-import { JWTPayload } from '../types/auth.types';
+import { ChallengePayload, JWTPayload, TokenClaims, TokenPair } from '../types/auth.types';
 
-export const generateAccessToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
+// Challenge tokens are signed for a separate audience so they can never pass as access tokens
+const CHALLENGE_AUDIENCE = 'skillforge:login-challenge';
+
+// Durations come from config as strings such as '7d'
+type Duration = NonNullable<SignOptions['expiresIn']>;
+
+export const generateAccessToken = (payload: TokenClaims): string => {
   return jwt.sign(payload, config.jwt.secret, {
-    expiresIn: config.jwt.expiresIn,
+    expiresIn: config.jwt.expiresIn as Duration,
   });
 };
 
-export const generateRefreshToken = (payload: Omit<JWTPayload, 'iat' | 'exp'>): string => {
+// Act-as-user tokens are short-lived access tokens; no refresh token is ever issued for them
+export const generateImpersonationToken = (payload: TokenClaims): string => {
+  return jwt.sign(payload, config.jwt.secret, {
+    expiresIn: config.impersonation.expiresIn as Duration,
+  });
+};
+
+// Refresh tokens carry a unique jti so the session store can tell them apart
+export const generateRefreshToken = (payload: TokenClaims, tokenId: string): string => {
   return jwt.sign(payload, config.jwt.refreshSecret, {
-    expiresIn: config.jwt.refreshExpiresIn,
+    expiresIn: config.jwt.refreshExpiresIn as Duration,
+    jwtid: tokenId,
   });
 };
 
@@ -30,6 +45,21 @@ export const verifyRefreshToken = (token: string): JWTPayload => {
   }
 };
 
+export const generateChallengeToken = (payload: Omit<ChallengePayload, 'iat' | 'exp'>): string => {
+  return jwt.sign(payload, config.jwt.secret, {
+    expiresIn: config.twoFactor.challengeExpiresIn as Duration,
+    audience: CHALLENGE_AUDIENCE,
+  });
+};
+
+export const verifyChallengeToken = (token: string): ChallengePayload => {
+  try {
+    return jwt.verify(token, config.jwt.secret, { audience: CHALLENGE_AUDIENCE }) as ChallengePayload;
+  } catch (error) {
+    throw new Error('Invalid or expired challenge token');
+  }
+};
+
 export const extractTokenFromHeader = (authHeader: string | undefined): string | null => {
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
     return null;
@@ -37,9 +67,17 @@ export const extractTokenFromHeader = (authHeader: string | undefined): string |
   return authHeader.substring(7);
 };
 
-export const generateTokenPair = (payload: Omit<JWTPayload, 'iat' | 'exp'>) => {
+export const generateTokenPair = (payload: TokenClaims, refreshTokenId: string): TokenPair => {
   return {
     accessToken: generateAccessToken(payload),
-    refreshToken: generateRefreshToken(payload),
+    refreshToken: generateRefreshToken(payload, refreshTokenId),
   };
+};
+
+export const getTokenExpiry = (token: string): Date => {
+  const decoded = jwt.decode(token) as JWTPayload | null;
+  if (!decoded?.exp) {
+    throw new Error('Token has no expiry');
+  }
+  return new Date(decoded.exp * 1000);
 };
\ No newline at end of file
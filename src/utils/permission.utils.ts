@@ -0,0 +1,57 @@
+import { rolePermissions } from '../config/permissions';
+import { UserRole } from '../types/auth.types';
+import { Permission, PermissionSubject } from '../types/permission.types';
+
+const OWN_SUFFIX = ':own';
+
+const anyVariant = (permission: Permission): Permission | null => {
+  if (!permission.endsWith(OWN_SUFFIX)) return null;
+  return `${permission.slice(0, -OWN_SUFFIX.length)}:any` as Permission;
+};
+
+// Membership with the `:any` variant counting as its `:own` narrowing
+const includes = (granted: ReadonlySet<Permission> | readonly Permission[], permission: Permission): boolean => {
+  const set = granted instanceof Set ? granted : new Set(granted);
+  const broader = anyVariant(permission);
+  return set.has(permission) || (!!broader && set.has(broader));
+};
+
+/**
+ * A permission is held when the role grants it and, for API key requests,
+ * the key's scopes allow it too. A key can narrow a role, never widen it.
+ */
+const holds = (subject: PermissionSubject, permission: Permission): boolean => {
+  const granted = rolePermissions[subject.role as UserRole];
+  if (!granted || !includes(granted, permission)) return false;
+  return !subject.scopes || includes(subject.scopes, permission);
+};
+
+export const getPermissions = (role: string): Permission[] => {
+  return Array.from(rolePermissions[role as UserRole] ?? []);
+};
+
+/**
+ * Route-level check: may the subject perform the action on at least some
+ * resources? An `:own` permission is also satisfied by its `:any` variant.
+ * Used to gate routes before the resource is loaded.
+ */
+export const hasPermission = (subject: PermissionSubject, permission: Permission): boolean => {
+  return holds(subject, permission);
+};
+
+/**
+ * Resource-level check. For `:own` permissions pass the owner's id: holders
+ * of the `:any` variant always pass, holders of `:own` only when they are the
+ * owner. Without an owner id only `:any` holders pass.
+ */
+export const can = (user: PermissionSubject | undefined, permission: Permission, ownerId?: string): boolean => {
+  if (!user) return false;
+
+  const broader = anyVariant(permission);
+  if (!broader) {
+    return holds(user, permission);
+  }
+
+  if (holds(user, broader)) return true;
+  return holds(user, permission) && ownerId !== undefined && ownerId === user.userId;
+};
\ No newline at end of file
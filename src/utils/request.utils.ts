@@ -0,0 +1,10 @@
+import { Request } from 'express';
+import { ClientInfo } from '../types/session.types';
+
+export const getClientInfo = (req: Request): ClientInfo => ({
+  device: req.get('user-agent') || 'Unknown device',
+  ipAddress: req.ip || req.socket.remoteAddress || 'unknown',
+});
+
+// Set (or sanitised) for every request by the request id middleware
+export const getRequestId = (req: Request): string | undefined => req.get('x-request-id');
\ No newline at end of file
@@ -0,0 +1,125 @@
+import { SearchField, SearchIndex, editDistance, stem, tokenize } from './search.utils';
+
+describe('stem', () => {
+  it.each([
+    ['developer', 'develop'],
+    ['developing', 'develop'],
+    ['development', 'develop'],
+    ['programming', 'program'],
+    ['program', 'program'],
+    ['creating', 'creat'],
+    ['create', 'creat'],
+    ['courses', 'cours'],
+    ['course', 'cours'],
+    ['classes', 'class'],
+    ['libraries', 'library'],
+  ])('%s -> %s', (word, expected) => {
+    expect(stem(word)).toBe(expected);
+  });
+
+  it('leaves short words and words with symbols alone', () => {
+    expect(stem('css')).toBe('css');
+    expect(stem('c++')).toBe('c++');
+  });
+});
+
+describe('tokenize', () => {
+  it('lowercases, strips accents and stop words, and stems', () => {
+    expect(tokenize('The Café of C++ Developers')).toEqual(['caf', 'c++', 'develop']);
+  });
+});
+
+describe('editDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(editDistance('kitten', 'sitting', 3)).toBe(3);
+    expect(editDistance('javascript', 'javscript', 2)).toBe(1);
+  });
+
+  it('counts a swap of adjacent letters as one edit', () => {
+    expect(editDistance('react', 'raect', 2)).toBe(1);
+  });
+
+  it('stops at max + 1', () => {
+    expect(editDistance('abc', 'xyz', 1)).toBe(2);
+    expect(editDistance('a', 'abcd', 1)).toBe(2);
+  });
+});
+
+describe('SearchIndex', () => {
+  interface Doc {
+    id: string;
+    title: string;
+    description: string;
+  }
+
+  const fields: SearchField<Doc>[] = [
+    { name: 'title', boost: 5, extract: doc => [doc.title] },
+    { name: 'description', boost: 1, extract: doc => [doc.description] },
+  ];
+
+  const build = (docs: Doc[]) => {
+    const index = new SearchIndex(fields);
+    docs.forEach(doc => index.add(doc));
+    return index;
+  };
+
+  const ids = (index: SearchIndex<Doc>, query: string) => index.search(query).map(hit => hit.id);
+
+  it('ranks a title match above a description match', () => {
+    const index = build([
+      { id: 'cooking', title: 'Cooking at home', description: 'Python recipes for the kitchen' },
+      { id: 'python', title: 'Python basics', description: 'Learn to write scripts' },
+    ]);
+
+    const hits = index.search('python');
+
+    expect(hits.map(hit => hit.id)).toEqual(['python', 'cooking']);
+    expect(hits[0]!.fields).toEqual(['title']);
+    expect(hits[1]!.fields).toEqual(['description']);
+  });
+
+  it('ranks documents matching more of the query higher', () => {
+    const index = build([
+      { id: 'one', title: 'Python', description: '' },
+      { id: 'both', title: 'Python for data analysis', description: '' },
+    ]);
+
+    expect(ids(index, 'python data')).toEqual(['both', 'one']);
+  });
+
+  it('matches forms of the same word', () => {
+    const index = build([{ id: 'web', title: 'Web development', description: '' }]);
+
+    expect(ids(index, 'developers')).toEqual(['web']);
+  });
+
+  it('matches close spellings at a lower score', () => {
+    const index = build([{ id: 'python', title: 'Python basics', description: '' }]);
+
+    const [exact] = index.search('python');
+    const [typo] = index.search('pyhton');
+
+    expect(typo!.id).toBe('python');
+    expect(typo!.score).toBeLessThan(exact!.score);
+  });
+
+  it('allows no typos in short words', () => {
+    const index = build([{ id: 'css', title: 'CSS layouts', description: '' }]);
+
+    expect(ids(index, 'csx')).toEqual([]);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    const index = build([
+      { id: 'a', title: 'Rust', description: '' },
+      { id: 'b', title: 'Rust for beginners', description: '' },
+    ]);
+
+    index.remove('a');
+    index.add({ id: 'b', title: 'Go for beginners', description: '' });
+
+    expect(ids(index, 'rust')).toEqual([]);
+    expect(ids(index, 'go')).toEqual(['b']);
+    expect(index.size).toBe(1);
+  });
+});
\ No newline at end of file
@@ -0,0 +1,241 @@
+export interface SearchField<T> {
+  name: string;
+  boost: number; // how much a match in this field counts compared with others
+  extract: (doc: T) => string[];
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  fields: string[]; // fields where at least one query term matched
+}
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'you', 'your',
+]);
+
+// Tried in order; the first suffix that leaves a stem of at least three letters is removed
+const SUFFIXES: [string, string][] = [
+  ['ments', ''],
+  ['ment', ''],
+  ['ness', ''],
+  ['ings', ''],
+  ['ing', ''],
+  ['ies', 'y'],
+  ['ers', ''],
+  ['er', ''],
+  ['ly', ''],
+  ['ed', ''],
+];
+
+// BM25 parameters: term frequency saturation and field length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * A light suffix-stripping stemmer. It does not produce dictionary words,
+ * only the same stem for the forms of a word: "developer", "developing" and
+ * "development" all become "develop".
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 3 || !/^[a-z]+$/.test(word)) return word;
+
+  let stemmed = word;
+  const suffix = SUFFIXES.find(([ending]) => word.endsWith(ending) && word.length - ending.length >= 3);
+  if (suffix) {
+    stemmed = word.slice(0, -suffix[0].length) + suffix[1];
+  } else if (/(ch|sh|ss|x|z)es$/.test(word)) {
+    stemmed = word.slice(0, -2);
+  } else if (/[^siu]s$/.test(word)) {
+    stemmed = word.slice(0, -1);
+  }
+
+  // "programm" -> "program", so "programming" and "program" meet
+  if (/([^aeiouslz])\1$/.test(stemmed)) {
+    stemmed = stemmed.slice(0, -1);
+  }
+  // "create" and "creating" both become "creat"
+  if (stemmed.length > 3 && stemmed.endsWith('e')) {
+    stemmed = stemmed.slice(0, -1);
+  }
+
+  return stemmed;
+};
+
+// Lowercased words without accents or stop words; "C++" and "C#" keep their symbols
+export const tokenize = (text: string): string[] => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .match(/[a-z0-9]+[+#]*/g) || [];
+
+  return words.filter(word => !STOP_WORDS.has(word)).map(stem);
+};
+
+/**
+ * Edits (insert, delete, substitute, swap adjacent letters) needed to turn
+ * a into b. Gives up once the distance is known to exceed max.
+ */
+export const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let before: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j]!, before[j - 2]! + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]!);
+    }
+    if (rowMin > max) return max + 1;
+    before = previous;
+    previous = current;
+  }
+  return previous[b.length]!;
+};
+
+// Short words get no typo allowance: "java" is one edit away from "lava"
+const allowedEdits = (term: string) => (term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0);
+
+interface IndexedDoc {
+  lengths: number[]; // token count per field
+  terms: string[];
+}
+
+/**
+ * An in-memory inverted index: each term points at the documents and
+ * fields it occurs in, so a search only looks at documents that contain
+ * a query term. Scores are BM25 per field, weighted by the field's boost.
+ */
+export class SearchIndex<T extends { id: string }> {
+  private postings = new Map<string, Map<string, number[]>>(); // term -> doc id -> frequency per field
+  private docs = new Map<string, IndexedDoc>();
+  private totalLengths: number[];
+
+  constructor(private fields: SearchField<T>[]) {
+    this.totalLengths = fields.map(() => 0);
+  }
+
+  get size(): number {
+    return this.docs.size;
+  }
+
+  // Adds the document, replacing any earlier version of it
+  add(doc: T): void {
+    this.remove(doc.id);
+
+    const lengths: number[] = [];
+    const terms = new Set<string>();
+    this.fields.forEach((field, index) => {
+      const tokens = field.extract(doc).flatMap(tokenize);
+      lengths.push(tokens.length);
+      this.totalLengths[index]! += tokens.length;
+
+      for (const token of tokens) {
+        terms.add(token);
+        let entries = this.postings.get(token);
+        if (!entries) {
+          entries = new Map();
+          this.postings.set(token, entries);
+        }
+        let frequencies = entries.get(doc.id);
+        if (!frequencies) {
+          frequencies = this.fields.map(() => 0);
+          entries.set(doc.id, frequencies);
+        }
+        frequencies[index]! += 1;
+      }
+    });
+
+    this.docs.set(doc.id, { lengths, terms: [...terms] });
+  }
+
+  remove(id: string): void {
+    const indexed = this.docs.get(id);
+    if (!indexed) return;
+
+    for (const term of indexed.terms) {
+      const entries = this.postings.get(term);
+      entries?.delete(id);
+      if (entries?.size === 0) this.postings.delete(term);
+    }
+    indexed.lengths.forEach((length, index) => {
+      this.totalLengths[index]! -= length;
+    });
+    this.docs.delete(id);
+  }
+
+  /**
+   * Ranks documents that match any query term, best first. Query terms the
+   * index has never seen are matched against close spellings instead, at a
+   * lower weight, and documents matching more of the query rank higher.
+   */
+  search(query: string): SearchHit[] {
+    const terms = [...new Set(tokenize(query))];
+    if (terms.length === 0 || this.docs.size === 0) return [];
+
+    const scores = new Map<string, { score: number; matchedTerms: number; fields: Set<string> }>();
+
+    for (const term of terms) {
+      const matched = new Set<string>();
+      for (const [candidate, weight] of this.expand(term)) {
+        const entries = this.postings.get(candidate)!;
+        const idf = Math.log(1 + (this.docs.size - entries.size + 0.5) / (entries.size + 0.5));
+
+        for (const [id, frequencies] of entries) {
+          const hit = scores.get(id) || { score: 0, matchedTerms: 0, fields: new Set<string>() };
+          hit.score += weight * idf * this.fieldScore(id, frequencies, hit.fields);
+          if (!matched.has(id)) {
+            matched.add(id);
+            hit.matchedTerms += 1;
+          }
+          scores.set(id, hit);
+        }
+      }
+    }
+
+    return [...scores.entries()]
+      .map(([id, hit]) => ({
+        id,
+        score: Math.round(hit.score * (hit.matchedTerms / terms.length) * 1000) / 1000,
+        fields: this.fields.map(field => field.name).filter(name => hit.fields.has(name)),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  // The term itself when indexed, otherwise indexed terms within the allowed typo distance
+  private expand(term: string): [string, number][] {
+    if (this.postings.has(term)) return [[term, 1]];
+
+    const max = allowedEdits(term);
+    if (max === 0) return [];
+
+    const expanded: [string, number][] = [];
+    for (const candidate of this.postings.keys()) {
+      const distance = editDistance(term, candidate, max);
+      if (distance <= max) expanded.push([candidate, 0.5 ** distance]);
+    }
+    return expanded;
+  }
+
+  private fieldScore(id: string, frequencies: number[], matchedFields: Set<string>): number {
+    const lengths = this.docs.get(id)!.lengths;
+
+    return this.fields.reduce((total, field, index) => {
+      const frequency = frequencies[index]!;
+      if (frequency === 0) return total;
+
+      matchedFields.add(field.name);
+      const averageLength = this.totalLengths[index]! / this.docs.size || 1;
+      const normalization = K1 * (1 - B + B * (lengths[index]! / averageLength));
+      return total + field.boost * (frequency * (K1 + 1)) / (frequency + normalization);
+    }, 0);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,10 @@
+import crypto from 'crypto';
+
+// Random, URL-safe secret handed to the user; only its hash is ever stored
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('base64url');
+};
+
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
\ No newline at end of file
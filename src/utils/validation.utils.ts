@@ -1,6 +1,12 @@
 import Joi from 'joi';
 import { UserRole } from '../types/auth.types';
-import { CourseLevel } from '../types/course.types';
+import { CourseLevel, LessonType } from '../types/course.types';
+import { InstructorApplicationStatus } from '../types/instructor.types';
+import { CourseSubmissionStatus } from '../types/course-review.types';
+import { ReviewStatus } from '../types/review.types';
+import { Permission } from '../types/permission.types';
+import { AuditAction } from '../types/audit.types';
+import { DURATION_BAND_VALUES } from './catalog.utils';
 
 // Auth validation schemas
 export const loginSchema = Joi.object({
@@ -13,13 +19,60 @@ export const signupSchema = Joi.object({
   password: Joi.string().min(6).required(),
   firstName: Joi.string().min(2).max(50).required(),
   lastName: Joi.string().min(2).max(50).required(),
-  role: Joi.string().valid(...Object.values(UserRole)).optional(),
 });
 
 export const refreshTokenSchema = Joi.object({
   refreshToken: Joi.string().required(),
 });
 
+export const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+export const verifyEmailSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+export const unlockAccountSchema = Joi.object({
+  token: Joi.string().required(),
+});
+
+export const resetPasswordSchema = Joi.object({
+  token: Joi.string().required(),
+  newPassword: Joi.string().min(6).required(),
+});
+
+const totpCode = Joi.string().pattern(/^\d{6}$/).messages({ 'string.pattern.base': 'Code must be 6 digits' });
+
+export const oidcCallbackSchema = Joi.object({
+  code: Joi.string().required(),
+  state: Joi.string().required(),
+});
+
+export const twoFactorLoginSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: totpCode,
+  recoveryCode: Joi.string().max(32),
+}).xor('code', 'recoveryCode');
+
+export const twoFactorChallengeSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+});
+
+export const twoFactorChallengeEnableSchema = Joi.object({
+  challengeToken: Joi.string().required(),
+  code: totpCode.required(),
+});
+
+export const twoFactorCodeSchema = Joi.object({
+  code: totpCode.required(),
+});
+
+export const twoFactorDisableSchema = Joi.object({
+  password: Joi.string().required(),
+  code: totpCode.required(),
+});
+
 // User validation schemas
 export const updateUserSchema = Joi.object({
   firstName: Joi.string().min(2).max(50).optional(),
@@ -45,6 +98,65 @@ export const updateUserSchema = Joi.object({
   }).optional(),
 });
 
+// Audit log schemas
+export const auditQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  action: Joi.string().valid(...Object.values(AuditAction)).optional(),
+  actorId: Joi.string().optional(),
+  targetType: Joi.string().valid('user', 'course', 'payment', 'review').optional(),
+  targetId: Joi.string().optional(),
+  requestId: Joi.string().optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().min(Joi.ref('from')).optional(),
+});
+
+// Admin user management schemas
+export const userListQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  role: Joi.string().valid(...Object.values(UserRole)).optional(),
+  search: Joi.string().max(100).optional(),
+  status: Joi.string().valid('active', 'suspended', 'pending_deletion').optional(),
+});
+
+export const changeUserRoleSchema = Joi.object({
+  role: Joi.string().valid(...Object.values(UserRole)).required(),
+});
+
+export const suspendUserSchema = Joi.object({
+  reason: Joi.string().max(500).optional(),
+});
+
+export const dataExportDownloadSchema = Joi.object({
+  token: Joi.string().max(200).optional(),
+});
+
+// API key schemas
+export const createApiKeySchema = Joi.object({
+  name: Joi.string().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid(...Object.values(Permission))).min(1).required(),
+  expiresInDays: Joi.number().integer().min(1).max(365).optional(),
+});
+
+// Instructor application schemas
+export const instructorApplicationSchema = Joi.object({
+  bio: Joi.string().min(50).max(2000).required(),
+  expertise: Joi.array().items(Joi.string().max(50)).min(1).max(20).required(),
+  experience: Joi.string().min(20).max(5000).required(),
+  portfolioUrl: Joi.string().uri().optional(),
+});
+
+export const reviewApplicationSchema = Joi.object({
+  note: Joi.string().max(1000).optional(),
+});
+
+export const applicationQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  status: Joi.string().valid(...Object.values(InstructorApplicationStatus)).optional(),
+});
+
 // Course validation schemas
 export const createCourseSchema = Joi.object({
   title: Joi.string().min(5).max(200).required(),
@@ -72,6 +184,166 @@ export const updateCourseSchema = Joi.object({
   tags: Joi.array().items(Joi.string()).optional(),
 });
 
+// Tags can be repeated (?tags=a&tags=b) or comma-separated (?tags=a,b)
+export const courseListQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  sortBy: Joi.string().valid('relevance', 'title', 'price', 'rating', 'enrollmentCount', 'createdAt').optional(),
+  sortOrder: Joi.string().valid('asc', 'desc').optional(),
+  search: Joi.string().trim().min(1).max(200).optional(),
+  category: Joi.string().optional(),
+  subcategory: Joi.string().optional(),
+  level: Joi.string().valid(...Object.values(CourseLevel)).optional(),
+  priceMin: Joi.number().min(0).optional(),
+  priceMax: Joi.number().min(0).optional(),
+  rating: Joi.number().min(0).max(5).optional(),
+  duration: Joi.string().valid(...DURATION_BAND_VALUES).optional(),
+  tags: Joi.alternatives().try(
+    Joi.array().items(Joi.string().trim().min(1)),
+    Joi.string().custom(value => value.split(',').map((tag: string) => tag.trim()).filter(Boolean))
+  ).optional(),
+});
+
+export const courseSearchQuerySchema = Joi.object({
+  q: Joi.string().trim().min(1).max(200).required(),
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+});
+
+// Curriculum validation schemas
+export const moduleParamSchema = Joi.object({
+  id: Joi.string().required(),
+  moduleId: Joi.string().required(),
+});
+
+export const lessonParamSchema = Joi.object({
+  id: Joi.string().required(),
+  moduleId: Joi.string().required(),
+  lessonId: Joi.string().required(),
+});
+
+export const resourceParamSchema = Joi.object({
+  id: Joi.string().required(),
+  moduleId: Joi.string().required(),
+  lessonId: Joi.string().required(),
+  resourceId: Joi.string().required(),
+});
+
+export const createModuleSchema = Joi.object({
+  title: Joi.string().min(1).max(200).required(),
+  description: Joi.string().allow('').max(2000).optional(),
+  isPreview: Joi.boolean().optional(),
+});
+
+export const updateModuleSchema = Joi.object({
+  title: Joi.string().min(1).max(200).optional(),
+  description: Joi.string().allow('').max(2000).optional(),
+  isPreview: Joi.boolean().optional(),
+}).min(1);
+
+const lessonContentSchema = Joi.object({
+  videoUrl: Joi.string().uri().optional(),
+  textContent: Joi.string().max(100000).optional(),
+  interactiveContent: Joi.any().optional(),
+  assignmentInstructions: Joi.string().max(10000).optional(),
+});
+
+export const createLessonSchema = Joi.object({
+  title: Joi.string().min(1).max(200).required(),
+  description: Joi.string().allow('').max(2000).optional(),
+  type: Joi.string().valid(...Object.values(LessonType)).required(),
+  content: lessonContentSchema.optional(),
+  duration: Joi.number().integer().min(0).max(24 * 60).required(),
+  isPreview: Joi.boolean().optional(),
+});
+
+export const updateLessonSchema = Joi.object({
+  title: Joi.string().min(1).max(200).optional(),
+  description: Joi.string().allow('').max(2000).optional(),
+  type: Joi.string().valid(...Object.values(LessonType)).optional(),
+  content: lessonContentSchema.optional(),
+  duration: Joi.number().integer().min(0).max(24 * 60).optional(),
+  isPreview: Joi.boolean().optional(),
+}).min(1);
+
+export const reorderModulesSchema = Joi.object({
+  moduleIds: Joi.array().items(Joi.string()).unique().required(),
+});
+
+export const reorderLessonsSchema = Joi.object({
+  lessonIds: Joi.array().items(Joi.string()).unique().required(),
+});
+
+// Course revision schemas; the rollback body takes the same optional note
+export const publishCourseSchema = Joi.object({
+  note: Joi.string().max(500).optional(),
+});
+
+export const revisionParamSchema = Joi.object({
+  id: Joi.string().required(),
+  revision: Joi.number().integer().min(1).required(),
+});
+
+export const revisionDiffQuerySchema = Joi.object({
+  against: Joi.number().integer().min(1).optional(),
+});
+
+// Course review schemas
+export const submitCourseSchema = Joi.object({
+  message: Joi.string().max(1000).optional(),
+});
+
+export const reviewCourseSchema = Joi.object({
+  note: Joi.string().max(1000).optional(),
+});
+
+export const reviewCommentSchema = Joi.object({
+  body: Joi.string().min(1).max(2000).required(),
+  moduleId: Joi.string().optional(),
+  lessonId: Joi.string().optional(),
+});
+
+export const courseReviewQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  status: Joi.string().valid(...Object.values(CourseSubmissionStatus)).optional(),
+});
+
+// Student review schemas
+export const reviewParamSchema = Joi.object({
+  id: Joi.string().required(),
+  reviewId: Joi.string().required(),
+});
+
+export const createReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).required(),
+  title: Joi.string().max(120).optional(),
+  body: Joi.string().min(1).max(5000).required(),
+});
+
+export const updateReviewSchema = Joi.object({
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  title: Joi.string().max(120).optional(),
+  body: Joi.string().min(1).max(5000).optional(),
+}).min(1);
+
+export const reviewReplySchema = Joi.object({
+  body: Joi.string().min(1).max(5000).required(),
+});
+
+export const moderateReviewSchema = Joi.object({
+  status: Joi.string().valid(...Object.values(ReviewStatus)).required(),
+  reason: Joi.string().max(500).optional(),
+});
+
+export const reviewQuerySchema = Joi.object({
+  page: Joi.number().min(1).optional(),
+  limit: Joi.number().min(1).max(100).optional(),
+  rating: Joi.number().integer().min(1).max(5).optional(),
+  sort: Joi.string().valid('recent', 'helpful', 'highest', 'lowest').optional(),
+  status: Joi.string().valid(...Object.values(ReviewStatus)).optional(),
+});
+
 // Payment validation schemas
 export const createPaymentIntentSchema = Joi.object({
   courseId: Joi.string().required(),